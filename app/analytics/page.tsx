@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { AnalyticsDashboard } from '@/components/AnalyticsDashboard'
+
+export default function AnalyticsPage() {
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 py-4 flex items-center gap-3">
+          <Link href="/" className="text-muted-foreground hover:text-foreground" aria-label="Back to transformer">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold tracking-[-0.01em] text-foreground">Analytics</h1>
+            <p className="text-sm text-muted-foreground mt-0.5 leading-relaxed">
+              Agent runs from the page, the API, schedules and watch folders
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+        <AnalyticsDashboard />
+      </main>
+    </div>
+  )
+}
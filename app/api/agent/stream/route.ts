@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { LYZR_API_KEY, fetchTaskStatus, markTaskCancelled } from '@/lib/lyzrTask'
+import { cancelQueuedTask, fetchQueuedTaskStatus, isQueueTicket } from '@/lib/agentQueue'
+
+export const dynamic = 'force-dynamic'
+
+const STREAM_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
+const SERVER_POLL_INTERVAL_MS = 1000
+
+/**
+ * GET /api/agent/stream?task_id=
+ *
+ * Polls Lyzr on the server and pushes Server-Sent Events to the browser:
+ *   event: processing  → { status: 'processing', elapsed_ms, queue_position? }   (also serves as a heartbeat)
+ *   event: completed   → same body as a completed poll of POST /api/agent
+ *   event: failed      → same body as a failed poll of POST /api/agent
+ *   event: cancelled   → the task was cancelled through POST /api/agent { action: 'cancel' }
+ *
+ * The stream closes after the first terminal event, on timeout, or when the client disconnects.
+ * The timeout counts from when the task leaves the agent queue; a timed-out task is cancelled.
+ */
+export async function GET(request: NextRequest) {
+  const task_id = request.nextUrl.searchParams.get('task_id')
+
+  if (!LYZR_API_KEY) {
+    return NextResponse.json(
+      { success: false, status: 'failed', error: 'LYZR_API_KEY not configured on server' },
+      { status: 500 }
+    )
+  }
+
+  if (!task_id) {
+    return NextResponse.json(
+      { success: false, status: 'failed', error: 'task_id is required' },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+      const startTime = Date.now()
+      /** Moves forward while the ticket is still queued */
+      let timeoutFrom = startTime
+
+      try {
+        while (!request.signal.aborted) {
+          const elapsed = Date.now() - startTime
+          if (Date.now() - timeoutFrom > STREAM_TIMEOUT_MS) {
+            if (isQueueTicket(task_id)) cancelQueuedTask(task_id)
+            else markTaskCancelled(task_id)
+            send('failed', {
+              success: false,
+              status: 'failed',
+              response: { status: 'error', result: {}, message: 'Agent task timed out after 5 minutes' },
+              error: 'Agent task timed out after 5 minutes',
+            })
+            break
+          }
+
+          let poll
+          try {
+            poll = isQueueTicket(task_id) ? await fetchQueuedTaskStatus(task_id) : await fetchTaskStatus(task_id)
+          } catch (error) {
+            // Transient network error talking to Lyzr — keep the stream alive and retry
+            console.error('Agent stream poll error:', error)
+            send('processing', { status: 'processing', elapsed_ms: elapsed })
+            await new Promise(r => setTimeout(r, SERVER_POLL_INTERVAL_MS))
+            continue
+          }
+
+          if (poll.state === 'processing') {
+            if (poll.body.queued) timeoutFrom = Date.now()
+            send('processing', { status: 'processing', elapsed_ms: elapsed, queue_position: poll.body.queue_position })
+            await new Promise(r => setTimeout(r, SERVER_POLL_INTERVAL_MS))
+            continue
+          }
+
+          send(poll.state, poll.body)
+          break
+        }
+      } catch (error) {
+        // Enqueue throws once the client has gone away — nothing left to do
+        if (!request.signal.aborted) {
+          console.error('Agent stream error:', error)
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a disconnect
+        }
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
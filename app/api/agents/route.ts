@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAgents, listImageAgents, toAgentSummary } from '@/lib/agentRegistry'
+
+/**
+ * GET /api/agents — list registered agents
+ * ?type=image limits the list to image-producing agents.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const imageOnly = request.nextUrl.searchParams.get('type') === 'image'
+    const agents = (imageOnly ? listImageAgents() : listAgents()).map(toAgentSummary)
+    return NextResponse.json({
+      success: true,
+      agents,
+      default_agent_id: agents[0]?.agent_id ?? null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        agents: [],
+        error: 'Failed to load agents',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
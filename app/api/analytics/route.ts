@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildAnalyticsReport } from '@/lib/analyticsReport'
+import type { AnalyticsRange, RunSource } from '@/lib/analytics'
+
+export const dynamic = 'force-dynamic'
+
+const RANGES: AnalyticsRange[] = ['24h', '7d', '30d']
+const SOURCES: RunSource[] = ['adhoc', 'api', 'schedule', 'ingest']
+
+/**
+ * GET /api/analytics?range=24h|7d|30d&agent_id=&source=&utc_offset= — agent run
+ * counts, success rate, latency percentiles, retries and top errors over time
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const range = (searchParams.get('range') || '7d') as AnalyticsRange
+  const source = searchParams.get('source') as RunSource | null
+  if (!RANGES.includes(range)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid range', details: `range must be one of ${RANGES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  if (source && !SOURCES.includes(source)) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid source', details: `source must be one of ${SOURCES.join(', ')}` },
+      { status: 400 }
+    )
+  }
+  // Real offsets are within ±14h
+  const utcOffset = Math.max(-840, Math.min(840, Number(searchParams.get('utc_offset')) || 0))
+
+  try {
+    const report = await buildAnalyticsReport({
+      range,
+      agentId: searchParams.get('agent_id') || undefined,
+      source: source || undefined,
+      utcOffset,
+    })
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to build analytics', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getArtifact, readArtifactBytes } from '@/lib/artifactCache'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Same-origin proxy and cache for agent artifacts
+ *
+ * GET /api/artifact?url=<encoded artifact url>
+ * Only allow-listed hosts are fetched. Responses are content-addressed, so
+ * they are served immutable with the content hash as the ETag.
+ */
+export async function GET(request: NextRequest) {
+  const lookup = await getArtifact(request.nextUrl.searchParams.get('url'), request.signal)
+  if (!lookup.success) {
+    return NextResponse.json(
+      { success: false, error: lookup.error, details: lookup.details },
+      { status: lookup.status }
+    )
+  }
+
+  const { artifact } = lookup
+  const etag = `"${artifact.hash}"`
+  const headers = {
+    'Content-Type': artifact.contentType,
+    'Cache-Control': 'public, max-age=31536000, immutable',
+    ETag: etag,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'",
+  }
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers })
+  }
+
+  try {
+    const bytes = await readArtifactBytes(artifact)
+    return new NextResponse(new Uint8Array(bytes), {
+      status: 200,
+      headers: { ...headers, 'Content-Length': String(bytes.length) },
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Cached artifact could not be read',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { listIngestFiles } from '@/lib/ingestionStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/ingest/:id/files?limit= — images the source has processed, most recent first
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  const { searchParams } = new URL(request.url)
+  const limit = Math.min(500, Math.max(1, Number(searchParams.get('limit')) || 100))
+  try {
+    const files = await listIngestFiles(params.id, limit)
+    if (!files) {
+      return NextResponse.json({ success: false, error: 'Ingestion source not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, files })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load processed files', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listImageAgents } from '@/lib/agentRegistry'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { deleteIngestSource, ingestSourceUpdateSchema, updateIngestSource } from '@/lib/ingestionStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PATCH /api/ingest/:id — change any field given to POST /api/ingest, or is_active
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+  }
+  const parsed = ingestSourceUpdateSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ingestion source changes',
+        details: parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })),
+      },
+      { status: 400 }
+    )
+  }
+
+  const { name, kind, directory, bucket, prefix, output_dir, agent_id, preset, style_note, cron_expression, timezone, is_active } =
+    parsed.data
+  if (agent_id !== undefined && !listImageAgents().some(a => a.agent_id === agent_id)) {
+    return NextResponse.json({ success: false, error: `Unknown image agent "${agent_id}"` }, { status: 400 })
+  }
+
+  try {
+    const result = await updateIngestSource(params.id, {
+      name,
+      kind,
+      directory,
+      bucket,
+      prefix,
+      output_dir,
+      agent_id,
+      preset: preset && {
+        name: preset.name,
+        palette: preset.palette,
+        typography: preset.typography,
+        dos: preset.dos,
+        donts: preset.donts,
+      },
+      style_note,
+      cron_expression,
+      timezone,
+      is_active,
+    })
+    if (!result) {
+      return NextResponse.json({ success: false, error: 'Ingestion source not found' }, { status: 404 })
+    }
+    if ('issues' in result) {
+      return NextResponse.json({ success: false, error: 'Invalid ingestion source changes', details: result.issues }, { status: 400 })
+    }
+    return NextResponse.json({ success: true, source: result })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to update ingestion source', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/ingest/:id — remove a source and its processed-file log; written outputs are kept
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    if (!(await deleteIngestSource(params.id))) {
+      return NextResponse.json({ success: false, error: 'Ingestion source not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete ingestion source', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
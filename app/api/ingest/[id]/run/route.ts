@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { triggerIngestSource } from '@/lib/ingestionStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/ingest/:id/run — start a run now without waiting for it; a run in progress is not doubled
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    const source = await triggerIngestSource(params.id)
+    if (!source) {
+      return NextResponse.json({ success: false, error: 'Ingestion source not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, source }, { status: 202 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to start ingestion run', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
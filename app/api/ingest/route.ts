@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listImageAgents } from '@/lib/agentRegistry'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { createIngestSource, ingestSourceInputSchema, isS3Configured, listIngestSources } from '@/lib/ingestionStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/ingest — list ingestion sources and whether S3 is configured
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function GET(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    return NextResponse.json({
+      success: true,
+      sources: await listIngestSources(),
+      s3_configured: isS3Configured(),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load ingestion sources', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/ingest — add a source:
+ * { name, kind, directory? | bucket?, prefix?, output_dir, agent_id?, preset, style_note?, cron_expression, timezone }
+ * Paths are relative to the ingest root. A blank agent_id uses the default image agent.
+ */
+export async function POST(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+  }
+  const parsed = ingestSourceInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid ingestion source',
+        details: parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })),
+      },
+      { status: 400 }
+    )
+  }
+
+  const { name, kind, directory, bucket, prefix, output_dir, agent_id, preset, style_note, cron_expression, timezone } = parsed.data
+  const agents = listImageAgents()
+  const agentId = agent_id || agents[0]?.agent_id
+  if (!agentId || !agents.some(a => a.agent_id === agentId)) {
+    return NextResponse.json(
+      { success: false, error: `Unknown image agent "${agent_id}"`, details: { agents: agents.map(a => a.agent_id) } },
+      { status: 400 }
+    )
+  }
+  if (kind === 's3' && !isS3Configured()) {
+    return NextResponse.json({ success: false, error: 'S3 is not configured on the server (INGEST_S3_*)' }, { status: 400 })
+  }
+
+  try {
+    const source = await createIngestSource({
+      name,
+      kind,
+      directory,
+      bucket,
+      prefix,
+      output_dir,
+      agent_id: agentId,
+      preset: {
+        name: preset.name,
+        palette: preset.palette,
+        typography: preset.typography,
+        dos: preset.dos,
+        donts: preset.donts,
+      },
+      style_note,
+      cron_expression,
+      timezone,
+    })
+    return NextResponse.json({ success: true, source }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to create ingestion source', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,31 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
-
-function getHeaders() {
-  return {
-    'Content-Type': 'application/json',
-    'accept': 'application/json',
-    'x-api-key': LYZR_API_KEY,
+import { validateCron, formatCronError, isValidTimezone } from '@/lib/cron'
+import { getSchedulerBackend } from '@/lib/schedulerBackend'
+import type { SchedulerBackend, SchedulerResult } from '@/lib/schedulerBackend'
+
+function backendCheck(backend: SchedulerBackend) {
+  const reason = backend.unavailableReason()
+  if (reason) {
+    return NextResponse.json({ success: false, error: reason }, { status: 500 })
   }
+  return null
 }
 
-function apiKeyCheck() {
-  if (!LYZR_API_KEY) {
+function toResponse(result: SchedulerResult) {
+  if (!result.success) {
     return NextResponse.json(
-      { success: false, error: 'LYZR_API_KEY not configured on server' },
-      { status: 500 }
+      { success: false, error: result.error, details: result.details },
+      { status: result.status }
     )
   }
-  return null
+  return NextResponse.json({ success: true, ...result.data }, { status: result.status })
+}
+
+function numberParam(value: string | null): number | undefined {
+  return value ? Number(value) : undefined
 }
 
 // ---------------------------------------------------------------------------
 // GET — list | get | by-agent | logs | recent
 // ---------------------------------------------------------------------------
 export async function GET(request: NextRequest) {
-  const check = apiKeyCheck()
+  const backend = getSchedulerBackend()
+  const check = backendCheck(backend)
   if (check) return check
 
   try {
@@ -33,81 +38,56 @@ export async function GET(request: NextRequest) {
     const action = searchParams.get('action') || 'list'
     const scheduleId = searchParams.get('scheduleId')
     const agentId = searchParams.get('agentId')
-
-    let url: string
+    const skip = numberParam(searchParams.get('skip'))
+    const limit = numberParam(searchParams.get('limit'))
 
     switch (action) {
-      // GET /schedules/{schedule_id}
       case 'get': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}`
-        break
+        return toResponse(await backend.get(scheduleId))
       }
 
-      // GET /schedules/by-agent/{agent_id}
       case 'by-agent': {
         if (!agentId) {
           return NextResponse.json({ success: false, error: 'agentId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/by-agent/${agentId}`
-        break
+        return toResponse(await backend.byAgent(agentId))
       }
 
-      // GET /schedules/{schedule_id}/logs?skip=&limit=
       case 'logs': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        const logsQuery = new URLSearchParams()
-        if (searchParams.get('skip')) logsQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) logsQuery.set('limit', searchParams.get('limit')!)
-        const logsQs = logsQuery.toString() ? `?${logsQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/logs${logsQs}`
-        break
+        return toResponse(await backend.logs(scheduleId, { skip, limit }))
       }
 
-      // GET /schedules/executions/recent?agent_id=&success=&hours=&days=&skip=&limit=
       case 'recent': {
-        const recentQuery = new URLSearchParams()
-        if (agentId) recentQuery.set('agent_id', agentId)
-        if (searchParams.get('success')) recentQuery.set('success', searchParams.get('success')!)
-        if (searchParams.get('hours')) recentQuery.set('hours', searchParams.get('hours')!)
-        if (searchParams.get('days')) recentQuery.set('days', searchParams.get('days')!)
-        if (searchParams.get('skip')) recentQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) recentQuery.set('limit', searchParams.get('limit')!)
-        const recentQs = recentQuery.toString() ? `?${recentQuery}` : ''
-        url = `${SCHEDULER_BASE_URL}/schedules/executions/recent${recentQs}`
-        break
+        return toResponse(
+          await backend.recent({
+            agentId: agentId || undefined,
+            success: searchParams.get('success') || undefined,
+            hours: numberParam(searchParams.get('hours')),
+            days: numberParam(searchParams.get('days')),
+            skip,
+            limit,
+          })
+        )
       }
 
-      // GET /schedules/?user_id=&agent_id=&is_active=&skip=&limit=
       case 'list':
       default: {
-        const listQuery = new URLSearchParams()
-        listQuery.set('user_id', LYZR_API_KEY)
-        if (agentId) listQuery.set('agent_id', agentId)
-        if (searchParams.get('is_active')) listQuery.set('is_active', searchParams.get('is_active')!)
-        if (searchParams.get('skip')) listQuery.set('skip', searchParams.get('skip')!)
-        if (searchParams.get('limit')) listQuery.set('limit', searchParams.get('limit')!)
-        url = `${SCHEDULER_BASE_URL}/schedules/?${listQuery}`
-        break
+        return toResponse(
+          await backend.list({
+            agentId: agentId || undefined,
+            is_active: searchParams.get('is_active') || undefined,
+            skip,
+            limit,
+          })
+        )
       }
     }
-
-    const response = await fetch(url, { headers: getHeaders() })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      return NextResponse.json(
-        { success: false, error: `Scheduler API error: ${response.status}`, details: errorText },
-        { status: response.status }
-      )
-    }
-
-    const data = await response.json()
-    return NextResponse.json({ success: true, ...data })
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
@@ -120,45 +100,24 @@ export async function GET(request: NextRequest) {
 // POST — create | pause | resume | trigger
 // ---------------------------------------------------------------------------
 export async function POST(request: NextRequest) {
-  const check = apiKeyCheck()
+  const backend = getSchedulerBackend()
+  const check = backendCheck(backend)
   if (check) return check
 
   try {
     const body = await request.json()
     const { action, scheduleId, ...params } = body
 
-    let url: string
-    let fetchBody: string | undefined
-
     switch (action) {
-      // POST /schedules/{schedule_id}/trigger  → 202 Accepted
-      case 'trigger': {
-        if (!scheduleId) {
-          return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
-        }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`
-        break
-      }
-
-      // POST /schedules/{schedule_id}/pause  → 200 with updated schedule
-      case 'pause': {
-        if (!scheduleId) {
-          return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
-        }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/pause`
-        break
-      }
-
-      // POST /schedules/{schedule_id}/resume  → 200 with updated schedule
+      case 'trigger':
+      case 'pause':
       case 'resume': {
         if (!scheduleId) {
           return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/${scheduleId}/resume`
-        break
+        return toResponse(await backend[action as 'trigger' | 'pause' | 'resume'](scheduleId))
       }
 
-      // POST /schedules/  → 201 with created schedule
       case 'create':
       default: {
         if (!params.agent_id || !params.cron_expression || !params.message) {
@@ -167,48 +126,28 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           )
         }
-        url = `${SCHEDULER_BASE_URL}/schedules/`
-        fetchBody = JSON.stringify({
-          agent_id: params.agent_id,
-          cron_expression: params.cron_expression,
-          message: params.message,
-          timezone: params.timezone || 'UTC',
-          user_id: LYZR_API_KEY,
-          max_retries: params.max_retries ?? 3,
-          retry_delay: params.retry_delay ?? 300,
-        })
-        break
-      }
-    }
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: getHeaders(),
-      ...(fetchBody && { body: fetchBody }),
-    })
-
-    // Trigger returns 202 Accepted with a string body
-    if (action === 'trigger') {
-      if (response.status === 202) {
-        return NextResponse.json({ success: true, message: 'Schedule triggered successfully' })
+        const cronError = validateCron(params.cron_expression)
+        if (cronError) {
+          return NextResponse.json(
+            { success: false, error: formatCronError(cronError), details: cronError },
+            { status: 400 }
+          )
+        }
+        if (params.timezone && !isValidTimezone(params.timezone)) {
+          return NextResponse.json({ success: false, error: `Unknown timezone "${params.timezone}"` }, { status: 400 })
+        }
+        return toResponse(
+          await backend.create({
+            agent_id: params.agent_id,
+            cron_expression: params.cron_expression,
+            message: params.message,
+            timezone: params.timezone || 'UTC',
+            max_retries: params.max_retries ?? 3,
+            retry_delay: params.retry_delay ?? 300,
+          })
+        )
       }
-      const errorText = await response.text()
-      return NextResponse.json(
-        { success: false, error: `Trigger failed: ${response.status}`, details: errorText },
-        { status: response.status }
-      )
     }
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      return NextResponse.json(
-        { success: false, error: `Scheduler API error: ${response.status}`, details: errorText },
-        { status: response.status }
-      )
-    }
-
-    const data = await response.json()
-    return NextResponse.json({ success: true, ...data })
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
@@ -218,10 +157,11 @@ export async function POST(request: NextRequest) {
 }
 
 // ---------------------------------------------------------------------------
-// DELETE — delete schedule  (upstream returns 204 No Content)
+// DELETE — delete schedule
 // ---------------------------------------------------------------------------
 export async function DELETE(request: NextRequest) {
-  const check = apiKeyCheck()
+  const backend = getSchedulerBackend()
+  const check = backendCheck(backend)
   if (check) return check
 
   try {
@@ -232,25 +172,7 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'scheduleId is required' }, { status: 400 })
     }
 
-    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
-      method: 'DELETE',
-      headers: getHeaders(),
-    })
-
-    // Upstream returns 204 No Content on success
-    if (response.status === 204 || response.ok) {
-      return NextResponse.json({
-        success: true,
-        message: 'Schedule deleted successfully',
-        scheduleId,
-      })
-    }
-
-    const errorText = await response.text()
-    return NextResponse.json(
-      { success: false, error: `Failed to delete schedule: ${response.status}`, details: errorText },
-      { status: response.status }
-    )
+    return toResponse(await backend.remove(scheduleId))
   } catch (error) {
     return NextResponse.json(
       { success: false, error: error instanceof Error ? error.message : 'Server error' },
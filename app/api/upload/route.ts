@@ -1,7 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+import { LYZR_API_KEY, uploadLyzrAssets } from '@/lib/lyzrTask'
 
 export async function POST(request: NextRequest) {
   try {
@@ -43,49 +41,20 @@ export async function POST(request: NextRequest) {
     }
 
     // Forward the request to Lyzr API
-    const uploadFormData = new FormData()
-    for (const file of files) {
-      if (file instanceof File) {
-        uploadFormData.append('files', file, file.name)
-      }
-    }
-
-    const response = await fetch(LYZR_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: uploadFormData,
-    })
-
-    if (response.ok) {
-      const data = await response.json()
-
-      const uploadedFiles = (data.results || []).map((r: any) => ({
-        asset_id: r.asset_id || '',
-        file_name: r.file_name || '',
-        success: r.success ?? true,
-        error: r.error,
-      }))
-
-      const assetIds = uploadedFiles
-        .filter((f: any) => f.success && f.asset_id)
-        .map((f: any) => f.asset_id)
+    const result = await uploadLyzrAssets(files.filter((file): file is File => file instanceof File))
 
+    if (result.success) {
       return NextResponse.json({
         success: true,
-        asset_ids: assetIds,
-        files: uploadedFiles,
-        total_files: data.total_files || files.length,
-        successful_uploads: data.successful_uploads || assetIds.length,
-        failed_uploads: data.failed_uploads || 0,
-        message: `Successfully uploaded ${assetIds.length} file(s)`,
+        asset_ids: result.asset_ids,
+        files: result.files,
+        total_files: result.total_files,
+        successful_uploads: result.successful_uploads,
+        failed_uploads: result.failed_uploads,
+        message: `Successfully uploaded ${result.asset_ids.length} file(s)`,
         timestamp: new Date().toISOString(),
       })
     } else {
-      const errorText = await response.text()
-      console.error('Upload API error:', response.status, errorText)
-
       return NextResponse.json(
         {
           success: false,
@@ -94,11 +63,11 @@ export async function POST(request: NextRequest) {
           total_files: files.length,
           successful_uploads: 0,
           failed_uploads: files.length,
-          message: `Upload failed with status ${response.status}`,
+          message: `Upload failed with status ${result.httpStatus}`,
           timestamp: new Date().toISOString(),
-          error: errorText,
+          error: result.error,
         },
-        { status: response.status }
+        { status: result.httpStatus }
       )
     }
   } catch (error) {
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken, revokeApiKey } from '@/lib/apiKeys'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/v1/keys/:id — revoke a key (kept for the usage record)
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    const record = await revokeApiKey(params.id)
+    if (!record) {
+      return NextResponse.json({ success: false, error: 'API key not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, record })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
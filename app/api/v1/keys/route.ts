@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkAdminToken, createApiKey, listApiKeys } from '@/lib/apiKeys'
+
+export const dynamic = 'force-dynamic'
+
+const createKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  daily_quota: z.number().int().positive().nullable().optional(),
+  monthly_quota: z.number().int().positive().nullable().optional(),
+})
+
+/**
+ * GET /api/v1/keys — list issued API keys (no secrets)
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function GET(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    return NextResponse.json({ success: true, keys: await listApiKeys() })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load API keys', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/v1/keys — issue a key: { name, daily_quota?, monthly_quota? }
+ * The plaintext key is in this response only; it is stored hashed.
+ */
+export async function POST(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+  }
+  const parsed = createKeySchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid key options',
+        details: parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })),
+      },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { name, daily_quota, monthly_quota } = parsed.data
+    const { key, record } = await createApiKey({ name, daily_quota, monthly_quota })
+    return NextResponse.json({ success: true, key, record }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to create API key', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticateApiKey } from '@/lib/apiKeys'
+import { getTransformJob, toPublicJob } from '@/lib/transformJobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/v1/transform/:id — job status, and the result once completed
+ *
+ * Jobs are only visible to the API key that created them; anything else is a 404.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authenticateApiKey(request.headers)
+  if (!auth.success || !auth.key) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status })
+  }
+
+  try {
+    const job = await getTransformJob(params.id)
+    if (!job || job.key_id !== auth.key.id) {
+      return NextResponse.json({ success: false, error: 'Job not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, job: toPublicJob(job) })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load job',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { LYZR_API_KEY } from '@/lib/lyzrTask'
+import { authenticateApiKey, authenticateAndConsume } from '@/lib/apiKeys'
+import { getArtifact, readArtifactBytes, sniffImageType } from '@/lib/artifactCache'
+import { createTransformJob, toPublicJob } from '@/lib/transformJobs'
+import { listImageAgents } from '@/lib/agentRegistry'
+import { buildPresetPrompt, LYZR_PRESET } from '@/lib/brandPrompt'
+import type { BrandPreset } from '@/lib/brandPrompt'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+/** The image plus room for the other form fields and multipart boundaries */
+const MAX_BODY_BYTES = MAX_IMAGE_BYTES + 1024 * 1024
+const TOO_LARGE = `The image exceeds ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  palette: z.array(z.string().regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, 'expected a hex color')).max(16).optional(),
+  typography: z.string().max(500).optional(),
+  dos: z.array(z.string().max(300)).max(20).optional(),
+  donts: z.array(z.string().max(300)).max(20).optional(),
+})
+
+const optionsSchema = z.object({
+  image_url: z.string().url().optional(),
+  style_note: z.string().max(1000).optional(),
+  agent_id: z.string().optional(),
+  preset: presetSchema.optional(),
+})
+
+type TransformOptions = z.infer<typeof optionsSchema>
+
+function errorResponse(status: number, error: string, details?: unknown, headers?: Record<string, string>) {
+  return NextResponse.json({ success: false, error, details }, { status, headers })
+}
+
+/** Multipart form fields are strings; `preset` arrives as a JSON string */
+function readMultipartOptions(form: FormData): unknown {
+  const text = (name: string) => {
+    const value = form.get(name)
+    return typeof value === 'string' && value !== '' ? value : undefined
+  }
+  const preset = text('preset')
+  let parsedPreset: unknown
+  if (preset) {
+    try {
+      parsedPreset = JSON.parse(preset)
+    } catch {
+      parsedPreset = preset
+    }
+  }
+  return { image_url: text('image_url'), style_note: text('style_note'), agent_id: text('agent_id'), preset: parsedPreset }
+}
+
+async function toImageFile(bytes: Uint8Array, name: string): Promise<File | string> {
+  if (bytes.length === 0) return 'The image is empty'
+  if (bytes.length > MAX_IMAGE_BYTES) return TOO_LARGE
+  const type = sniffImageType(bytes)
+  if (!type || !ACCEPTED_TYPES.includes(type)) return 'The image must be a PNG, JPG or WEBP'
+  return new File([bytes as BlobPart], name, { type })
+}
+
+/**
+ * POST /api/v1/transform — start a style transform job
+ *
+ * Auth: `Authorization: Bearer <api key>` (or `x-api-key`), see /api/v1/keys.
+ * Body, either:
+ *   multipart/form-data  image=<file>, style_note?, agent_id?, preset? (JSON)
+ *   application/json     { image_url, style_note?, agent_id?, preset? }
+ * `image_url` must be on an artifact allow-listed host. Bodies over the 20 MB
+ * image limit are refused with 413 before they are read.
+ *
+ * Answers 202 with the queued job; poll GET /api/v1/transform/:id for the result.
+ */
+export async function POST(request: NextRequest) {
+  if (!LYZR_API_KEY) {
+    return errorResponse(500, 'LYZR_API_KEY not configured on server')
+  }
+
+  const auth = await authenticateApiKey(request.headers)
+  if (!auth.success) return errorResponse(auth.status, auth.error!)
+
+  // ── Parse options and the image ──
+  // formData() buffers the whole body, so an oversized upload is refused from its declared length first
+  const declaredLength = Number(request.headers.get('content-length'))
+  if (declaredLength > MAX_BODY_BYTES) return errorResponse(413, TOO_LARGE)
+
+  let rawOptions: unknown
+  let upload: File | null = null
+  const contentType = request.headers.get('content-type') || ''
+  try {
+    if (contentType.includes('multipart/form-data')) {
+      const form = await request.formData()
+      const image = form.get('image') ?? form.get('file')
+      upload = image instanceof File ? image : null
+      rawOptions = readMultipartOptions(form)
+    } else {
+      rawOptions = await request.json()
+    }
+  } catch {
+    return errorResponse(400, 'Body must be multipart/form-data or JSON')
+  }
+
+  const parsed = optionsSchema.safeParse(rawOptions)
+  if (!parsed.success) {
+    return errorResponse(400, 'Invalid transform options', parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })))
+  }
+  const options: TransformOptions = parsed.data
+
+  const agents = listImageAgents()
+  const agentId = options.agent_id || agents[0]?.agent_id
+  if (!agentId || !agents.some(a => a.agent_id === agentId)) {
+    return errorResponse(400, `Unknown image agent "${options.agent_id}"`, { agents: agents.map(a => a.agent_id) })
+  }
+
+  let image: File | string
+  if (upload) {
+    if (upload.size > MAX_IMAGE_BYTES) return errorResponse(413, TOO_LARGE)
+    image = await toImageFile(new Uint8Array(await upload.arrayBuffer()), upload.name || 'upload')
+  } else if (options.image_url) {
+    const lookup = await getArtifact(options.image_url, request.signal)
+    if (!lookup.success || !lookup.artifact) {
+      return errorResponse(lookup.status === 500 ? 502 : lookup.status, lookup.error || 'Could not fetch image_url', lookup.details)
+    }
+    const name = new URL(options.image_url).pathname.split('/').pop() || 'image'
+    image = await toImageFile(new Uint8Array(await readArtifactBytes(lookup.artifact)), name)
+  } else {
+    return errorResponse(400, 'Provide an image file (multipart "image") or an image_url')
+  }
+  if (typeof image === 'string') return errorResponse(400, image)
+
+  // ── Count the job against the key's quota only once the request is valid ──
+  const consumed = await authenticateAndConsume(request.headers)
+  if (!consumed.success || !consumed.key) {
+    return errorResponse(consumed.status, consumed.error!, undefined, consumed.headers)
+  }
+
+  const preset: BrandPreset = options.preset
+    ? {
+        id: 'api',
+        name: options.preset.name,
+        palette: options.preset.palette ?? [],
+        typography: options.preset.typography ?? '',
+        dos: options.preset.dos ?? [],
+        donts: options.preset.donts ?? [],
+        exampleImageUrl: '',
+      }
+    : LYZR_PRESET
+  const styleNote = options.style_note?.trim() ?? ''
+
+  try {
+    const job = await createTransformJob({
+      keyId: consumed.key.id,
+      file: image,
+      message: buildPresetPrompt(preset, styleNote),
+      job: {
+        source: upload ? 'upload' : 'url',
+        file_name: image.name,
+        image_url: upload ? undefined : options.image_url,
+        style_note: styleNote,
+        preset_name: preset.name,
+        agent_id: agentId,
+      },
+    })
+    return NextResponse.json(
+      { success: true, job: toPublicJob(job), status_url: `/api/v1/transform/${job.id}` },
+      { status: 202, headers: { ...consumed.headers, Location: `/api/v1/transform/${job.id}` } }
+    )
+  } catch (error) {
+    return errorResponse(500, 'Failed to create transform job', error instanceof Error ? error.message : String(error))
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { checkWebhookTarget, deleteWebhook, updateWebhook, webhookInputSchema } from '@/lib/webhookStore'
+
+export const dynamic = 'force-dynamic'
+
+const updateWebhookSchema = webhookInputSchema.partial().extend({ is_active: z.boolean().optional() })
+
+/**
+ * PATCH /api/webhooks/:id — change any of { webhook_url, events, description, agent_id, is_active }
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+  }
+  const parsed = updateWebhookSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook changes',
+        details: parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })),
+      },
+      { status: 400 }
+    )
+  }
+  if (parsed.data.webhook_url !== undefined) {
+    const target = await checkWebhookTarget(parsed.data.webhook_url)
+    if (target.error) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid webhook changes', details: [{ path: 'webhook_url', message: target.error }] },
+        { status: 400 }
+      )
+    }
+  }
+
+  try {
+    const { webhook_url, description, agent_id, events, is_active } = parsed.data
+    const webhook = await updateWebhook(params.id, { webhook_url, description, agent_id, events, is_active })
+    if (!webhook) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, webhook })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to update webhook', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/webhooks/:id — remove a webhook; its delivery log is kept
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    if (!(await deleteWebhook(params.id))) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete webhook', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
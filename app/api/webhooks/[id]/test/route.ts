@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { sendTestWebhook } from '@/lib/webhookStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/webhooks/:id/test — send a signed `ping` once (no retries)
+ * Answers 200 either way; `success` reflects whether the receiver accepted it.
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    const delivery = await sendTestWebhook(params.id)
+    if (!delivery) {
+      return NextResponse.json({ success: false, error: 'Webhook not found' }, { status: 404 })
+    }
+    const lastAttempt = delivery.attempts[delivery.attempts.length - 1]
+    return NextResponse.json({
+      success: delivery.status === 'succeeded',
+      delivery,
+      error: delivery.status === 'succeeded' ? undefined : lastAttempt?.error || 'Delivery failed',
+    })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to send test webhook', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
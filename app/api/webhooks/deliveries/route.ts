@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { listDeliveries } from '@/lib/webhookStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/webhooks/deliveries?webhook_id=&limit= — delivery log, newest first
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function GET(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  const { searchParams } = new URL(request.url)
+  const webhookId = searchParams.get('webhook_id') || undefined
+  const limit = Math.min(500, Math.max(1, Number(searchParams.get('limit')) || 100))
+  try {
+    return NextResponse.json({ success: true, deliveries: await listDeliveries({ webhookId, limit }) })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load deliveries', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
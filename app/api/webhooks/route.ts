@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminToken } from '@/lib/apiKeys'
+import { checkWebhookTarget, createWebhook, listWebhooks, webhookInputSchema } from '@/lib/webhookStore'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/webhooks — list registered webhooks (no secrets)
+ * Auth: `Authorization: Bearer <API_ADMIN_TOKEN>`
+ */
+export async function GET(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  try {
+    return NextResponse.json({ success: true, webhooks: await listWebhooks() })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to load webhooks', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/webhooks — register a webhook: { webhook_url, events, description?, agent_id? }
+ * The signing secret is in this response only. Receivers on loopback, private
+ * or link-local addresses are refused.
+ */
+export async function POST(request: NextRequest) {
+  const admin = checkAdminToken(request.headers)
+  if (!admin.success) {
+    return NextResponse.json({ success: false, error: admin.error }, { status: admin.status })
+  }
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: 'Body must be JSON' }, { status: 400 })
+  }
+  const parsed = webhookInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid webhook',
+        details: parsed.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })),
+      },
+      { status: 400 }
+    )
+  }
+  const target = await checkWebhookTarget(parsed.data.webhook_url)
+  if (target.error) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid webhook', details: [{ path: 'webhook_url', message: target.error }] },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { webhook_url, description, agent_id, events } = parsed.data
+    const { webhook, secret } = await createWebhook({ webhook_url, description, agent_id, events })
+    return NextResponse.json({ success: true, webhook, secret }, { status: 201 })
+  } catch (error) {
+    return NextResponse.json(
+      { success: false, error: 'Failed to create webhook', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,29 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowLeft } from 'lucide-react'
+import { IngestionManager } from '@/components/IngestionManager'
+
+export default function IngestPage() {
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans">
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-4 flex items-center gap-3">
+          <Link href="/schedules" className="text-muted-foreground hover:text-foreground" aria-label="Back to schedules">
+            <ArrowLeft className="w-5 h-5" />
+          </Link>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold tracking-[-0.01em] text-foreground">Watch Folders</h1>
+            <p className="text-sm text-muted-foreground mt-0.5 leading-relaxed">
+              Style new images from a shared directory or bucket on a schedule
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+        <IngestionManager />
+      </main>
+    </div>
+  )
+}
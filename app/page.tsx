@@ -1,23 +1,51 @@
 'use client'
 
-import React, { useState, useRef, useCallback } from 'react'
-import { callAIAgent, uploadFiles } from '@/lib/aiAgent'
-import type { AIAgentResponse } from '@/lib/aiAgent'
+import React, { useState, useRef, useCallback, useEffect } from 'react'
+import Link from 'next/link'
+import { transformImage, isCancelledError, getSchemaIssues, proxiedArtifactUrl, TRANSFORM_WORKFLOW, ACCEPTED_FORMATS, FORMAT_LABELS } from '@/lib/styleTransform'
+import type { TransformationDetails } from '@/lib/styleTransform'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import type { NodeRunState } from '@/lib/workflowEngine'
+import { generateVariants, MAX_VARIANTS } from '@/lib/variants'
+import type { Variant, VariantRating } from '@/lib/variants'
+import { useRefinementThread } from '@/lib/refinement'
+import { maskFile } from '@/lib/mask'
+import { useBrandCompliance } from '@/lib/brandCompliance'
+import { useBatchQueue } from '@/lib/batchQueue'
+import { useTransformHistory } from '@/lib/historyStore'
+import type { HistoryEntry } from '@/lib/historyStore'
+import { usePendingJobs, savePendingJob, removePendingJob } from '@/lib/jobStore'
+import { useBrandPresets } from '@/lib/brandPresets'
+import { useAgents, describeAgentModel } from '@/lib/agents'
+import type { AgentSummary } from '@/lib/agents'
+import { preprocessImage, DEFAULT_PREPROCESS_OPTIONS } from '@/lib/imagePreprocess'
+import type { PreprocessOptions, PreprocessResult } from '@/lib/imagePreprocess'
 import { FiUpload, FiDownload, FiX, FiImage, FiRefreshCw, FiCheck, FiAlertCircle, FiLoader } from 'react-icons/fi'
+import { Ban, BarChart3, Brush, CalendarClock, ShieldAlert, Webhook } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 import { Label } from '@/components/ui/label'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Skeleton } from '@/components/ui/skeleton'
-
-const AGENT_ID = '699c802522d60b5dbc439726'
-
-const ACCEPTED_FORMATS = ['image/png', 'image/jpeg', 'image/webp']
-const FORMAT_LABELS = ['PNG', 'JPG', 'WEBP']
+import { BatchQueuePanel } from '@/components/BatchQueuePanel'
+import { HistoryGallery } from '@/components/HistoryGallery'
+import { PendingJobsTray } from '@/components/PendingJobsTray'
+import { BrandPresetPicker } from '@/components/BrandPresetPicker'
+import { ComparisonViewer } from '@/components/ComparisonViewer'
+import { PreprocessControls } from '@/components/PreprocessControls'
+import { ExportDialog } from '@/components/ExportDialog'
+import { WorkflowProgress } from '@/components/WorkflowProgress'
+import { VariantGrid } from '@/components/VariantGrid'
+import { RefinementThread } from '@/components/RefinementThread'
+import { MaskPainter } from '@/components/MaskPainter'
+import { BrandCompliancePanel } from '@/components/BrandCompliancePanel'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 
 // --- Sample Data ---
 const SAMPLE_TRANSFORMATION_DETAILS = {
@@ -27,127 +55,6 @@ const SAMPLE_TRANSFORMATION_DETAILS = {
 }
 const SAMPLE_IMAGE_URL = 'https://images.unsplash.com/photo-1618005182384-a83a8bd57fbe?w=600&h=400&fit=crop'
 
-/**
- * Robust image URL extraction from AI agent response.
- * Checks multiple possible paths where Gemini / DALL-E may return images.
- */
-function extractImageUrl(result: AIAgentResponse): string | null {
-  // Path 1: module_outputs.artifact_files at top level
-  if (result.module_outputs?.artifact_files) {
-    const files = result.module_outputs.artifact_files
-    if (Array.isArray(files) && files.length > 0 && files[0]?.file_url) {
-      return files[0].file_url
-    }
-  }
-
-  // Path 2: module_outputs at top level with other structures
-  if (result.module_outputs) {
-    const mo = result.module_outputs as Record<string, any>
-    // Check for direct url fields
-    if (mo.url) return mo.url
-    if (mo.image_url) return mo.image_url
-    // Check for any nested array with file_url
-    for (const key of Object.keys(mo)) {
-      const val = mo[key]
-      if (Array.isArray(val) && val.length > 0 && val[0]?.file_url) {
-        return val[0].file_url
-      }
-      if (Array.isArray(val) && val.length > 0 && val[0]?.url) {
-        return val[0].url
-      }
-    }
-  }
-
-  // Path 3: response.result may contain image URL (Gemini inline)
-  const agentResult = result.response?.result
-  if (agentResult && typeof agentResult === 'object') {
-    const r = agentResult as Record<string, any>
-    if (r.image_url) return r.image_url
-    if (r.url) return r.url
-    if (r.image) return r.image
-    if (r.output_image) return r.output_image
-    if (r.generated_image) return r.generated_image
-    if (r.file_url) return r.file_url
-    // Check for nested artifact_files inside result
-    if (Array.isArray(r.artifact_files) && r.artifact_files.length > 0) {
-      return r.artifact_files[0]?.file_url || r.artifact_files[0]?.url || null
-    }
-    // Check module_outputs inside result
-    if (r.module_outputs?.artifact_files) {
-      const files = r.module_outputs.artifact_files
-      if (Array.isArray(files) && files.length > 0 && files[0]?.file_url) {
-        return files[0].file_url
-      }
-    }
-  }
-
-  // Path 4: Check response.message for URL patterns
-  const message = result.response?.message
-  if (message && typeof message === 'string') {
-    const urlMatch = message.match(/https?:\/\/[^\s"'<>]+\.(png|jpg|jpeg|webp|gif|svg|bmp)/i)
-    if (urlMatch) return urlMatch[0]
-  }
-
-  // Path 5: raw_response may contain image data
-  if (result.raw_response && typeof result.raw_response === 'string') {
-    try {
-      const raw = JSON.parse(result.raw_response)
-      if (raw?.module_outputs?.artifact_files) {
-        const files = raw.module_outputs.artifact_files
-        if (Array.isArray(files) && files.length > 0 && files[0]?.file_url) {
-          return files[0].file_url
-        }
-      }
-      // Check nested response in raw
-      if (raw?.response?.module_outputs?.artifact_files) {
-        const files = raw.response.module_outputs.artifact_files
-        if (Array.isArray(files) && files.length > 0 && files[0]?.file_url) {
-          return files[0].file_url
-        }
-      }
-    } catch {
-      // Not valid JSON, try URL pattern match
-      const urlMatch = result.raw_response.match(/https?:\/\/[^\s"'<>\\]+\.(png|jpg|jpeg|webp|gif)/i)
-      if (urlMatch) return urlMatch[0]
-    }
-  }
-
-  return null
-}
-
-/**
- * Extract transformation details from response with fallback handling
- */
-function extractTransformationDetails(result: AIAgentResponse): {
-  transformation_description: string
-  style_elements_applied: string
-  color_palette_used: string
-} | null {
-  const agentResult = result.response?.result
-  if (agentResult && typeof agentResult === 'object') {
-    const r = agentResult as Record<string, any>
-    const desc = r.transformation_description || r.description || r.text || r.message || ''
-    const styles = r.style_elements_applied || r.styles || r.elements || ''
-    const colors = r.color_palette_used || r.colors || r.palette || ''
-    if (desc || styles || colors) {
-      return {
-        transformation_description: typeof desc === 'string' ? desc : JSON.stringify(desc),
-        style_elements_applied: typeof styles === 'string' ? styles : JSON.stringify(styles),
-        color_palette_used: typeof colors === 'string' ? colors : JSON.stringify(colors),
-      }
-    }
-  }
-  // Fallback: try to use response.message
-  if (result.response?.message) {
-    return {
-      transformation_description: result.response.message,
-      style_elements_applied: '',
-      color_palette_used: '',
-    }
-  }
-  return null
-}
-
 // --- Markdown Renderer ---
 function formatInline(text: string) {
   const parts = text.split(/\*\*(.*?)\*\*/g)
@@ -229,16 +136,36 @@ function DetailRow({ label, value }: { label: string; value: string }) {
   )
 }
 
+// --- Schema Issues ---
+function SchemaIssueList({ issues }: { issues: SchemaIssue[] }) {
+  if (issues.length === 0) return null
+  return (
+    <ul className="mt-2 space-y-1">
+      {issues.map((issue, i) => (
+        <li key={i} className="text-xs text-muted-foreground">
+          <code className="text-foreground/80">{issue.path || 'response'}</code>
+          {' -- expected '}
+          <span className="text-foreground/80">{issue.expected}</span>
+          {', got '}
+          <span className="text-red-300">{issue.received}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
 // --- Agent Status Card ---
-function AgentStatusCard({ isActive }: { isActive: boolean }) {
+function AgentStatusCard({ isActive, agent, loading }: { isActive: boolean; agent: AgentSummary; loading?: boolean }) {
   return (
     <Card className="bg-card border-border">
       <CardContent className="py-3 px-4 flex items-center justify-between">
         <div className="flex items-center gap-3">
           <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-400 animate-pulse' : 'bg-muted-foreground/40'}`} />
           <div>
-            <p className="text-xs font-semibold text-foreground">Lyzr Style Transformer Agent</p>
-            <p className="text-xs text-muted-foreground">Image generation -- Gemini</p>
+            <p className="text-xs font-semibold text-foreground">{agent.name}</p>
+            <p className="text-xs text-muted-foreground">
+              {loading ? 'Loading model...' : `Image generation -- ${describeAgentModel(agent) || 'unknown model'}`}
+            </p>
           </div>
         </div>
         <Badge variant="outline" className={`text-xs ${isActive ? 'border-green-500/40 text-green-400' : 'border-border text-muted-foreground'}`}>
@@ -251,48 +178,156 @@ function AgentStatusCard({ isActive }: { isActive: boolean }) {
 
 // --- Main Page ---
 export default function Page() {
+  const [sourceFile, setSourceFile] = useState<File | null>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS)
+  const [preprocessResult, setPreprocessResult] = useState<PreprocessResult | null>(null)
+  const [isPreprocessing, setIsPreprocessing] = useState(false)
   const [styleNote, setStyleNote] = useState('')
   const [isTransforming, setIsTransforming] = useState(false)
   const [resultImageUrl, setResultImageUrl] = useState<string | null>(null)
-  const [transformationDetails, setTransformationDetails] = useState<{
-    transformation_description: string
-    style_elements_applied: string
-    color_palette_used: string
-  } | null>(null)
+  const [transformationDetails, setTransformationDetails] = useState<TransformationDetails | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [schemaIssues, setSchemaIssues] = useState<SchemaIssue[]>([])
+  const [nodeStatuses, setNodeStatuses] = useState<Record<string, NodeRunState>>({})
   const [showComparison, setShowComparison] = useState(false)
   const [isDragOver, setIsDragOver] = useState(false)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
   const [useSampleData, setUseSampleData] = useState(false)
+  const [exportOpen, setExportOpen] = useState(false)
+  const [variantCount, setVariantCount] = useState(1)
+  const [variantDirections, setVariantDirections] = useState('')
+  const [variants, setVariants] = useState<Variant[]>([])
+  const [winnerId, setWinnerId] = useState<string | null>(null)
+  const [maskBlob, setMaskBlob] = useState<Blob | null>(null)
+  const [isEditingMask, setIsEditingMask] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  // The run the current variants belong to, and the history entry its winner was saved as
+  const variantRunRef = useRef<{ file: File; mask: Blob | null; presetName: string; historyId: string | null } | null>(null)
+  const history = useTransformHistory()
+  const brandPresets = useBrandPresets()
+  const agentRegistry = useAgents()
+  const thread = useRefinementThread()
+  const clearThread = thread.clear
+  const batch = useBatchQueue({
+    styleNote,
+    preset: brandPresets.activePreset,
+    preprocess: { ...preprocessOptions, rotate: 0 },
+    agentId: agentRegistry.selectedAgentId,
+    onItemComplete: (item, result) => {
+      history.add({
+        fileName: item.file.name,
+        originalFile: item.file,
+        resultImageUrl: result.imageUrl,
+        styleNote: item.styleNote ?? '',
+        presetName: item.preset?.name,
+        details: result.details,
+        agentResponse: result.response,
+      })
+    },
+  })
+
+  // Transforms cut off by a reload finish in the background and land in history. A single
+  // transform also fills the result view; batch items and variants have no slot left to fill.
+  const pendingJobs = usePendingJobs({
+    onComplete: (job, result) => {
+      history.add({
+        fileName: job.file_name,
+        resultImageUrl: result.imageUrl,
+        styleNote: job.style_note,
+        presetName: job.preset_name ?? undefined,
+        details: result.details,
+        agentResponse: result.response,
+      })
+      // A transform started since the reload owns the result view
+      if ((job.kind ?? 'single') !== 'single' || abortRef.current) return
+      setUseSampleData(false)
+      setVariants([])
+      setWinnerId(null)
+      setError(null)
+      setResultImageUrl(result.imageUrl)
+      setTransformationDetails(result.details)
+      setSchemaIssues(result.issues)
+      thread.start({
+        imageUrl: result.imageUrl,
+        details: result.details,
+        issues: result.issues,
+        response: result.response,
+      })
+    },
+  })
 
-  // Handle file selection
+  // Handle file selection — the preprocessing effect below produces the upload file
   const handleFileSelect = useCallback((file: File) => {
     if (!ACCEPTED_FORMATS.includes(file.type)) {
       setError('Please upload a PNG, JPG, or WEBP image.')
       return
     }
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl)
-    }
-    setSelectedFile(file)
-    const url = URL.createObjectURL(file)
-    setPreviewUrl(url)
+    setSourceFile(file)
+    setPreprocessOptions(prev => ({ ...prev, rotate: 0 }))
+    setIsEditingMask(false)
     setError(null)
+    setSchemaIssues([])
+    setNodeStatuses({})
+    setVariants([])
+    setWinnerId(null)
+    clearThread()
     setResultImageUrl(null)
     setTransformationDetails(null)
     setShowComparison(false)
-  }, [previewUrl])
+  }, [clearThread])
+
+  // Re-run preprocessing whenever the source file or the options change
+  useEffect(() => {
+    if (!sourceFile) return
+    let cancelled = false
+    setIsPreprocessing(true)
+    preprocessImage(sourceFile, preprocessOptions)
+      .then(result => ({ file: result.file, result }))
+      .catch(() => {
+        // Undecodable in this browser — fall back to uploading the file as-is
+        return { file: sourceFile, result: null as PreprocessResult | null }
+      })
+      .then(({ file, result }) => {
+        if (cancelled) return
+        setSelectedFile(file)
+        setPreprocessResult(result)
+        // The mask is drawn in the processed image's pixel space
+        setMaskBlob(null)
+        setPreviewUrl(prev => {
+          if (prev) URL.revokeObjectURL(prev)
+          return URL.createObjectURL(file)
+        })
+        setIsPreprocessing(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sourceFile, preprocessOptions])
+
+  // Abort any in-flight transform when the page unmounts
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
 
   // Remove selected file
   const handleRemoveFile = useCallback(() => {
+    abortRef.current?.abort()
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl)
     }
+    setSourceFile(null)
     setSelectedFile(null)
+    setPreprocessResult(null)
+    setIsPreprocessing(false)
     setPreviewUrl(null)
+    setMaskBlob(null)
+    setIsEditingMask(false)
+    setVariants([])
+    setWinnerId(null)
+    clearThread()
     setResultImageUrl(null)
     setTransformationDetails(null)
     setError(null)
@@ -300,7 +335,7 @@ export default function Page() {
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
-  }, [previewUrl])
+  }, [previewUrl, clearThread])
 
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -315,104 +350,300 @@ export default function Page() {
     setIsDragOver(false)
   }, [])
 
+  // Multiple files go to the batch queue, a single file to the main view
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return
+    if (files.length === 1 && batch.items.length === 0) {
+      handleFileSelect(files[0])
+      return
+    }
+    const { accepted, rejected } = batch.enqueue(files)
+    if (rejected.length > 0) {
+      setError(`Skipped ${rejected.length} unsupported file(s). Please upload PNG, JPG, or WEBP images.`)
+    } else if (accepted > 0) {
+      setError(null)
+    }
+  }, [batch, handleFileSelect])
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     e.stopPropagation()
     setIsDragOver(false)
-    const files = e.dataTransfer.files
-    if (files.length > 0) {
-      handleFileSelect(files[0])
-    }
-  }, [handleFileSelect])
+    handleFiles(Array.from(e.dataTransfer.files))
+  }, [handleFiles])
 
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files
     if (files && files.length > 0) {
-      handleFileSelect(files[0])
+      handleFiles(Array.from(files))
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
     }
-  }, [handleFileSelect])
+  }, [handleFiles])
 
   // Transform handler
-  const handleTransform = async () => {
-    if (!selectedFile) return
+  const runTransform = async (file: File, note: string, mask: Blob | null) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
     setIsTransforming(true)
     setError(null)
+    setSchemaIssues([])
+    setNodeStatuses({})
+    setVariants([])
+    setWinnerId(null)
+    thread.clear()
     setResultImageUrl(null)
     setTransformationDetails(null)
-    setStatusMessage('Uploading image...')
+    const preset = brandPresets.activePreset
+    let taskId: string | null = null
 
     try {
-      // Step 1: Upload file
-      const uploadResult = await uploadFiles(selectedFile)
-      if (!uploadResult.success || !Array.isArray(uploadResult.asset_ids) || uploadResult.asset_ids.length === 0) {
-        throw new Error(uploadResult.error || 'Failed to upload image')
-      }
-      const assetId = uploadResult.asset_ids[0]
-
-      setStatusMessage('Transforming with AI...')
-
-      // Step 2: Build message
-      let message = 'Transform this uploaded image into Lyzr brand style using the company color palette (deep purples #7458e8, vibrant blues, electric accents) with clean gradients and modern tech-forward aesthetic.'
-      if (styleNote.trim()) {
-        message += ` Additional style direction: ${styleNote.trim()}`
+      const result = await transformImage(file, {
+        styleNote: note,
+        preset,
+        agentId: agentRegistry.selectedAgentId,
+        mask: mask ? maskFile(mask, file.name) : undefined,
+        signal: controller.signal,
+        // Recorded until the run settles so a reload can resume the task
+        onTaskSubmitted: (task) => {
+          taskId = task.task_id
+          savePendingJob(task, { file_name: file.name, style_note: note.trim(), preset_name: preset.name })
+        },
+        onStage: (stage) =>
+          setStatusMessage(stage === 'uploading' ? 'Uploading image...' : 'Transforming with AI...'),
+        onNodeStatus: (nodeId, state) => {
+          if (abortRef.current === controller) {
+            setNodeStatuses(prev => ({ ...prev, [nodeId]: state }))
+          }
+        },
+      })
+      setResultImageUrl(result.imageUrl)
+      setSchemaIssues(result.issues)
+      if (result.details) {
+        setTransformationDetails(result.details)
       }
+      thread.start({
+        imageUrl: result.imageUrl,
+        details: result.details,
+        issues: result.issues,
+        response: result.response,
+      })
 
-      // Step 3: Call agent
-      const result: AIAgentResponse = await callAIAgent(message, AGENT_ID, { assets: [assetId] })
+      history.add({
+        fileName: file.name,
+        originalFile: file,
+        maskBlob: mask ?? undefined,
+        resultImageUrl: result.imageUrl,
+        styleNote: note.trim(),
+        presetName: preset.name,
+        details: result.details,
+        agentResponse: result.response,
+      })
 
-      if (!result.success) {
-        throw new Error(result.error || result.response?.message || 'Transformation failed')
+      setStatusMessage(null)
+    } catch (err: unknown) {
+      if (isCancelledError(err)) {
+        setStatusMessage(null)
+        return
       }
-
-      // Step 4: Extract generated image using robust extraction
-      const imageUrl = extractImageUrl(result)
-      if (imageUrl) {
-        setResultImageUrl(imageUrl)
-      } else {
-        // Log the full result for debugging
-        console.error('No image found in agent response. Full result:', JSON.stringify(result, null, 2))
-        throw new Error('No image was generated. Please try again.')
+      const errorMessage = err instanceof Error ? err.message : 'Something went wrong. Please try again.'
+      setError(errorMessage)
+      setSchemaIssues(getSchemaIssues(err))
+      setStatusMessage(null)
+    } finally {
+      if (taskId) removePendingJob(taskId)
+      // A newer run (or a cancel) owns the state now
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setIsTransforming(false)
       }
+    }
+  }
 
-      // Step 5: Extract transformation details with fallback handling
-      const details = extractTransformationDetails(result)
-      if (details) {
-        setTransformationDetails(details)
-      }
+  // Fan out to several variants of the same upload; nothing is saved until a winner is picked
+  const runVariants = async (file: File, note: string, mask: Blob | null) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsTransforming(true)
+    setError(null)
+    setSchemaIssues([])
+    setNodeStatuses({})
+    setVariants([])
+    setWinnerId(null)
+    thread.clear()
+    setResultImageUrl(null)
+    setTransformationDetails(null)
+    const preset = brandPresets.activePreset
+    variantRunRef.current = { file, mask, presetName: preset.name, historyId: null }
+    const taskIds: string[] = []
 
+    try {
+      const result = await generateVariants(file, {
+        count: variantCount,
+        directions: variantDirections.split('\n'),
+        styleNote: note,
+        preset,
+        agentId: agentRegistry.selectedAgentId,
+        mask: mask ? maskFile(mask, file.name) : undefined,
+        signal: controller.signal,
+        // Each variant's task is recorded until the run settles; after a reload they resume into history
+        onTaskSubmitted: (task) => {
+          taskIds.push(task.task_id)
+          savePendingJob(task, { file_name: file.name, style_note: note.trim(), preset_name: preset.name, kind: 'variant' })
+        },
+        onStage: (stage) =>
+          setStatusMessage(stage === 'uploading' ? 'Uploading image...' : `Generating ${variantCount} variants...`),
+        onUpdate: (next) => {
+          if (abortRef.current === controller) {
+            setVariants(next)
+          }
+        },
+      })
+      setVariants(result.variants)
       setStatusMessage(null)
     } catch (err: unknown) {
+      if (isCancelledError(err)) {
+        setStatusMessage(null)
+        return
+      }
       const errorMessage = err instanceof Error ? err.message : 'Something went wrong. Please try again.'
       setError(errorMessage)
+      setSchemaIssues(getSchemaIssues(err))
       setStatusMessage(null)
     } finally {
-      setIsTransforming(false)
+      taskIds.forEach(id => removePendingJob(id))
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setIsTransforming(false)
+      }
     }
   }
 
-  // Download handler
-  const handleDownload = async () => {
-    const url = useSampleData ? SAMPLE_IMAGE_URL : resultImageUrl
-    if (!url) return
-    try {
-      const response = await fetch(url)
-      const blob = await response.blob()
-      const blobUrl = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = blobUrl
-      link.download = 'lyzr-styled-image.png'
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(blobUrl)
-    } catch {
-      window.open(url, '_blank')
+  const handleRateVariant = (id: string, rating: VariantRating) => {
+    setVariants(prev => prev.map(v => (v.id === id ? { ...v, rating } : v)))
+  }
+
+  // The winner becomes the canonical result; picking again replaces the saved entry
+  const handlePickWinner = async (variant: Variant) => {
+    const run = variantRunRef.current
+    if (!run || !variant.imageUrl) return
+    setWinnerId(variant.id)
+    setResultImageUrl(variant.imageUrl)
+    setTransformationDetails(variant.details ?? null)
+    setSchemaIssues(variant.issues ?? [])
+    setShowComparison(false)
+    thread.start({
+      imageUrl: variant.imageUrl,
+      details: variant.details ?? null,
+      issues: variant.issues,
+      response: variant.response,
+    })
+
+    const saved = {
+      resultImageUrl: variant.imageUrl,
+      styleNote: variant.direction,
+      details: variant.details ?? null,
+      agentResponse: variant.response ?? null,
+    }
+    if (run.historyId) {
+      history.update(run.historyId, saved)
+      return
+    }
+    const entry = await history.add({
+      fileName: run.file.name,
+      originalFile: run.file,
+      maskBlob: run.mask ?? undefined,
+      presetName: run.presetName,
+      ...saved,
+    })
+    if (entry && variantRunRef.current === run) {
+      run.historyId = entry.id
+    }
+  }
+
+  const handleCancel = () => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setIsTransforming(false)
+    setStatusMessage(null)
+  }
+
+  const handleTransform = () => {
+    if (!selectedFile) return
+    if (variantCount > 1) {
+      runVariants(selectedFile, styleNote, maskBlob)
+    } else {
+      runTransform(selectedFile, styleNote, maskBlob)
+    }
+  }
+
+  // Show a saved result in the main view
+  const handleHistorySelect = (entry: HistoryEntry) => {
+    setUseSampleData(false)
+    if (entry.originalBlob) {
+      if (previewUrl) {
+        URL.revokeObjectURL(previewUrl)
+      }
+      // Stored originals were preprocessed before upload, so don't process them again
+      setSourceFile(null)
+      setPreprocessResult(null)
+      setSelectedFile(new File([entry.originalBlob], entry.fileName, { type: entry.originalBlob.type }))
+      setPreviewUrl(URL.createObjectURL(entry.originalBlob))
+      setMaskBlob(entry.maskBlob ?? null)
+      setIsEditingMask(false)
+    }
+    setStyleNote(entry.styleNote)
+    setVariants([])
+    setWinnerId(null)
+    setResultImageUrl(entry.resultImageUrl)
+    setTransformationDetails(entry.details)
+    setSchemaIssues([])
+    setError(null)
+    thread.start({
+      imageUrl: entry.resultImageUrl,
+      details: entry.details,
+      response: entry.agentResponse,
+    })
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // Re-run a saved entry with the same or an edited style note
+  const handleHistoryRerun = (entry: HistoryEntry, note: string) => {
+    if (!entry.originalBlob) return
+    const file = new File([entry.originalBlob], entry.fileName, { type: entry.originalBlob.type })
+    setUseSampleData(false)
+    if (previewUrl) {
+      URL.revokeObjectURL(previewUrl)
     }
+    setSourceFile(null)
+    setPreprocessResult(null)
+    setSelectedFile(file)
+    setPreviewUrl(URL.createObjectURL(file))
+    setMaskBlob(entry.maskBlob ?? null)
+    setIsEditingMask(false)
+    setStyleNote(note)
+    setShowComparison(false)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+    runTransform(file, note, entry.maskBlob ?? null)
   }
 
+  // The selected version of the refinement thread is the result on screen
+  const activeVersion = thread.activeVersion
+  useEffect(() => {
+    if (!activeVersion) return
+    setResultImageUrl(activeVersion.imageUrl)
+    setTransformationDetails(activeVersion.details)
+    setSchemaIssues(activeVersion.issues)
+  }, [activeVersion])
+
   // Determine what to display
-  const displayImageUrl = useSampleData ? SAMPLE_IMAGE_URL : resultImageUrl
+  const rawImageUrl = useSampleData ? SAMPLE_IMAGE_URL : resultImageUrl
+  const displayImageUrl = rawImageUrl ? proxiedArtifactUrl(rawImageUrl) : null
   const displayDetails = useSampleData ? SAMPLE_TRANSFORMATION_DETAILS : transformationDetails
+  const compliance = useBrandCompliance(isTransforming ? null : rawImageUrl, brandPresets.activePreset.palette)
   const hasResult = displayImageUrl !== null
   const displayPreviewUrl = useSampleData ? 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=400&fit=crop' : previewUrl
   const showComparisonToggle = hasResult && (useSampleData || previewUrl)
@@ -432,6 +663,24 @@ export default function Page() {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              <Button asChild variant="ghost" size="sm" className="text-xs text-muted-foreground">
+                <Link href="/schedules">
+                  <CalendarClock className="w-3.5 h-3.5 mr-1.5" />
+                  Schedules
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm" className="text-xs text-muted-foreground">
+                <Link href="/webhooks">
+                  <Webhook className="w-3.5 h-3.5 mr-1.5" />
+                  Webhooks
+                </Link>
+              </Button>
+              <Button asChild variant="ghost" size="sm" className="text-xs text-muted-foreground">
+                <Link href="/analytics">
+                  <BarChart3 className="w-3.5 h-3.5 mr-1.5" />
+                  Analytics
+                </Link>
+              </Button>
               <Label htmlFor="sample-toggle" className="text-xs text-muted-foreground cursor-pointer">
                 Sample Data
               </Label>
@@ -446,6 +695,13 @@ export default function Page() {
 
         {/* Main Content */}
         <main className="max-w-6xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+          {/* Pending Jobs */}
+          {pendingJobs.jobs.length > 0 && (
+            <div className="mb-6">
+              <PendingJobsTray jobs={pendingJobs.jobs} onDismiss={pendingJobs.dismiss} />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
 
             {/* Left Panel - Upload & Controls */}
@@ -471,10 +727,10 @@ export default function Page() {
                         <FiImage className="w-6 h-6 text-muted-foreground" />
                       </div>
                       <p className="text-sm font-semibold text-foreground mb-1">
-                        Drag and drop your image here
+                        Drag and drop your images here
                       </p>
                       <p className="text-xs text-muted-foreground mb-4">
-                        or click to browse files
+                        or click to browse -- drop several to run a batch
                       </p>
                       <div className="flex gap-2">
                         {FORMAT_LABELS.map((fmt) => (
@@ -486,12 +742,33 @@ export default function Page() {
                     </div>
                   ) : (
                     <div className="relative rounded-xl overflow-hidden border border-border bg-secondary/20">
-                      {/* eslint-disable-next-line @next/next/no-img-element */}
-                      <img
-                        src={useSampleData ? 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=400&fit=crop' : (previewUrl || '')}
-                        alt="Selected image preview"
-                        className="w-full h-56 object-cover"
-                      />
+                      {isEditingMask && previewUrl && !useSampleData ? (
+                        <MaskPainter
+                          key={previewUrl}
+                          imageUrl={previewUrl}
+                          initialMask={maskBlob}
+                          disabled={isTransforming}
+                          onChange={setMaskBlob}
+                        />
+                      ) : (
+                        /* eslint-disable-next-line @next/next/no-img-element */
+                        <img
+                          src={useSampleData ? 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=600&h=400&fit=crop' : (previewUrl || '')}
+                          alt="Selected image preview"
+                          className="w-full h-56 object-cover"
+                        />
+                      )}
+                      {!useSampleData && previewUrl && (
+                        <button
+                          onClick={() => setIsEditingMask(prev => !prev)}
+                          disabled={isPreprocessing}
+                          className={`absolute top-2 left-2 h-8 px-3 rounded-full backdrop-blur-sm border flex items-center gap-1.5 text-xs transition-colors duration-200 ${isEditingMask || maskBlob ? 'bg-[hsl(262,70%,50%)] border-[hsl(262,70%,50%)] text-white' : 'bg-background/80 border-border text-foreground hover:bg-secondary'}`}
+                          aria-pressed={isEditingMask}
+                        >
+                          <Brush className="w-3.5 h-3.5" />
+                          {isEditingMask ? 'Done' : maskBlob ? 'Masked' : 'Mask'}
+                        </button>
+                      )}
                       {!useSampleData && (
                         <button
                           onClick={handleRemoveFile}
@@ -512,15 +789,65 @@ export default function Page() {
                     </div>
                   )}
 
+                  {/* Preprocessing */}
+                  {sourceFile && !useSampleData && (
+                    <PreprocessControls
+                      options={preprocessOptions}
+                      result={preprocessResult}
+                      processing={isPreprocessing}
+                      disabled={isTransforming}
+                      onChange={setPreprocessOptions}
+                    />
+                  )}
+
                   {/* Hidden file input */}
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept=".png,.jpg,.jpeg,.webp"
+                    multiple
                     className="hidden"
                     onChange={handleInputChange}
                   />
 
+                  {/* Agent */}
+                  {agentRegistry.agents.length > 1 && (
+                    <div className="space-y-2">
+                      <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                        Image Agent
+                      </Label>
+                      <Select
+                        value={agentRegistry.selectedAgentId}
+                        onValueChange={agentRegistry.setSelectedAgentId}
+                        disabled={isTransforming}
+                      >
+                        <SelectTrigger className="bg-input border-border rounded-xl">
+                          <SelectValue placeholder="Choose an agent" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {agentRegistry.agents.map(agent => (
+                            <SelectItem key={agent.agent_id} value={agent.agent_id}>
+                              <span className="flex flex-col items-start">
+                                <span>{agent.name}</span>
+                                <span className="text-xs text-muted-foreground">{describeAgentModel(agent)}</span>
+                              </span>
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {/* Brand Preset */}
+                  <BrandPresetPicker
+                    presets={brandPresets.presets}
+                    activePresetId={brandPresets.activePresetId}
+                    disabled={isTransforming}
+                    onSelect={brandPresets.setActivePresetId}
+                    onSave={brandPresets.savePreset}
+                    onDelete={brandPresets.deletePreset}
+                  />
+
                   {/* Style Note */}
                   <div className="space-y-2">
                     <Label htmlFor="style-note" className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
@@ -535,10 +862,45 @@ export default function Page() {
                     />
                   </div>
 
+                  {/* Variants */}
+                  <div className="space-y-2">
+                    <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                      Variants
+                    </Label>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      size="sm"
+                      value={String(variantCount)}
+                      onValueChange={(value) => value && setVariantCount(Number(value))}
+                      disabled={isTransforming}
+                      className="justify-start"
+                    >
+                      {Array.from({ length: MAX_VARIANTS }, (_, i) => (
+                        <ToggleGroupItem key={i} value={String(i + 1)} className="w-9 rounded-lg" aria-label={`${i + 1} variant(s)`}>
+                          {i + 1}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    {variantCount > 1 && (
+                      <>
+                        <Textarea
+                          placeholder={'One style direction per line, e.g.\nMore gradients\nMinimal, lots of whitespace'}
+                          value={variantDirections}
+                          onChange={(e) => setVariantDirections(e.target.value)}
+                          rows={variantCount}
+                          disabled={isTransforming}
+                          className="bg-input border-border text-foreground placeholder:text-muted-foreground/50 rounded-xl text-sm"
+                        />
+                        <p className="text-xs text-muted-foreground/60">Blank lines use the style direction above.</p>
+                      </>
+                    )}
+                  </div>
+
                   {/* Transform Button */}
                   <Button
                     onClick={handleTransform}
-                    disabled={(!selectedFile && !useSampleData) || isTransforming}
+                    disabled={(!selectedFile && !useSampleData) || isTransforming || isPreprocessing}
                     className="w-full bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white font-semibold rounded-xl h-12 text-sm transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed"
                   >
                     {isTransforming ? (
@@ -549,11 +911,25 @@ export default function Page() {
                     ) : (
                       <span className="flex items-center gap-2">
                         <FiRefreshCw className="w-4 h-4" />
-                        Transform to Lyzr Style
+                        {variantCount > 1
+                          ? `Generate ${variantCount} ${brandPresets.activePreset.name} Variants`
+                          : `Transform to ${brandPresets.activePreset.name} Style`}
                       </span>
                     )}
                   </Button>
 
+                  {/* Cancel Button */}
+                  {isTransforming && (
+                    <Button
+                      onClick={handleCancel}
+                      variant="outline"
+                      className="w-full rounded-xl border-border hover:bg-destructive hover:text-destructive-foreground text-foreground h-10 text-sm"
+                    >
+                      <Ban className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+
                   {/* Status Message */}
                   {statusMessage && (
                     <div className="flex items-center gap-2 text-xs text-muted-foreground bg-secondary/50 rounded-lg px-3 py-2">
@@ -562,12 +938,20 @@ export default function Page() {
                     </div>
                   )}
 
+                  {/* Workflow node status */}
+                  {(isTransforming || error) && Object.keys(nodeStatuses).length > 0 && (
+                    <div className="bg-secondary/30 rounded-lg px-3 py-2">
+                      <WorkflowProgress graph={TRANSFORM_WORKFLOW} statuses={nodeStatuses} />
+                    </div>
+                  )}
+
                   {/* Error Message */}
                   {error && (
                     <div className="flex items-start gap-2 text-sm bg-destructive/10 border border-destructive/20 rounded-xl px-4 py-3">
                       <FiAlertCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
                       <div className="flex-1">
                         <p className="text-red-400 text-sm">{error}</p>
+                        <SchemaIssueList issues={schemaIssues} />
                         <button
                           onClick={() => {
                             setError(null)
@@ -584,7 +968,11 @@ export default function Page() {
               </Card>
 
               {/* Agent Status */}
-              <AgentStatusCard isActive={isTransforming} />
+              <AgentStatusCard
+                isActive={isTransforming || thread.isRefining || batch.isRunning}
+                agent={agentRegistry.selectedAgent}
+                loading={agentRegistry.loading}
+              />
             </div>
 
             {/* Right Panel - Result Display */}
@@ -611,8 +999,21 @@ export default function Page() {
                   </div>
                 </CardHeader>
                 <CardContent className="flex-1 flex flex-col">
+                  {/* Variants */}
+                  {variants.length > 0 && (
+                    <div className="mb-4">
+                      <VariantGrid
+                        variants={variants}
+                        winnerId={winnerId}
+                        disabled={isTransforming}
+                        onRate={handleRateVariant}
+                        onPickWinner={handlePickWinner}
+                      />
+                    </div>
+                  )}
+
                   {/* Loading State */}
-                  {isTransforming && (
+                  {isTransforming && variants.length === 0 && (
                     <div className="flex-1 flex flex-col items-center justify-center space-y-4 py-8">
                       <Skeleton className="w-full h-48 rounded-xl" />
                       <Skeleton className="w-3/4 h-4 rounded" />
@@ -624,7 +1025,7 @@ export default function Page() {
                   )}
 
                   {/* Empty State */}
-                  {!isTransforming && !hasResult && (
+                  {!isTransforming && !hasResult && variants.length === 0 && (
                     <div className="flex-1 flex flex-col items-center justify-center text-center py-16">
                       <div className="w-16 h-16 rounded-full bg-secondary flex items-center justify-center mb-4">
                         <FiImage className="w-8 h-8 text-muted-foreground/50" />
@@ -644,26 +1045,10 @@ export default function Page() {
                       <div className="space-y-4">
                         {/* Comparison View */}
                         {showComparison && displayPreviewUrl ? (
-                          <div className="grid grid-cols-2 gap-3">
-                            <div className="space-y-2">
-                              <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider text-center">Original</p>
-                              {/* eslint-disable-next-line @next/next/no-img-element */}
-                              <img
-                                src={displayPreviewUrl}
-                                alt="Original image"
-                                className="w-full rounded-xl border border-border object-cover aspect-square"
-                              />
-                            </div>
-                            <div className="space-y-2">
-                              <p className="text-xs font-semibold text-[hsl(262,70%,60%)] uppercase tracking-wider text-center">Lyzr Styled</p>
-                              {/* eslint-disable-next-line @next/next/no-img-element */}
-                              <img
-                                src={displayImageUrl || ''}
-                                alt="Lyzr styled image"
-                                className="w-full rounded-xl border border-[hsl(262,70%,50%)]/30 object-cover aspect-square"
-                              />
-                            </div>
-                          </div>
+                          <ComparisonViewer
+                            originalUrl={displayPreviewUrl}
+                            resultUrl={displayImageUrl || ''}
+                          />
                         ) : (
                           /* Single Image View */
                           <div className="relative rounded-xl overflow-hidden border border-border">
@@ -673,30 +1058,54 @@ export default function Page() {
                               alt="Lyzr styled result"
                               className="w-full rounded-xl object-cover"
                             />
-                            <div className="absolute top-2 left-2">
+                            <div className="absolute top-2 left-2 flex gap-1">
                               <Badge className="bg-[hsl(262,70%,50%)] text-white border-none text-xs">
                                 <FiCheck className="w-3 h-3 mr-1" />
                                 Lyzr Styled
                               </Badge>
+                              {compliance.report?.flagged && (
+                                <Badge className="bg-red-500/90 text-white border-none text-xs">
+                                  <ShieldAlert className="w-3 h-3 mr-1" />
+                                  Off-brand
+                                </Badge>
+                              )}
                             </div>
                           </div>
                         )}
 
-                        {/* Download Button */}
+                        {/* Export Button */}
                         <Button
-                          onClick={handleDownload}
+                          onClick={() => setExportOpen(true)}
                           variant="outline"
                           className="w-full rounded-xl border-border hover:bg-secondary text-foreground h-10"
                         >
                           <FiDownload className="w-4 h-4 mr-2" />
-                          Download Image
+                          Export Image
                         </Button>
+                        <ExportDialog
+                          open={exportOpen}
+                          onOpenChange={setExportOpen}
+                          imageUrl={displayImageUrl}
+                          palette={brandPresets.activePreset.palette}
+                          baseName={selectedFile ? `${selectedFile.name.replace(/\.[^.]+$/, '')}-lyzr-styled` : undefined}
+                        />
+
+                        {/* Schema mismatches that didn't block the result */}
+                        {!useSampleData && schemaIssues.length > 0 && (
+                          <div className="flex items-start gap-2 rounded-xl border border-yellow-500/20 bg-yellow-500/5 px-4 py-3">
+                            <FiAlertCircle className="w-4 h-4 text-yellow-400 mt-0.5 flex-shrink-0" />
+                            <div className="flex-1">
+                              <p className="text-xs text-yellow-300">The agent response did not fully match its schema</p>
+                              <SchemaIssueList issues={schemaIssues} />
+                            </div>
+                          </div>
+                        )}
 
                         {/* Transformation Details */}
-                        {displayDetails && (
-                          <>
-                            <Separator className="bg-border" />
-                            <div className="space-y-4">
+                        <Separator className="bg-border" />
+                        <div className="space-y-4">
+                          {displayDetails && (
+                            <>
                               <DetailRow
                                 label="Transformation"
                                 value={displayDetails.transformation_description}
@@ -709,23 +1118,71 @@ export default function Page() {
                                 label="Color Palette Used"
                                 value={displayDetails.color_palette_used}
                               />
-                            </div>
-                          </>
-                        )}
+                            </>
+                          )}
+                          <BrandCompliancePanel
+                            report={compliance.report}
+                            analyzing={compliance.analyzing}
+                            error={compliance.error}
+                            presetName={brandPresets.activePreset.name}
+                          />
+                        </div>
                       </div>
                     </ScrollArea>
                   )}
                 </CardContent>
               </Card>
+
+              {/* Refinement Thread */}
+              {!useSampleData && !isTransforming && thread.tree && (
+                <RefinementThread
+                  tree={thread.tree}
+                  isRefining={thread.isRefining}
+                  stage={thread.stage}
+                  error={thread.error}
+                  onSelect={thread.select}
+                  onRefine={(instruction) => thread.refine(instruction, brandPresets.activePreset)}
+                  onCancel={thread.cancel}
+                />
+              )}
             </div>
           </div>
+
+          {/* Batch Queue */}
+          {batch.items.length > 0 && (
+            <div className="mt-6">
+              <BatchQueuePanel
+                items={batch.items}
+                summary={batch.summary}
+                isRunning={batch.isRunning}
+                onStart={batch.start}
+                onRetry={batch.retry}
+                onRetryFailed={batch.retryFailed}
+                onRemove={batch.remove}
+                onClear={batch.clear}
+              />
+            </div>
+          )}
+
+          {/* History */}
+          <div className="mt-6">
+            <HistoryGallery
+              entries={history.entries}
+              loading={history.loading}
+              error={history.error}
+              disabled={isTransforming}
+              onSelect={handleHistorySelect}
+              onRerun={handleHistoryRerun}
+              onDelete={(entry) => history.remove(entry.id)}
+            />
+          </div>
         </main>
 
         {/* Footer */}
         <footer className="border-t border-border mt-8 py-4">
           <div className="max-w-6xl mx-auto px-4 sm:px-6 text-center">
             <p className="text-xs text-muted-foreground/50">
-              Powered by Lyzr AI -- Image generation via Gemini
+              Powered by Lyzr AI -- Image generation via {agentRegistry.selectedAgent.provider || 'Lyzr agents'}
             </p>
           </div>
         </footer>
@@ -0,0 +1,318 @@
+'use client'
+
+import * as React from 'react'
+import Link from 'next/link'
+import { BarChart3, Bot, CalendarClock, CheckCircle2, FolderInput, History, ImageIcon, Loader2, Play, RefreshCw, Trash2, Webhook, XCircle } from 'lucide-react'
+import { useScheduler, cronToHuman } from '@/lib/scheduler'
+import type { Schedule } from '@/lib/scheduler'
+import { useAgents } from '@/lib/agents'
+import { useBrandPresets } from '@/lib/brandPresets'
+import { ScheduleForm } from '@/components/ScheduleForm'
+import type { ScheduleFormValues } from '@/components/ScheduleForm'
+import { ScheduleExecutionLogs } from '@/components/ScheduleExecutionLogs'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from '@/components/ui/sidebar'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+export default function SchedulesPage() {
+  const agentRegistry = useAgents()
+  const brandPresets = useBrandPresets()
+  const scheduler = useScheduler()
+  const { fetchSchedules } = scheduler
+  const [selectedScheduleId, setSelectedScheduleId] = React.useState<string | null>(null)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [notice, setNotice] = React.useState<string | null>(null)
+  const [logsRefreshKey, setLogsRefreshKey] = React.useState(0)
+
+  const agentId = agentRegistry.selectedAgentId
+  const loadSchedules = React.useCallback(() => fetchSchedules({ agentId }), [fetchSchedules, agentId])
+
+  React.useEffect(() => {
+    setSelectedScheduleId(null)
+    loadSchedules()
+  }, [loadSchedules])
+
+  const selectedSchedule = scheduler.schedules.find(s => s.id === selectedScheduleId) ?? null
+
+  const handleCreate = async (values: ScheduleFormValues) => {
+    setNotice(null)
+    const result = await scheduler.create({ agent_id: agentId, ...values })
+    if (result.success) {
+      setNotice('Schedule created')
+      // The upstream list carries computed fields (next_run_time) the create response may lack
+      await loadSchedules()
+    }
+    return result.success
+  }
+
+  const runAction = async (schedule: Schedule, action: 'toggle' | 'trigger' | 'delete') => {
+    if (action === 'delete' && !confirm(`Delete the schedule "${cronToHuman(schedule.cron_expression)}"?`)) return
+    setBusyId(schedule.id)
+    setNotice(null)
+    if (action === 'toggle') {
+      await scheduler.toggleSchedule(schedule)
+      // Pause/resume must be followed by a full refresh to pick up the backend state
+      await loadSchedules()
+    } else if (action === 'trigger') {
+      const result = await scheduler.trigger(schedule.id)
+      if (result.success) {
+        setNotice('Run started; it will appear in the executions shortly')
+        setSelectedScheduleId(schedule.id)
+        setLogsRefreshKey(k => k + 1)
+      }
+    } else {
+      const result = await scheduler.remove(schedule.id)
+      if (result.success && selectedScheduleId === schedule.id) setSelectedScheduleId(null)
+    }
+    setBusyId(null)
+  }
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <p className="px-2 pt-2 text-sm font-semibold text-sidebar-foreground">Lyzr Style Transformer</p>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Agents</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {agentRegistry.agents.map(agent => (
+                  <SidebarMenuItem key={agent.agent_id}>
+                    <SidebarMenuButton
+                      isActive={agent.agent_id === agentId}
+                      onClick={() => agentRegistry.setSelectedAgentId(agent.agent_id)}
+                      tooltip={agent.name}
+                    >
+                      <Bot />
+                      <span>{agent.name}</span>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+              {agentRegistry.error && <p className="px-2 pt-1 text-xs text-muted-foreground">{agentRegistry.error}</p>}
+            </SidebarGroupContent>
+          </SidebarGroup>
+          <SidebarGroup>
+            <SidebarGroupLabel>Pages</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/">
+                      <ImageIcon />
+                      <span>Transformer</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild isActive>
+                    <Link href="/schedules">
+                      <CalendarClock />
+                      <span>Schedules</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/ingest">
+                      <FolderInput />
+                      <span>Watch Folders</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/webhooks">
+                      <Webhook />
+                      <span>Webhooks</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/analytics">
+                      <BarChart3 />
+                      <span>Analytics</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <SidebarInset className="bg-background text-foreground font-sans">
+        <header className="border-b border-border bg-card/50 backdrop-blur-sm sticky top-0 z-10">
+          <div className="px-4 sm:px-6 py-4 flex items-center gap-3">
+            <SidebarTrigger />
+            <div>
+              <h1 className="text-xl sm:text-2xl font-bold tracking-[-0.01em] text-foreground">Schedules</h1>
+              <p className="text-sm text-muted-foreground mt-0.5 leading-relaxed">
+                Recurring runs of {agentRegistry.selectedAgent.name}
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <main className="px-4 sm:px-6 py-6 sm:py-8">
+          <div className="grid grid-cols-1 xl:grid-cols-[380px_1fr] gap-6">
+            <Card className="bg-card border-border shadow-lg h-fit">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4 text-muted-foreground" />
+                  New Schedule
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScheduleForm
+                  agentName={agentRegistry.selectedAgent.name}
+                  preset={brandPresets.activePreset}
+                  submitting={scheduler.loading && busyId === null}
+                  onSubmit={handleCreate}
+                />
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6 min-w-0">
+              <Card className="bg-card border-border shadow-lg">
+                <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                  <CardTitle className="text-base font-semibold text-foreground">
+                    Schedules <span className="text-xs font-normal text-muted-foreground">({scheduler.total})</span>
+                  </CardTitle>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={loadSchedules} disabled={scheduler.loading} aria-label="Refresh schedules">
+                    <RefreshCw className={`w-3.5 h-3.5 ${scheduler.loading ? 'animate-spin' : ''}`} />
+                  </Button>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {scheduler.error && <p className="text-xs text-red-400">{scheduler.error}</p>}
+                  {notice && <p className="text-xs text-green-400">{notice}</p>}
+                  {!scheduler.loading && scheduler.schedules.length === 0 && !scheduler.error && (
+                    <p className="text-xs text-muted-foreground">No schedules for this agent yet.</p>
+                  )}
+                  {scheduler.schedules.length > 0 && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Schedule</TableHead>
+                          <TableHead>Next run</TableHead>
+                          <TableHead>Last run</TableHead>
+                          <TableHead>Active</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {scheduler.schedules.map(schedule => (
+                          <TableRow key={schedule.id} data-state={schedule.id === selectedScheduleId ? 'selected' : undefined}>
+                            <TableCell>
+                              <p className="text-sm text-foreground">{cronToHuman(schedule.cron_expression)}</p>
+                              <p className="text-xs text-muted-foreground">
+                                <span className="font-mono">{schedule.cron_expression}</span> · {schedule.timezone}
+                              </p>
+                              <p className="text-xs text-muted-foreground/70 truncate max-w-[260px]" title={schedule.message}>
+                                {schedule.message}
+                              </p>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {schedule.is_active ? formatTime(schedule.next_run_time) : 'Paused'}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              <span className="flex items-center gap-1.5">
+                                {schedule.last_run_success === true && <CheckCircle2 className="w-3.5 h-3.5 text-green-400" />}
+                                {schedule.last_run_success === false && <XCircle className="w-3.5 h-3.5 text-red-400" />}
+                                {formatTime(schedule.last_run_at)}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={schedule.is_active}
+                                disabled={busyId === schedule.id}
+                                onCheckedChange={() => runAction(schedule, 'toggle')}
+                                aria-label={schedule.is_active ? 'Pause schedule' : 'Resume schedule'}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center justify-end">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={busyId === schedule.id}
+                                  onClick={() => runAction(schedule, 'trigger')}
+                                  aria-label="Run now"
+                                  title="Run now"
+                                >
+                                  {busyId === schedule.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => setSelectedScheduleId(id => (id === schedule.id ? null : schedule.id))}
+                                  aria-label="Show executions"
+                                  title="Executions"
+                                >
+                                  <History className="w-3.5 h-3.5" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  disabled={busyId === schedule.id}
+                                  onClick={() => runAction(schedule, 'delete')}
+                                  aria-label="Delete schedule"
+                                  title="Delete"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </CardContent>
+              </Card>
+
+              {selectedSchedule && (
+                <Card className="bg-card border-border shadow-lg">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+                      <History className="w-4 h-4 text-muted-foreground" />
+                      Executions · {cronToHuman(selectedSchedule.cron_expression)}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ScheduleExecutionLogs scheduleId={selectedSchedule.id} refreshKey={logsRefreshKey} />
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        </main>
+      </SidebarInset>
+    </SidebarProvider>
+  )
+}
@@ -0,0 +1,51 @@
+'use client'
+
+import * as React from 'react'
+import { KeyRound } from 'lucide-react'
+import { getAdminToken, setAdminToken } from '@/lib/adminToken'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface AdminTokenPromptProps {
+  /** Called after a token is saved so the page can reload its data */
+  onSaved: () => void
+}
+
+/** Shown when an admin route answered 401; the token is kept for this tab only */
+export function AdminTokenPrompt({ onSaved }: AdminTokenPromptProps) {
+  const [token, setToken] = React.useState('')
+  const rejected = !!getAdminToken()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setAdminToken(token.trim())
+    setToken('')
+    onSaved()
+  }
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardContent className="pt-6">
+        <form className="flex flex-col sm:flex-row sm:items-center gap-3" onSubmit={handleSubmit}>
+          <p className="flex items-center gap-2 text-sm text-foreground sm:flex-1">
+            <KeyRound className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            {rejected ? 'The admin token was rejected.' : 'Enter the admin token (API_ADMIN_TOKEN) to continue.'}
+          </p>
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="Admin token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="sm:w-64"
+            aria-label="Admin token"
+          />
+          <Button type="submit" disabled={!token.trim()}>
+            Unlock
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
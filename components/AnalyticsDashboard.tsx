@@ -0,0 +1,303 @@
+'use client'
+
+import * as React from 'react'
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { RefreshCw, Loader2, AlertTriangle } from 'lucide-react'
+import { useAnalytics, ANALYTICS_RANGES, RUN_SOURCE_LABELS } from '@/lib/analytics'
+import type { AnalyticsRange, AnalyticsReport, RunSource } from '@/lib/analytics'
+import { useAgents } from '@/lib/agents'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from '@/components/ui/chart'
+
+/** Select value for "no filter" — Radix selects can't hold an empty string */
+const ALL = 'all'
+
+const runsChartConfig = {
+  succeeded: { label: 'Succeeded', color: 'hsl(var(--chart-2))' },
+  failed: { label: 'Failed', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig
+
+const latencyChartConfig = {
+  p50: { label: 'p50 (s)', color: 'hsl(var(--chart-3))' },
+  p95: { label: 'p95 (s)', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig
+
+function formatRate(rate: number | null): string {
+  return rate == null ? '—' : `${(rate * 100).toFixed(rate === 1 ? 0 : 1)}%`
+}
+
+function formatLatency(ms: number | null): string {
+  if (ms == null) return '—'
+  if (ms < 1000) return `${ms} ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`
+  return `${(ms / 60_000).toFixed(1)} min`
+}
+
+function bucketLabel(iso: string, bucket: AnalyticsReport['bucket']): string {
+  const date = new Date(iso)
+  return bucket === 'hour'
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+function Kpi({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardContent className="p-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-2xl font-semibold tabular-nums text-foreground mt-1">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground mt-0.5">{hint}</p>}
+      </CardContent>
+    </Card>
+  )
+}
+
+/** Runs over time, success rates, latency percentiles, retries and top errors per agent */
+export function AnalyticsDashboard() {
+  const { report, loading, error, load } = useAnalytics()
+  const { agents } = useAgents()
+  const [range, setRange] = React.useState<AnalyticsRange>('7d')
+  const [agentId, setAgentId] = React.useState(ALL)
+  const [source, setSource] = React.useState(ALL)
+
+  const refresh = React.useCallback(() => {
+    load({
+      range,
+      agentId: agentId === ALL ? undefined : agentId,
+      source: source === ALL ? undefined : (source as RunSource),
+    })
+  }, [load, range, agentId, source])
+
+  React.useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const agentNames = React.useMemo(() => new Map(agents.map(a => [a.agent_id, a.name])), [agents])
+  // Runs may come from agents that are no longer registered
+  const agentOptions = React.useMemo(() => {
+    const ids = new Set(agents.map(a => a.agent_id).filter(Boolean))
+    report?.by_agent.forEach(a => ids.add(a.agent_id))
+    return Array.from(ids)
+  }, [agents, report])
+
+  const timeline = React.useMemo(
+    () =>
+      (report?.timeline || []).map(b => ({
+        label: bucketLabel(b.start, report!.bucket),
+        succeeded: b.succeeded,
+        failed: b.failed,
+        p50: b.p50_ms == null ? null : Math.round(b.p50_ms / 100) / 10,
+        p95: b.p95_ms == null ? null : Math.round(b.p95_ms / 100) / 10,
+      })),
+    [report]
+  )
+
+  const totals = report?.totals
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Range</Label>
+          <Select value={range} onValueChange={v => setRange(v as AnalyticsRange)}>
+            <SelectTrigger className="w-40 bg-input border-border rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_RANGES.map(r => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Agent</Label>
+          <Select value={agentId} onValueChange={setAgentId}>
+            <SelectTrigger className="w-56 bg-input border-border rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All agents</SelectItem>
+              {agentOptions.map(id => (
+                <SelectItem key={id} value={id}>
+                  {agentNames.get(id) || id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-muted-foreground">Source</Label>
+          <Select value={source} onValueChange={setSource}>
+            <SelectTrigger className="w-40 bg-input border-border rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All sources</SelectItem>
+              {(Object.keys(RUN_SOURCE_LABELS) as RunSource[]).map(s => (
+                <SelectItem key={s} value={s}>
+                  {RUN_SOURCE_LABELS[s]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={refresh} disabled={loading}>
+          {loading ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-1.5" />}
+          Refresh
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {report?.warnings.map(warning => (
+        <p key={warning} className="flex items-center gap-2 text-sm text-yellow-400">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {warning}
+        </p>
+      ))}
+
+      {totals && (
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+          <Kpi
+            label="Runs"
+            value={totals.runs.toLocaleString()}
+            hint={totals.in_progress > 0 ? `${totals.in_progress} in progress` : undefined}
+          />
+          <Kpi
+            label="Success rate"
+            value={formatRate(totals.success_rate)}
+            hint={`${totals.succeeded} ok · ${totals.failed} failed${totals.cancelled ? ` · ${totals.cancelled} cancelled` : ''}`}
+          />
+          <Kpi label="p50 latency" value={formatLatency(totals.p50_ms)} hint="submit to completion" />
+          <Kpi label="p95 latency" value={formatLatency(totals.p95_ms)} hint="submit to completion" />
+          <Kpi label="Retries" value={totals.retries.toLocaleString()} hint="runs after a failed attempt" />
+        </div>
+      )}
+
+      {report && (
+        <div className="grid lg:grid-cols-2 gap-6">
+          <Card className="bg-card border-border shadow-lg">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Runs over time</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={runsChartConfig} className="h-64 w-full">
+                <BarChart data={timeline} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="succeeded" stackId="runs" fill="var(--color-succeeded)" />
+                  <Bar dataKey="failed" stackId="runs" fill="var(--color-failed)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-card border-border shadow-lg">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Latency</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={latencyChartConfig} className="h-64 w-full">
+                <LineChart data={timeline} margin={{ left: -20, right: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                  <YAxis tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent indicator="line" />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line dataKey="p50" type="monotone" stroke="var(--color-p50)" strokeWidth={2} dot={false} connectNulls />
+                  <Line dataKey="p95" type="monotone" stroke="var(--color-p95)" strokeWidth={2} dot={false} connectNulls />
+                </LineChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {report && report.by_source.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {report.by_source.map(s => (
+            <Badge key={s.source} variant="outline" className="text-xs">
+              {RUN_SOURCE_LABELS[s.source]}: {s.runs} runs · {formatRate(s.success_rate)}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <Card className="bg-card border-border shadow-lg">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">By agent</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {report.by_agent.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No runs in this range</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                      <th className="py-2 pr-3 font-medium">Agent</th>
+                      <th className="py-2 pr-3 font-medium text-right">Runs</th>
+                      <th className="py-2 pr-3 font-medium text-right">Success</th>
+                      <th className="py-2 pr-3 font-medium text-right">p50</th>
+                      <th className="py-2 pr-3 font-medium text-right">p95</th>
+                      <th className="py-2 pr-3 font-medium text-right">Retries</th>
+                      <th className="py-2 font-medium">Top errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.by_agent.map(agent => (
+                      <tr key={agent.agent_id} className="border-b border-border last:border-0 align-top">
+                        <td className="py-2 pr-3">
+                          <p className="text-foreground">{agentNames.get(agent.agent_id) || 'Unknown agent'}</p>
+                          <p className="font-mono text-xs text-muted-foreground">{agent.agent_id}</p>
+                        </td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{agent.runs}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{formatRate(agent.success_rate)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{formatLatency(agent.p50_ms)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{formatLatency(agent.p95_ms)}</td>
+                        <td className="py-2 pr-3 text-right tabular-nums">{agent.retries}</td>
+                        <td className="py-2">
+                          {agent.top_errors.length === 0 ? (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          ) : (
+                            <ul className="space-y-1">
+                              {agent.top_errors.map(e => (
+                                <li key={e.message} className="flex gap-2 text-xs">
+                                  <span className="tabular-nums text-red-400 flex-shrink-0">{e.count}×</span>
+                                  <span className="text-muted-foreground break-all" title={`Last seen ${new Date(e.last_seen).toLocaleString()}`}>
+                                    {e.message}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
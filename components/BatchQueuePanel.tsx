@@ -0,0 +1,177 @@
+'use client'
+
+import * as React from 'react'
+import { Layers, Play, RotateCw, Trash2, X, Download, Loader2, AlertCircle, Check } from 'lucide-react'
+import type { BatchItem, BatchItemStatus, BatchSummary } from '@/lib/batchQueue'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+
+interface BatchQueuePanelProps {
+  items: BatchItem[]
+  summary: BatchSummary
+  isRunning: boolean
+  onStart: () => void
+  onRetry: (id: string) => void
+  onRetryFailed: () => void
+  onRemove: (id: string) => void
+  onClear: () => void
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'Pending',
+  queued: 'Queued',
+  uploading: 'Uploading',
+  transforming: 'Transforming',
+  completed: 'Done',
+  failed: 'Failed',
+}
+
+function StatusBadge({ status }: { status: BatchItemStatus }) {
+  const className =
+    status === 'completed'
+      ? 'border-green-500/40 text-green-400'
+      : status === 'failed'
+        ? 'border-red-500/40 text-red-400'
+        : status === 'uploading' || status === 'transforming'
+          ? 'border-[hsl(262,70%,50%)]/40 text-[hsl(262,70%,70%)]'
+          : 'border-border text-muted-foreground'
+  return (
+    <Badge variant="outline" className={`text-xs gap-1 ${className}`}>
+      {(status === 'uploading' || status === 'transforming') && <Loader2 className="w-3 h-3 animate-spin" />}
+      {STATUS_LABELS[status]}
+    </Badge>
+  )
+}
+
+export function BatchQueuePanel({
+  items,
+  summary,
+  isRunning,
+  onStart,
+  onRetry,
+  onRetryFailed,
+  onRemove,
+  onClear,
+}: BatchQueuePanelProps) {
+  const hasPending = items.some(i => i.status === 'pending')
+  const completedItems = items.filter(i => i.status === 'completed' && i.resultImageUrl)
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+            <Layers className="w-4 h-4 text-muted-foreground" />
+            Batch Queue
+            <span className="text-xs font-normal text-muted-foreground">
+              {summary.completed}/{summary.total} done
+              {summary.failed > 0 && ` -- ${summary.failed} failed`}
+            </span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            {summary.failed > 0 && (
+              <Button size="sm" variant="outline" onClick={onRetryFailed} className="rounded-lg h-8 text-xs">
+                <RotateCw className="w-3 h-3 mr-1" />
+                Retry failed
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={onClear} className="rounded-lg h-8 text-xs">
+              <Trash2 className="w-3 h-3 mr-1" />
+              Clear
+            </Button>
+            <Button
+              size="sm"
+              onClick={onStart}
+              disabled={!hasPending}
+              className="rounded-lg h-8 text-xs bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white"
+            >
+              <Play className="w-3 h-3 mr-1" />
+              {isRunning ? 'Add to run' : 'Transform all'}
+            </Button>
+          </div>
+        </div>
+        <Progress value={summary.progress} className="h-1.5 mt-3" />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Queue */}
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 rounded-lg border border-border bg-secondary/20 p-2">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img src={item.previewUrl} alt={item.file.name} className="w-10 h-10 rounded-md object-cover flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs text-foreground truncate">{item.file.name}</p>
+                {item.error ? (
+                  <p className="text-xs text-red-400 truncate flex items-center gap-1">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    {item.error}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground/60">
+                    {(item.file.size / (1024 * 1024)).toFixed(2)} MB
+                    {item.attempts > 1 && ` -- attempt ${item.attempts}`}
+                  </p>
+                )}
+              </div>
+              <StatusBadge status={item.status} />
+              {item.status === 'failed' && (
+                <button
+                  onClick={() => onRetry(item.id)}
+                  className="w-7 h-7 rounded-full flex items-center justify-center text-muted-foreground hover:text-foreground hover:bg-secondary"
+                  aria-label={`Retry ${item.file.name}`}
+                >
+                  <RotateCw className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {(item.status === 'pending' || item.status === 'failed' || item.status === 'completed') && (
+                <button
+                  onClick={() => onRemove(item.id)}
+                  className="w-7 h-7 rounded-full flex items-center justify-center text-muted-foreground hover:text-destructive-foreground hover:bg-destructive"
+                  aria-label={`Remove ${item.file.name}`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Combined Result Grid */}
+        {completedItems.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Results</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+              {completedItems.map(item => (
+                <div key={item.id} className="group relative rounded-xl overflow-hidden border border-[hsl(262,70%,50%)]/30">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={proxiedArtifactUrl(item.resultImageUrl)} alt={`Lyzr styled ${item.file.name}`} className="w-full aspect-square object-cover" />
+                  <div className="absolute top-2 left-2">
+                    <Badge className="bg-[hsl(262,70%,50%)] text-white border-none text-xs">
+                      <Check className="w-3 h-3 mr-1" />
+                      Styled
+                    </Badge>
+                  </div>
+                  <div className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-2 bg-background/80 backdrop-blur-sm px-2 py-1.5">
+                    <p className="text-xs text-foreground truncate">{item.file.name}</p>
+                    <a
+                      href={proxiedArtifactUrl(item.resultImageUrl)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-muted-foreground hover:text-foreground"
+                      aria-label={`Open result for ${item.file.name}`}
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </a>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
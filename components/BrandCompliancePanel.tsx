@@ -0,0 +1,73 @@
+'use client'
+
+import * as React from 'react'
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react'
+import { COMPLIANCE_THRESHOLD } from '@/lib/brandCompliance'
+import type { ComplianceReport } from '@/lib/brandCompliance'
+
+interface BrandCompliancePanelProps {
+  report: ComplianceReport | null
+  analyzing: boolean
+  error: string | null
+  presetName: string
+}
+
+function scoreColor(score: number): string {
+  if (score >= 85) return 'text-green-400'
+  if (score >= COMPLIANCE_THRESHOLD) return 'text-yellow-400'
+  return 'text-red-400'
+}
+
+/** Measured palette compliance of the result, shown alongside the agent's own claims */
+export function BrandCompliancePanel({ report, analyzing, error, presetName }: BrandCompliancePanelProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Brand Compliance</p>
+        {report && (
+          <span className={`text-sm font-semibold tabular-nums ${scoreColor(report.score)}`}>{report.score}/100</span>
+        )}
+      </div>
+
+      {analyzing && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Measuring colors...
+        </p>
+      )}
+      {error && <p className="text-xs text-muted-foreground">Could not analyze colors: {error}</p>}
+
+      {report && (
+        <>
+          {report.flagged ? (
+            <div className="flex items-start gap-2 rounded-lg border border-red-500/20 bg-red-500/5 px-3 py-2 text-xs text-red-300">
+              <ShieldAlert className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>Flagged: the dominant colors drift from the {presetName} palette (below {COMPLIANCE_THRESHOLD}).</span>
+            </div>
+          ) : (
+            <p className="flex items-center gap-2 text-xs text-green-400">
+              <ShieldCheck className="w-3.5 h-3.5" />
+              Dominant colors match the {presetName} palette
+            </p>
+          )}
+
+          <ul className="space-y-1">
+            {report.colors.map(color => (
+              <li key={color.hex} className="flex items-center gap-2 text-xs">
+                <span className="w-4 h-4 rounded border border-border flex-shrink-0" style={{ backgroundColor: color.hex }} title={color.hex} />
+                <span className="font-mono text-muted-foreground w-16">{color.hex}</span>
+                <span className="tabular-nums text-muted-foreground w-10 text-right">{Math.round(color.share * 100)}%</span>
+                <span className="text-muted-foreground/60">→</span>
+                <span className="w-4 h-4 rounded border border-border flex-shrink-0" style={{ backgroundColor: color.nearestPaletteHex }} title={color.nearestPaletteHex} />
+                <span className="font-mono text-muted-foreground/80">{color.nearestPaletteHex}</span>
+                <span className={`ml-auto tabular-nums ${color.deltaE <= 10 ? 'text-green-400' : color.deltaE <= 20 ? 'text-yellow-400' : 'text-red-400'}`}>
+                  ΔE {color.deltaE.toFixed(1)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  )
+}
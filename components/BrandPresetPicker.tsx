@@ -0,0 +1,248 @@
+'use client'
+
+import * as React from 'react'
+import { Palette, Pencil, Plus, Trash2 } from 'lucide-react'
+import {
+  createEmptyPreset,
+  isValidHex,
+  normalizeHex,
+  type BrandPreset,
+} from '@/lib/brandPresets'
+import { createThumbnail } from '@/lib/historyStore'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface BrandPresetPickerProps {
+  presets: BrandPreset[]
+  activePresetId: string
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onSave: (preset: BrandPreset) => void
+  onDelete: (id: string) => void
+}
+
+export function PaletteSwatches({ palette, className }: { palette: string[]; className?: string }) {
+  return (
+    <div className={`flex flex-wrap gap-1 ${className ?? ''}`}>
+      {palette.map(hex => (
+        <span
+          key={hex}
+          title={hex}
+          className="w-4 h-4 rounded-full border border-border"
+          style={{ backgroundColor: hex }}
+        />
+      ))}
+    </div>
+  )
+}
+
+// --- Editor form state (text fields, parsed on save) ---
+interface PresetDraft {
+  id: string
+  name: string
+  palette: string
+  typography: string
+  dos: string
+  donts: string
+  exampleImageUrl: string
+  builtIn?: boolean
+}
+
+function toDraft(preset: BrandPreset): PresetDraft {
+  return {
+    id: preset.id,
+    name: preset.name,
+    palette: preset.palette.join(', '),
+    typography: preset.typography,
+    dos: preset.dos.join('\n'),
+    donts: preset.donts.join('\n'),
+    exampleImageUrl: preset.exampleImageUrl,
+    builtIn: preset.builtIn,
+  }
+}
+
+function splitLines(value: string): string[] {
+  return value.split('\n').map(l => l.trim()).filter(Boolean)
+}
+
+function parseDraft(draft: PresetDraft): { preset?: BrandPreset; error?: string } {
+  if (!draft.name.trim()) return { error: 'Name is required' }
+  const colors = draft.palette.split(/[\s,]+/).filter(Boolean)
+  const invalid = colors.filter(c => !isValidHex(c))
+  if (invalid.length > 0) return { error: `Invalid hex code: ${invalid.join(', ')}` }
+  if (colors.length === 0) return { error: 'Add at least one palette color' }
+  return {
+    preset: {
+      id: draft.id,
+      name: draft.name.trim(),
+      palette: Array.from(new Set(colors.map(normalizeHex))),
+      typography: draft.typography.trim(),
+      dos: splitLines(draft.dos),
+      donts: splitLines(draft.donts),
+      exampleImageUrl: draft.exampleImageUrl.trim(),
+      builtIn: draft.builtIn,
+    },
+  }
+}
+
+export function BrandPresetPicker({
+  presets,
+  activePresetId,
+  disabled,
+  onSelect,
+  onSave,
+  onDelete,
+}: BrandPresetPickerProps) {
+  const [draft, setDraft] = React.useState<PresetDraft | null>(null)
+  const [formError, setFormError] = React.useState<string | null>(null)
+  const exampleInputRef = React.useRef<HTMLInputElement>(null)
+
+  const activePreset = presets.find(p => p.id === activePresetId) ?? presets[0]
+  const draftColors = draft ? draft.palette.split(/[\s,]+/).filter(isValidHex).map(normalizeHex) : []
+
+  const openEditor = (preset: BrandPreset) => {
+    setDraft(toDraft(preset))
+    setFormError(null)
+  }
+
+  const handleSave = () => {
+    if (!draft) return
+    const { preset, error } = parseDraft(draft)
+    if (!preset) {
+      setFormError(error ?? 'Invalid preset')
+      return
+    }
+    onSave(preset)
+    onSelect(preset.id)
+    setDraft(null)
+  }
+
+  const handleDelete = () => {
+    if (!draft) return
+    if (!confirm(`Delete the "${draft.name}" preset?`)) return
+    onDelete(draft.id)
+    setDraft(null)
+  }
+
+  const handleExampleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file || !draft) return
+    try {
+      const dataUrl = await createThumbnail(file, 512)
+      setDraft({ ...draft, exampleImageUrl: dataUrl })
+    } catch {
+      setFormError('Could not read the example image')
+    }
+    e.target.value = ''
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider flex items-center gap-1.5">
+        <Palette className="w-3.5 h-3.5" />
+        Brand Preset
+      </Label>
+      <div className="flex gap-2">
+        <Select value={activePreset.id} onValueChange={onSelect} disabled={disabled}>
+          <SelectTrigger className="bg-input border-border rounded-xl">
+            <SelectValue placeholder="Choose a preset" />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                <span className="flex items-center gap-2">
+                  <PaletteSwatches palette={preset.palette.slice(0, 4)} />
+                  {preset.name}
+                </span>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" className="rounded-xl flex-shrink-0" disabled={disabled} onClick={() => openEditor(activePreset)} aria-label="Edit preset">
+          <Pencil className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="rounded-xl flex-shrink-0" disabled={disabled} onClick={() => openEditor(createEmptyPreset())} aria-label="New preset">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+      <PaletteSwatches palette={activePreset.palette} />
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{presets.some(p => p.id === draft?.id) ? 'Edit preset' : 'New preset'}</DialogTitle>
+            <DialogDescription>
+              The prompt sent to the agent is generated from these fields.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="preset-name" className="text-xs">Name</Label>
+                <Input id="preset-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-palette" className="text-xs">Palette (hex codes, comma separated)</Label>
+                <Input id="preset-palette" value={draft.palette} placeholder="#7458E8, #3B82F6" onChange={(e) => setDraft({ ...draft, palette: e.target.value })} />
+                <PaletteSwatches palette={draftColors} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-typography" className="text-xs">Typography notes</Label>
+                <Input id="preset-typography" value={draft.typography} onChange={(e) => setDraft({ ...draft, typography: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="preset-dos" className="text-xs">Do (one per line)</Label>
+                  <Textarea id="preset-dos" rows={4} value={draft.dos} onChange={(e) => setDraft({ ...draft, dos: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="preset-donts" className="text-xs">Don&apos;t (one per line)</Label>
+                  <Textarea id="preset-donts" rows={4} value={draft.donts} onChange={(e) => setDraft({ ...draft, donts: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="preset-example" className="text-xs">Example image (URL or upload)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="preset-example"
+                    value={draft.exampleImageUrl.startsWith('data:') ? '(uploaded image)' : draft.exampleImageUrl}
+                    placeholder="https://..."
+                    onChange={(e) => setDraft({ ...draft, exampleImageUrl: e.target.value })}
+                  />
+                  <Button variant="outline" onClick={() => exampleInputRef.current?.click()}>Upload</Button>
+                  <input ref={exampleInputRef} type="file" accept=".png,.jpg,.jpeg,.webp" className="hidden" onChange={handleExampleUpload} />
+                </div>
+                {draft.exampleImageUrl && (
+                  /* eslint-disable-next-line @next/next/no-img-element */
+                  <img src={draft.exampleImageUrl} alt="Brand example" className="mt-2 h-24 rounded-lg border border-border object-cover" />
+                )}
+              </div>
+              {formError && <p className="text-xs text-red-400">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter className="gap-2">
+            {draft && presets.some(p => p.id === draft.id) && presets.length > 1 && (
+              <Button variant="ghost" onClick={handleDelete} className="mr-auto text-muted-foreground hover:text-red-400">
+                <Trash2 className="w-4 h-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} className="bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white">Save preset</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
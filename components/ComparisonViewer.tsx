@@ -0,0 +1,224 @@
+'use client'
+
+import * as React from 'react'
+import { ZoomIn, ZoomOut, Maximize2, Columns2, Layers, Diff } from 'lucide-react'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { Slider } from '@/components/ui/slider'
+import { Button } from '@/components/ui/button'
+
+type CompareMode = 'split' | 'onion' | 'difference'
+
+interface ComparisonViewerProps {
+  originalUrl: string
+  resultUrl: string
+  originalLabel?: string
+  resultLabel?: string
+}
+
+const MIN_ZOOM = 1
+const MAX_ZOOM = 8
+const ZOOM_STEP = 1.25
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Before/after viewer with a draggable split, onion-skin and difference modes.
+ * Both images share one zoom/pan transform so they always stay aligned.
+ */
+export function ComparisonViewer({
+  originalUrl,
+  resultUrl,
+  originalLabel = 'Original',
+  resultLabel = 'Lyzr Styled',
+}: ComparisonViewerProps) {
+  const [mode, setMode] = React.useState<CompareMode>('split')
+  const [split, setSplit] = React.useState(50)
+  const [opacity, setOpacity] = React.useState(50)
+  const [zoom, setZoom] = React.useState(1)
+  const [offset, setOffset] = React.useState({ x: 0, y: 0 })
+  const containerRef = React.useRef<HTMLDivElement>(null)
+  const zoomRef = React.useRef(1)
+  const offsetRef = React.useRef({ x: 0, y: 0 })
+  const dragRef = React.useRef<{ kind: 'split' | 'pan'; startX: number; startY: number; origin: { x: number; y: number } } | null>(null)
+
+  // Keep the image edges inside the viewport when panning or zooming out
+  const clampOffset = React.useCallback((next: { x: number; y: number }, scale: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return next
+    const maxX = (rect.width * (scale - 1)) / 2
+    const maxY = (rect.height * (scale - 1)) / 2
+    return { x: clamp(next.x, -maxX, maxX), y: clamp(next.y, -maxY, maxY) }
+  }, [])
+
+  // Refs mirror the view so wheel/pointer handlers always see the latest values
+  const applyView = React.useCallback((nextZoom: number, nextOffset: { x: number; y: number }) => {
+    zoomRef.current = nextZoom
+    offsetRef.current = nextOffset
+    setZoom(nextZoom)
+    setOffset(nextOffset)
+  }, [])
+
+  /** Zoom keeping the point under (clientX, clientY) fixed — defaults to the center */
+  const zoomTo = React.useCallback((nextZoom: number, clientX?: number, clientY?: number) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    const scale = clamp(nextZoom, MIN_ZOOM, MAX_ZOOM)
+    const prev = offsetRef.current
+    const ratio = scale / zoomRef.current
+    if (!rect || clientX === undefined || clientY === undefined) {
+      applyView(scale, clampOffset({ x: prev.x * ratio, y: prev.y * ratio }, scale))
+      return
+    }
+    const px = clientX - rect.left - rect.width / 2
+    const py = clientY - rect.top - rect.height / 2
+    applyView(scale, clampOffset({ x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio }, scale))
+  }, [applyView, clampOffset])
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll
+  React.useEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      const factor = e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP
+      zoomTo(zoomRef.current * factor, e.clientX, e.clientY)
+    }
+    el.addEventListener('wheel', onWheel, { passive: false })
+    return () => el.removeEventListener('wheel', onWheel)
+  }, [zoomTo])
+
+  const handlePointerDown = (kind: 'split' | 'pan') => (e: React.PointerEvent) => {
+    if (kind === 'pan' && zoom <= 1) return
+    e.stopPropagation()
+    ;(e.currentTarget as HTMLElement).setPointerCapture(e.pointerId)
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, origin: offset }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    if (drag.kind === 'split') {
+      const rect = containerRef.current?.getBoundingClientRect()
+      if (!rect) return
+      setSplit(clamp(((e.clientX - rect.left) / rect.width) * 100, 0, 100))
+    } else {
+      applyView(zoomRef.current, clampOffset({
+        x: drag.origin.x + e.clientX - drag.startX,
+        y: drag.origin.y + e.clientY - drag.startY,
+      }, zoomRef.current))
+    }
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  const resetView = () => applyView(1, { x: 0, y: 0 })
+
+  const imageStyle: React.CSSProperties = {
+    transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+    transformOrigin: 'center',
+  }
+
+  const resultLayerStyle: React.CSSProperties =
+    mode === 'split'
+      ? { clipPath: `inset(0 0 0 ${split}%)` }
+      : mode === 'onion'
+        ? { opacity: opacity / 100 }
+        : { mixBlendMode: 'difference' }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2">
+        <ToggleGroup type="single" value={mode} onValueChange={(v) => v && setMode(v as CompareMode)} size="sm">
+          <ToggleGroupItem value="split" aria-label="Split view" className="text-xs gap-1">
+            <Columns2 className="w-3.5 h-3.5" /> Split
+          </ToggleGroupItem>
+          <ToggleGroupItem value="onion" aria-label="Onion skin" className="text-xs gap-1">
+            <Layers className="w-3.5 h-3.5" /> Onion
+          </ToggleGroupItem>
+          <ToggleGroupItem value="difference" aria-label="Difference blend" className="text-xs gap-1">
+            <Diff className="w-3.5 h-3.5" /> Difference
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => zoomTo(zoom / ZOOM_STEP)} disabled={zoom <= MIN_ZOOM} aria-label="Zoom out">
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <span className="text-xs text-muted-foreground w-10 text-center tabular-nums">{Math.round(zoom * 100)}%</span>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => zoomTo(zoom * ZOOM_STEP)} disabled={zoom >= MAX_ZOOM} aria-label="Zoom in">
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={resetView} aria-label="Reset view">
+            <Maximize2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Viewport */}
+      <div
+        ref={containerRef}
+        onPointerDown={handlePointerDown('pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className={`relative w-full h-[420px] overflow-hidden rounded-xl border border-border bg-[repeating-conic-gradient(hsl(var(--secondary))_0%_25%,transparent_0%_50%)] bg-[length:16px_16px] select-none touch-none isolate ${zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      >
+        <div className="absolute inset-0">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={originalUrl} alt={originalLabel} draggable={false} className="w-full h-full object-contain" style={imageStyle} />
+        </div>
+        <div className="absolute inset-0" style={resultLayerStyle}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={resultUrl} alt={resultLabel} draggable={false} className="w-full h-full object-contain" style={imageStyle} />
+        </div>
+
+        {mode === 'split' && (
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-white/80 cursor-ew-resize"
+            style={{ left: `${split}%` }}
+          >
+            <div
+              onPointerDown={handlePointerDown('split')}
+              className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-background/90 border border-border shadow flex items-center justify-center cursor-ew-resize"
+              role="slider"
+              aria-label="Comparison split"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split)}
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === 'ArrowLeft') setSplit(s => clamp(s - 2, 0, 100))
+                if (e.key === 'ArrowRight') setSplit(s => clamp(s + 2, 0, 100))
+              }}
+            >
+              <Columns2 className="w-4 h-4 text-foreground" />
+            </div>
+          </div>
+        )}
+
+        <span className="absolute top-2 left-2 text-xs font-semibold uppercase tracking-wider bg-background/80 backdrop-blur-sm rounded px-2 py-0.5 text-muted-foreground pointer-events-none">
+          {originalLabel}
+        </span>
+        <span className="absolute top-2 right-2 text-xs font-semibold uppercase tracking-wider bg-background/80 backdrop-blur-sm rounded px-2 py-0.5 text-[hsl(262,70%,60%)] pointer-events-none">
+          {mode === 'difference' ? 'Difference' : resultLabel}
+        </span>
+      </div>
+
+      {mode === 'onion' && (
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground w-16">{originalLabel}</span>
+          <Slider value={[opacity]} min={0} max={100} step={1} onValueChange={([v]) => setOpacity(v)} aria-label="Result opacity" />
+          <span className="text-xs text-muted-foreground w-16 text-right">{resultLabel}</span>
+        </div>
+      )}
+      {mode === 'difference' && (
+        <p className="text-xs text-muted-foreground">
+          Black areas are unchanged; brighter areas show where the restyle altered the image.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import * as React from 'react'
+import { parseCron, describeCron, nextCronRuns } from '@/lib/cron'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+type CronMode = 'minutes' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'custom'
+
+interface CronBuilderProps {
+  value: string
+  onChange: (cron: string) => void
+  /** IANA timezone the upcoming runs are previewed in */
+  timezone: string
+  disabled?: boolean
+}
+
+const MODES: { id: CronMode; label: string }[] = [
+  { id: 'minutes', label: 'Minutes' },
+  { id: 'hourly', label: 'Hourly' },
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekly', label: 'Weekly' },
+  { id: 'monthly', label: 'Monthly' },
+  { id: 'custom', label: 'Custom' },
+]
+
+const MINUTE_INTERVALS = [5, 10, 15, 20, 30]
+const PREVIEW_RUNS = 5
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/** "09:30" → [9, 30]; falls back to midnight for partial input */
+function parseTime(time: string): [number, number] {
+  const [hour, minute] = time.split(':').map(n => parseInt(n, 10))
+  return [Number.isFinite(hour) ? hour : 0, Number.isFinite(minute) ? minute : 0]
+}
+
+/** Point-and-click builder for common 5-field cron shapes, with a raw expression escape hatch */
+export function CronBuilder({ value, onChange, timezone, disabled }: CronBuilderProps) {
+  const [mode, setMode] = React.useState<CronMode>('daily')
+  const [minuteInterval, setMinuteInterval] = React.useState(15)
+  const [minuteOfHour, setMinuteOfHour] = React.useState(0)
+  const [time, setTime] = React.useState('09:00')
+  const [weekdays, setWeekdays] = React.useState<string[]>(['1', '2', '3', '4', '5'])
+  const [dayOfMonth, setDayOfMonth] = React.useState(1)
+  const [custom, setCustom] = React.useState(value)
+
+  const built = React.useMemo(() => {
+    const [hour, minute] = parseTime(time)
+    switch (mode) {
+      case 'minutes':
+        return `*/${minuteInterval} * * * *`
+      case 'hourly':
+        return `${minuteOfHour} * * * *`
+      case 'daily':
+        return `${minute} ${hour} * * *`
+      case 'weekly':
+        return `${minute} ${hour} * * ${weekdays.length > 0 ? [...weekdays].sort().join(',') : '*'}`
+      case 'monthly':
+        return `${minute} ${hour} ${dayOfMonth} * *`
+      case 'custom':
+        return custom.trim().replace(/\s+/g, ' ')
+    }
+  }, [mode, minuteInterval, minuteOfHour, time, weekdays, dayOfMonth, custom])
+
+  React.useEffect(() => {
+    if (built !== value) onChange(built)
+  }, [built, value, onChange])
+
+  const parsed = React.useMemo(() => parseCron(built), [built])
+  const upcoming = React.useMemo(
+    () => (parsed.cron ? nextCronRuns(parsed.cron, { count: PREVIEW_RUNS, timezone }) : []),
+    [parsed, timezone]
+  )
+  const runFormat = React.useMemo(
+    () => new Intl.DateTimeFormat(undefined, { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' }),
+    [timezone]
+  )
+
+  const handleModeChange = (next: string) => {
+    if (!next) return
+    // Start a custom expression from whatever the builder produced so far
+    if (next === 'custom') setCustom(built)
+    setMode(next as CronMode)
+  }
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="single"
+        variant="outline"
+        size="sm"
+        value={mode}
+        onValueChange={handleModeChange}
+        disabled={disabled}
+        className="flex-wrap justify-start"
+      >
+        {MODES.map(({ id, label }) => (
+          <ToggleGroupItem key={id} value={id} className="rounded-lg text-xs">
+            {label}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {mode === 'minutes' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Every</span>
+          <Select value={String(minuteInterval)} onValueChange={(v) => setMinuteInterval(Number(v))} disabled={disabled}>
+            <SelectTrigger className="w-20 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MINUTE_INTERVALS.map(n => (
+                <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">minutes</span>
+        </div>
+      )}
+
+      {mode === 'hourly' && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">At minute</span>
+          <Input
+            type="number"
+            min={0}
+            max={59}
+            value={minuteOfHour}
+            onChange={(e) => setMinuteOfHour(Math.min(59, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+            disabled={disabled}
+            className="w-20 h-8"
+          />
+          <span className="text-muted-foreground">of every hour</span>
+        </div>
+      )}
+
+      {(mode === 'daily' || mode === 'weekly' || mode === 'monthly') && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {mode === 'monthly' && (
+            <>
+              <span className="text-muted-foreground">On day</span>
+              <Input
+                type="number"
+                min={1}
+                max={31}
+                value={dayOfMonth}
+                onChange={(e) => setDayOfMonth(Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                disabled={disabled}
+                className="w-20 h-8"
+              />
+            </>
+          )}
+          <span className="text-muted-foreground">at</span>
+          <Input type="time" value={time} onChange={(e) => setTime(e.target.value)} disabled={disabled} className="w-28 h-8" />
+        </div>
+      )}
+
+      {mode === 'weekly' && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          value={weekdays}
+          onValueChange={setWeekdays}
+          disabled={disabled}
+          className="justify-start"
+        >
+          {WEEKDAYS.map((day, index) => (
+            <ToggleGroupItem key={day} value={String(index)} className="rounded-lg text-xs w-10">
+              {day}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {mode === 'custom' && (
+        <div className="space-y-1.5">
+          <Label htmlFor="cron-custom" className="text-xs text-muted-foreground">
+            minute hour day-of-month month day-of-week
+          </Label>
+          <Input
+            id="cron-custom"
+            value={custom}
+            onChange={(e) => setCustom(e.target.value)}
+            disabled={disabled}
+            placeholder="0 9 * * 1-5"
+            className="font-mono"
+          />
+        </div>
+      )}
+
+      {parsed.error ? (
+        <div className="space-y-1 text-xs">
+          {/* Underline the part of the expression the error points at */}
+          <p className="font-mono text-foreground whitespace-pre">
+            {built.slice(0, parsed.error.position)}
+            <span className="text-red-400 underline decoration-wavy">
+              {built.slice(parsed.error.position, parsed.error.position + Math.max(1, parsed.error.length)) || ' '}
+            </span>
+            {built.slice(parsed.error.position + Math.max(1, parsed.error.length))}
+          </p>
+          <p className="text-red-400">{parsed.error.message}</p>
+        </div>
+      ) : (
+        parsed.cron && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>
+              <span className="font-mono text-foreground">{parsed.cron.expression}</span> · {describeCron(parsed.cron)}
+            </p>
+            {upcoming.length > 0 ? (
+              <ul className="space-y-0.5">
+                {upcoming.map(run => (
+                  <li key={run.getTime()} className="tabular-nums">{runFormat.format(run)}</li>
+                ))}
+              </ul>
+            ) : (
+              <p>Never runs (no matching date in the next five years)</p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  )
+}
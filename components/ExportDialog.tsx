@@ -0,0 +1,238 @@
+'use client'
+
+import * as React from 'react'
+import { Download, FileArchive, Loader2 } from 'lucide-react'
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  ORIGINAL_SIZE,
+  SOCIAL_SIZES,
+  exportFileName,
+  exportZip,
+  fetchImageBlob,
+  renderExport,
+  saveBlob,
+  supportsEncoding,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportSize,
+  type FitMode,
+} from '@/lib/imageExport'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface ExportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  imageUrl: string | null
+  palette: string[]
+  baseName?: string
+}
+
+const ALL_SIZES: ExportSize[] = [ORIGINAL_SIZE, ...SOCIAL_SIZES]
+
+export function ExportDialog({ open, onOpenChange, imageUrl, palette, baseName = 'lyzr-styled-image' }: ExportDialogProps) {
+  const [options, setOptions] = React.useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const [selected, setSelected] = React.useState<string[]>([ORIGINAL_SIZE.id])
+  const [bitmap, setBitmap] = React.useState<ImageBitmap | null>(null)
+  const [loading, setLoading] = React.useState(false)
+  const [exporting, setExporting] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [unsupported, setUnsupported] = React.useState<ExportFormat[]>([])
+
+  // Decode the result once per open; every size is rendered from the same bitmap
+  React.useEffect(() => {
+    if (!open || !imageUrl) return
+    let cancelled = false
+    let decoded: ImageBitmap | null = null
+    setLoading(true)
+    setError(null)
+    fetchImageBlob(imageUrl)
+      .then(blob => createImageBitmap(blob))
+      .then(result => {
+        decoded = result
+        if (cancelled) {
+          result.close()
+          return
+        }
+        setBitmap(result)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not load the image')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => {
+      cancelled = true
+      decoded?.close()
+      setBitmap(null)
+    }
+  }, [open, imageUrl])
+
+  React.useEffect(() => {
+    let cancelled = false
+    const formats = Object.keys(EXPORT_FORMATS) as ExportFormat[]
+    Promise.all(formats.map(supportsEncoding)).then(results => {
+      if (!cancelled) setUnsupported(formats.filter((_, i) => !results[i]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const toggleSize = (id: string, checked: boolean) => {
+    setSelected(prev => (checked ? [...prev, id] : prev.filter(s => s !== id)))
+  }
+
+  const runExport = async (sizes: ExportSize[]) => {
+    if (!bitmap || sizes.length === 0) return
+    setExporting(true)
+    setError(null)
+    try {
+      if (sizes.length === 1) {
+        const blob = await renderExport(bitmap, sizes[0], options, palette)
+        saveBlob(blob, exportFileName(baseName, sizes[0], options.format))
+      } else {
+        const zip = await exportZip(bitmap, sizes, options, baseName, palette)
+        saveBlob(zip, `${baseName}-${options.format}.zip`)
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    }
+    setExporting(false)
+  }
+
+  const format = EXPORT_FORMATS[options.format]
+  const busy = loading || exporting || !bitmap
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export image</DialogTitle>
+          <DialogDescription>
+            {bitmap ? `Source ${bitmap.width}×${bitmap.height}` : loading ? 'Loading image...' : 'Choose a format and sizes'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Format</Label>
+            <ToggleGroup
+              type="single"
+              value={options.format}
+              onValueChange={(v) => v && setOptions({ ...options, format: v as ExportFormat })}
+              className="justify-start"
+              size="sm"
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                <ToggleGroupItem key={key} value={key} disabled={unsupported.includes(key)} className="text-xs">
+                  {EXPORT_FORMATS[key].label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+
+          {format.lossy && (
+            <div className="space-y-2">
+              <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
+                Quality {Math.round(options.quality * 100)}
+              </Label>
+              <Slider
+                value={[Math.round(options.quality * 100)]}
+                min={10}
+                max={100}
+                step={1}
+                onValueChange={([v]) => setOptions({ ...options, quality: v / 100 })}
+                aria-label="Quality"
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Sizes</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_SIZES.map(size => (
+                <label key={size.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={selected.includes(size.id)}
+                    onCheckedChange={(checked) => toggleSize(size.id, checked === true)}
+                  />
+                  <span>{size.label}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {size.width ? `${size.width}×${size.height}` : bitmap ? `${bitmap.width}×${bitmap.height}` : ''}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Fit</Label>
+            <ToggleGroup
+              type="single"
+              value={options.fit}
+              onValueChange={(v) => v && setOptions({ ...options, fit: v as FitMode })}
+              className="justify-start"
+              size="sm"
+            >
+              <ToggleGroupItem value="pad" className="text-xs">Letterbox</ToggleGroupItem>
+              <ToggleGroupItem value="cover" className="text-xs">Crop to fill</ToggleGroupItem>
+            </ToggleGroup>
+            {options.fit === 'pad' && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                <button
+                  type="button"
+                  onClick={() => setOptions({ ...options, background: 'auto' })}
+                  className={`text-xs px-2 h-6 rounded-full border ${options.background === 'auto' ? 'border-[hsl(262,70%,50%)] text-foreground' : 'border-border text-muted-foreground'}`}
+                >
+                  Auto
+                </button>
+                {palette.map(hex => (
+                  <button
+                    key={hex}
+                    type="button"
+                    title={hex}
+                    aria-label={`Letterbox color ${hex}`}
+                    onClick={() => setOptions({ ...options, background: hex })}
+                    className={`w-6 h-6 rounded-full border-2 ${options.background === hex ? 'border-[hsl(262,70%,50%)]' : 'border-border'}`}
+                    style={{ backgroundColor: hex }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => runExport(ALL_SIZES)} disabled={busy}>
+            <FileArchive className="w-4 h-4 mr-1" />
+            All sizes (ZIP)
+          </Button>
+          <Button
+            onClick={() => runExport(ALL_SIZES.filter(s => selected.includes(s.id)))}
+            disabled={busy || selected.length === 0}
+            className="bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white"
+          >
+            {exporting ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Download className="w-4 h-4 mr-1" />}
+            {selected.length > 1 ? `Export ${selected.length} sizes` : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
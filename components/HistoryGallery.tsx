@@ -0,0 +1,189 @@
+'use client'
+
+import * as React from 'react'
+import { History, Search, Trash2, RotateCw, ImageOff } from 'lucide-react'
+import type { HistoryEntry } from '@/lib/historyStore'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface HistoryGalleryProps {
+  entries: HistoryEntry[]
+  loading?: boolean
+  error?: string | null
+  disabled?: boolean
+  onSelect?: (entry: HistoryEntry) => void
+  onRerun: (entry: HistoryEntry, styleNote: string) => void
+  onDelete: (entry: HistoryEntry) => void
+}
+
+function matchesSearch(entry: HistoryEntry, query: string): boolean {
+  if (!query) return true
+  const haystack = [
+    entry.fileName,
+    entry.styleNote,
+    entry.details?.transformation_description,
+    entry.details?.style_elements_applied,
+    entry.details?.color_palette_used,
+  ]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  return haystack.includes(query.toLowerCase())
+}
+
+function matchesDateRange(entry: HistoryEntry, from: string, to: string): boolean {
+  const created = new Date(entry.createdAt)
+  if (from && created < new Date(`${from}T00:00:00`)) return false
+  if (to && created > new Date(`${to}T23:59:59.999`)) return false
+  return true
+}
+
+export function HistoryGallery({
+  entries,
+  loading,
+  error,
+  disabled,
+  onSelect,
+  onRerun,
+  onDelete,
+}: HistoryGalleryProps) {
+  const [query, setQuery] = React.useState('')
+  const [fromDate, setFromDate] = React.useState('')
+  const [toDate, setToDate] = React.useState('')
+  const [editingId, setEditingId] = React.useState<string | null>(null)
+  const [editNote, setEditNote] = React.useState('')
+
+  const filtered = React.useMemo(
+    () => entries.filter(e => matchesSearch(e, query.trim()) && matchesDateRange(e, fromDate, toDate)),
+    [entries, query, fromDate, toDate]
+  )
+
+  const startRerun = (entry: HistoryEntry) => {
+    setEditingId(entry.id)
+    setEditNote(entry.styleNote)
+  }
+
+  const confirmRerun = (entry: HistoryEntry) => {
+    setEditingId(null)
+    onRerun(entry, editNote)
+  }
+
+  const handleDelete = (entry: HistoryEntry) => {
+    if (!confirm(`Delete this result for "${entry.fileName}"?`)) return
+    onDelete(entry)
+  }
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+          <History className="w-4 h-4 text-muted-foreground" />
+          History
+          <span className="text-xs font-normal text-muted-foreground">{entries.length} saved</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_auto] gap-3">
+          <div className="relative">
+            <Search className="w-4 h-4 text-muted-foreground absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              placeholder="Search file name, style note or details..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-9 bg-input border-border rounded-xl"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="history-from" className="text-xs text-muted-foreground">From</Label>
+            <Input id="history-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="bg-input border-border rounded-xl" />
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="history-to" className="text-xs text-muted-foreground">To</Label>
+            <Input id="history-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="bg-input border-border rounded-xl" />
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400">{error}</p>}
+
+        {loading ? (
+          <p className="text-xs text-muted-foreground">Loading history...</p>
+        ) : filtered.length === 0 ? (
+          <p className="text-xs text-muted-foreground py-6 text-center">
+            {entries.length === 0 ? 'Transformed images will be saved here.' : 'No results match your filters.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {filtered.map(entry => (
+              <div key={entry.id} className="rounded-xl border border-border bg-secondary/20 overflow-hidden">
+                <button
+                  onClick={() => onSelect?.(entry)}
+                  className="grid grid-cols-2 w-full"
+                  aria-label={`Show result for ${entry.fileName}`}
+                >
+                  {entry.originalThumbnail ? (
+                    /* eslint-disable-next-line @next/next/no-img-element */
+                    <img src={entry.originalThumbnail} alt={`Original ${entry.fileName}`} className="w-full aspect-square object-cover" />
+                  ) : (
+                    <div className="w-full aspect-square flex items-center justify-center bg-secondary">
+                      <ImageOff className="w-5 h-5 text-muted-foreground/50" />
+                    </div>
+                  )}
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={proxiedArtifactUrl(entry.resultImageUrl)} alt={`Lyzr styled ${entry.fileName}`} className="w-full aspect-square object-cover" />
+                </button>
+                <div className="p-3 space-y-2">
+                  <div>
+                    <p className="text-xs text-foreground truncate">{entry.fileName}</p>
+                    <p className="text-xs text-muted-foreground/60">{new Date(entry.createdAt).toLocaleString()}</p>
+                    {entry.styleNote && (
+                      <p className="text-xs text-muted-foreground truncate mt-1">&ldquo;{entry.styleNote}&rdquo;</p>
+                    )}
+                  </div>
+                  {editingId === entry.id ? (
+                    <div className="space-y-2">
+                      <Input
+                        value={editNote}
+                        onChange={(e) => setEditNote(e.target.value)}
+                        placeholder="Style direction (optional)..."
+                        className="bg-input border-border rounded-lg h-8 text-xs"
+                      />
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => confirmRerun(entry)} className="h-7 text-xs rounded-lg bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white">
+                          Run
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} className="h-7 text-xs rounded-lg">
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={disabled || !entry.originalBlob}
+                        onClick={() => startRerun(entry)}
+                        className="h-7 text-xs rounded-lg"
+                      >
+                        <RotateCw className="w-3 h-3 mr-1" />
+                        Re-run
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(entry)} className="h-7 text-xs rounded-lg text-muted-foreground hover:text-red-400">
+                        <Trash2 className="w-3 h-3 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,386 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle2, FolderInput, Loader2, Play, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react'
+import { useIngestion } from '@/lib/ingestion'
+import type { IngestSource, IngestSourceKind } from '@/lib/ingestion'
+import { cronToHuman } from '@/lib/scheduler'
+import { validateCron } from '@/lib/cron'
+import { useAgents } from '@/lib/agents'
+import { useBrandPresets } from '@/lib/brandPresets'
+import { CronBuilder } from '@/components/CronBuilder'
+import { TimezonePicker, localTimezone } from '@/components/TimezonePicker'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AdminTokenPrompt } from '@/components/AdminTokenPrompt'
+
+/** How often sources refresh while a run is in progress */
+const RUNNING_REFRESH_MS = 3000
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+function sourceLocation(source: IngestSource): string {
+  return source.kind === 's3' ? `s3://${source.bucket}/${source.prefix}` : source.directory || '.'
+}
+
+function LastRun({ source }: { source: IngestSource }) {
+  const run = source.last_run
+  if (source.running) {
+    return (
+      <span className="flex items-center gap-1.5">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Running...
+      </span>
+    )
+  }
+  if (!run) return <span>Never run</span>
+  const ok = !run.error && run.failed === 0
+  return (
+    <span className="flex items-center gap-1.5" title={run.error ?? undefined}>
+      {ok ? <CheckCircle2 className="w-3.5 h-3.5 text-green-400" /> : <XCircle className="w-3.5 h-3.5 text-red-400" />}
+      {formatTime(run.finished_at ?? run.started_at)} · {run.processed} styled
+      {run.failed > 0 && <span className="text-red-400">, {run.failed} failed</span>}
+      {run.remaining > 0 && <span>, {run.remaining} waiting</span>}
+      {run.error && <span className="text-red-400 truncate">· {run.error}</span>}
+    </span>
+  )
+}
+
+/** Add watch-folder sources, run them and inspect the files they processed */
+export function IngestionManager() {
+  const { sources, s3Configured, files, loading, error, needsToken, loadSources, loadFiles, create, update, remove, run } =
+    useIngestion()
+  const agentRegistry = useAgents()
+  const brandPresets = useBrandPresets()
+
+  const [name, setName] = React.useState('')
+  const [kind, setKind] = React.useState<IngestSourceKind>('directory')
+  const [directory, setDirectory] = React.useState('inbox')
+  const [bucket, setBucket] = React.useState('')
+  const [prefix, setPrefix] = React.useState('')
+  const [outputDir, setOutputDir] = React.useState('styled')
+  const [styleNote, setStyleNote] = React.useState('')
+  const [cron, setCron] = React.useState('*/15 * * * *')
+  const [timezone, setTimezone] = React.useState('UTC')
+  const [creating, setCreating] = React.useState(false)
+  const [formError, setFormError] = React.useState<string | null>(null)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [rowError, setRowError] = React.useState<string | null>(null)
+  const [filesId, setFilesId] = React.useState<string | null>(null)
+
+  // The browser timezone is only known after mount
+  React.useEffect(() => {
+    setTimezone(localTimezone())
+  }, [])
+
+  React.useEffect(() => {
+    loadSources()
+  }, [loadSources])
+
+  React.useEffect(() => {
+    if (filesId) loadFiles(filesId)
+  }, [loadFiles, filesId])
+
+  // Follow runs without a manual refresh; the file log grows as images finish
+  const hasRunning = sources.some(s => s.running)
+  React.useEffect(() => {
+    if (!hasRunning) return
+    const timer = setInterval(() => {
+      loadSources()
+      if (filesId) loadFiles(filesId)
+    }, RUNNING_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [hasRunning, loadSources, loadFiles, filesId])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setFormError(null)
+    const preset = brandPresets.activePreset
+    const result = await create({
+      name: name.trim(),
+      kind,
+      directory: kind === 'directory' ? directory.trim() : undefined,
+      bucket: kind === 's3' ? bucket.trim() : undefined,
+      prefix: kind === 's3' ? prefix : undefined,
+      output_dir: outputDir.trim(),
+      agent_id: agentRegistry.selectedAgentId,
+      preset: { name: preset.name, palette: preset.palette, typography: preset.typography, dos: preset.dos, donts: preset.donts },
+      style_note: styleNote,
+      cron_expression: cron,
+      timezone,
+    })
+    setCreating(false)
+    if (!result.success) {
+      setFormError([result.error, result.details].filter(Boolean).join(': ') || 'Failed to add source')
+      return
+    }
+    setName('')
+    setStyleNote('')
+  }
+
+  const runRowAction = async (source: IngestSource, action: 'toggle' | 'run' | 'delete') => {
+    if (action === 'delete' && !confirm(`Delete the source "${source.name}"? Images already written stay in place.`)) return
+    setBusyId(source.id)
+    setRowError(null)
+    const result =
+      action === 'toggle'
+        ? await update(source.id, { is_active: !source.is_active })
+        : action === 'run'
+          ? await run(source.id)
+          : await remove(source.id)
+    setBusyId(null)
+    if (!result.success) setRowError(result.error || 'Request failed')
+    else if (action === 'run') setFilesId(source.id)
+    else if (action === 'delete' && filesId === source.id) setFilesId(null)
+  }
+
+  const filesSource = sources.find(s => s.id === filesId) ?? null
+
+  const handleTokenSaved = () => {
+    loadSources()
+    if (filesId) loadFiles(filesId)
+  }
+
+  if (needsToken) return <AdminTokenPrompt onSaved={handleTokenSaved} />
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-[400px_1fr] gap-6">
+      <Card className="bg-card border-border shadow-lg h-fit">
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+            <Plus className="w-4 h-4 text-muted-foreground" />
+            New Source
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handleCreate}>
+            <div className="space-y-1.5">
+              <Label htmlFor="ingest-name" className="text-xs text-muted-foreground">Name</Label>
+              <Input id="ingest-name" required placeholder="Design team drop folder" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Watch</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as IngestSourceKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="directory">Local directory</SelectItem>
+                  <SelectItem value="s3" disabled={!s3Configured}>
+                    S3-compatible bucket{s3Configured ? '' : ' (not configured)'}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {kind === 'directory' ? (
+              <div className="space-y-1.5">
+                <Label htmlFor="ingest-directory" className="text-xs text-muted-foreground">Directory (relative to the ingest root)</Label>
+                <Input id="ingest-directory" required value={directory} onChange={(e) => setDirectory(e.target.value)} className="font-mono" />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="ingest-bucket" className="text-xs text-muted-foreground">Bucket</Label>
+                  <Input id="ingest-bucket" required value={bucket} onChange={(e) => setBucket(e.target.value)} className="font-mono" />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="ingest-prefix" className="text-xs text-muted-foreground">Key prefix</Label>
+                  <Input id="ingest-prefix" placeholder="raw/" value={prefix} onChange={(e) => setPrefix(e.target.value)} className="font-mono" />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1.5">
+              <Label htmlFor="ingest-output" className="text-xs text-muted-foreground">Output directory (relative to the ingest root)</Label>
+              <Input id="ingest-output" required value={outputDir} onChange={(e) => setOutputDir(e.target.value)} className="font-mono" />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Agent</Label>
+                <Select value={agentRegistry.selectedAgentId} onValueChange={agentRegistry.setSelectedAgentId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {agentRegistry.agents.map(agent => (
+                      <SelectItem key={agent.agent_id} value={agent.agent_id}>{agent.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-muted-foreground">Brand preset</Label>
+                <Select value={brandPresets.activePresetId} onValueChange={brandPresets.setActivePresetId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {brandPresets.presets.map(preset => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="ingest-note" className="text-xs text-muted-foreground">Style note (optional)</Label>
+              <Textarea id="ingest-note" rows={2} value={styleNote} onChange={(e) => setStyleNote(e.target.value)} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Check for new images</Label>
+              <CronBuilder value={cron} onChange={setCron} timezone={timezone} disabled={creating} />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Timezone</Label>
+              <TimezonePicker value={timezone} onChange={setTimezone} disabled={creating} />
+            </div>
+
+            {formError && <p className="text-xs text-red-400">{formError}</p>}
+            <Button type="submit" className="w-full" disabled={creating || !name.trim() || validateCron(cron) !== null}>
+              {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FolderInput className="w-4 h-4 mr-2" />}
+              Add Source
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6 min-w-0">
+        <Card className="bg-card border-border shadow-lg">
+          <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base font-semibold text-foreground">Sources</CardTitle>
+            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={loadSources} disabled={loading} aria-label="Refresh sources">
+              <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {rowError && <p className="text-xs text-red-400">{rowError}</p>}
+            {!loading && sources.length === 0 && !error && (
+              <p className="text-xs text-muted-foreground">No sources yet. Images dropped into a watched directory are styled on its schedule.</p>
+            )}
+            <ul className="space-y-2">
+              {sources.map(source => (
+                <li key={source.id} className="rounded-lg border border-border px-3 py-2 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={source.is_active}
+                      disabled={busyId === source.id}
+                      onCheckedChange={() => runRowAction(source, 'toggle')}
+                      aria-label={source.is_active ? 'Pause source' : 'Resume source'}
+                    />
+                    <span className="truncate text-sm text-foreground">{source.name}</span>
+                    <Badge variant="secondary" className="text-xs bg-secondary text-muted-foreground">
+                      {source.kind === 's3' ? 'S3' : 'Directory'}
+                    </Badge>
+                    <div className="ml-auto flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={busyId === source.id || source.running}
+                        onClick={() => runRowAction(source, 'run')}
+                        aria-label="Run now"
+                        title="Run now"
+                      >
+                        {busyId === source.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={busyId === source.id}
+                        onClick={() => runRowAction(source, 'delete')}
+                        aria-label="Delete source"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="truncate text-xs font-mono text-muted-foreground">
+                    {sourceLocation(source)} → {source.output_dir}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    <span>
+                      {cronToHuman(source.cron_expression)} · {source.timezone}
+                    </span>
+                    <span>{source.is_active ? `next ${formatTime(source.next_run_time)}` : 'Paused'}</span>
+                    <span>{source.preset.name}</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <LastRun source={source} />
+                    <button
+                      type="button"
+                      className={`ml-auto flex-shrink-0 underline-offset-2 hover:underline ${filesId === source.id ? 'text-foreground' : ''}`}
+                      onClick={() => setFilesId(prev => (prev === source.id ? null : source.id))}
+                    >
+                      {filesId === source.id ? 'Hide files' : 'Files'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+
+        {filesSource && (
+          <Card className="bg-card border-border shadow-lg">
+            <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-base font-semibold text-foreground">Processed Files · {filesSource.name}</CardTitle>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => loadFiles(filesSource.id)} aria-label="Refresh files">
+                <RefreshCw className="w-3.5 h-3.5" />
+              </Button>
+            </CardHeader>
+            <CardContent>
+              {files.length === 0 ? (
+                <p className="text-xs text-muted-foreground">Nothing processed yet.</p>
+              ) : (
+                <ul className="space-y-1.5">
+                  {files.map(file => (
+                    <li key={file.key} className="rounded-lg border border-border px-3 py-2 text-xs space-y-0.5">
+                      <p className="flex items-center gap-2">
+                        {file.status === 'completed' ? (
+                          <CheckCircle2 className="w-3.5 h-3.5 flex-shrink-0 text-green-400" />
+                        ) : (
+                          <XCircle className="w-3.5 h-3.5 flex-shrink-0 text-red-400" />
+                        )}
+                        <span className="truncate font-mono text-foreground" title={file.key}>{file.key}</span>
+                        <span className="ml-auto flex-shrink-0 text-muted-foreground">{formatTime(file.processed_at)}</span>
+                      </p>
+                      {file.output_image && (
+                        <p className="truncate font-mono text-muted-foreground">
+                          → {file.output_image} + {file.output_sidecar}
+                        </p>
+                      )}
+                      {file.error && (
+                        <p className="text-red-300">
+                          {file.error} <span className="text-muted-foreground">(attempt {file.attempts})</span>
+                        </p>
+                      )}
+                      {file.job_id && <p className="font-mono text-muted-foreground/70">{file.job_id}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+'use client'
+
+import * as React from 'react'
+import { Brush, Eraser, Square, Contrast, Trash2 } from 'lucide-react'
+import { invertMask, exportMask, loadMask, MASK_BRUSH_SIZES, MASK_OVERLAY_RGB } from '@/lib/mask'
+import type { MaskTool } from '@/lib/mask'
+import { Button } from '@/components/ui/button'
+import { Slider } from '@/components/ui/slider'
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
+
+interface MaskPainterProps {
+  imageUrl: string
+  /** Previously exported mask to continue editing */
+  initialMask?: Blob | null
+  disabled?: boolean
+  /** Called after every edit with the exported mask, or null when empty */
+  onChange: (mask: Blob | null) => void
+}
+
+const TOOLS: { id: MaskTool; label: string; icon: React.ElementType }[] = [
+  { id: 'brush', label: 'Brush', icon: Brush },
+  { id: 'eraser', label: 'Eraser', icon: Eraser },
+  { id: 'rect', label: 'Rectangle', icon: Square },
+]
+
+const OVERLAY_COLOR = `rgb(${MASK_OVERLAY_RGB.join(', ')})`
+
+export function MaskPainter({ imageUrl, initialMask, disabled, onChange }: MaskPainterProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = React.useState<{ width: number; height: number } | null>(null)
+  const [tool, setTool] = React.useState<MaskTool>('brush')
+  const [brushSize, setBrushSize] = React.useState(MASK_BRUSH_SIZES.default)
+  // Active stroke: last point for brush/eraser, start point and snapshot for rectangles
+  const strokeRef = React.useRef<{ x: number; y: number; startX: number; startY: number; snapshot: ImageData | null } | null>(null)
+  const initialMaskRef = React.useRef(initialMask)
+
+  // Restore the saved mask once the canvas has the image's dimensions
+  React.useEffect(() => {
+    const canvas = canvasRef.current
+    if (!size || !canvas || !initialMaskRef.current) return
+    loadMask(canvas, initialMaskRef.current).catch(() => {
+      // A stale mask is not worth failing over; start from blank
+    })
+  }, [size])
+
+  const emit = () => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    exportMask(canvas).then(onChange, () => onChange(null))
+  }
+
+  // Pointer position in canvas pixels (the canvas is scaled to fit the card)
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+      scale: canvas.width / rect.width,
+    }
+  }
+
+  const drawSegment = (ctx: CanvasRenderingContext2D, from: { x: number; y: number }, to: { x: number; y: number }, width: number) => {
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over'
+    ctx.strokeStyle = OVERLAY_COLOR
+    ctx.lineWidth = width
+    ctx.lineCap = 'round'
+    ctx.lineJoin = 'round'
+    ctx.beginPath()
+    ctx.moveTo(from.x, from.y)
+    ctx.lineTo(to.x, to.y)
+    ctx.stroke()
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return
+    const ctx = e.currentTarget.getContext('2d')
+    if (!ctx) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const { x, y, scale } = toCanvasPoint(e)
+    strokeRef.current = {
+      x,
+      y,
+      startX: x,
+      startY: y,
+      snapshot: tool === 'rect' ? ctx.getImageData(0, 0, e.currentTarget.width, e.currentTarget.height) : null,
+    }
+    if (tool !== 'rect') drawSegment(ctx, { x, y }, { x, y }, brushSize * scale)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current
+    const ctx = e.currentTarget.getContext('2d')
+    if (!stroke || !ctx) return
+    const { x, y, scale } = toCanvasPoint(e)
+    if (tool === 'rect' && stroke.snapshot) {
+      ctx.putImageData(stroke.snapshot, 0, 0)
+      ctx.globalCompositeOperation = 'source-over'
+      ctx.fillStyle = OVERLAY_COLOR
+      ctx.fillRect(Math.min(stroke.startX, x), Math.min(stroke.startY, y), Math.abs(x - stroke.startX), Math.abs(y - stroke.startY))
+    } else {
+      drawSegment(ctx, stroke, { x, y }, brushSize * scale)
+    }
+    stroke.x = x
+    stroke.y = y
+  }
+
+  const handlePointerUp = () => {
+    if (!strokeRef.current) return
+    strokeRef.current = null
+    emit()
+  }
+
+  const handleInvert = () => {
+    if (!canvasRef.current) return
+    invertMask(canvasRef.current)
+    emit()
+  }
+
+  const handleClear = () => {
+    const canvas = canvasRef.current
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height)
+    onChange(null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={imageUrl}
+          alt="Mask source"
+          className="w-full h-auto block select-none"
+          draggable={false}
+          onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        />
+        {size && (
+          <canvas
+            ref={canvasRef}
+            width={size.width}
+            height={size.height}
+            className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 px-3">
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={tool}
+          onValueChange={(value) => value && setTool(value as MaskTool)}
+          disabled={disabled}
+        >
+          {TOOLS.map(({ id, label, icon: Icon }) => (
+            <ToggleGroupItem key={id} value={id} aria-label={label} title={label} className="rounded-lg">
+              <Icon className="w-3.5 h-3.5" />
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Slider
+          value={[brushSize]}
+          min={MASK_BRUSH_SIZES.min}
+          max={MASK_BRUSH_SIZES.max}
+          step={2}
+          onValueChange={([value]) => setBrushSize(value)}
+          disabled={disabled || tool === 'rect'}
+          className="flex-1"
+          aria-label="Brush size"
+        />
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleInvert} disabled={disabled} aria-label="Invert mask" title="Invert">
+          <Contrast className="w-3.5 h-3.5" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleClear} disabled={disabled} aria-label="Clear mask" title="Clear">
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+      <p className="px-3 text-xs text-muted-foreground/60">Paint the regions the agent may change. Everything else is kept.</p>
+    </div>
+  )
+}
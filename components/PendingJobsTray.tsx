@@ -0,0 +1,71 @@
+'use client'
+
+import * as React from 'react'
+import { Hourglass, Loader2, AlertCircle, X } from 'lucide-react'
+import type { TrackedJob } from '@/lib/jobStore'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+
+interface PendingJobsTrayProps {
+  jobs: TrackedJob[]
+  onDismiss: (task_id: string) => void
+}
+
+/** Transforms submitted before the last reload; results land in history (singles also in the result view) as they finish */
+export function PendingJobsTray({ jobs, onDismiss }: PendingJobsTrayProps) {
+  const resuming = jobs.filter(j => j.status === 'resuming').length
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+          <Hourglass className="w-4 h-4 text-muted-foreground" />
+          Pending Jobs
+          <span className="text-xs font-normal text-muted-foreground">
+            {resuming > 0 ? `${resuming} still running` : 'none running'}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {jobs.map(job => (
+          <div key={job.task_id} className="flex items-center gap-3 rounded-lg border border-border bg-secondary/20 p-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-foreground truncate">{job.file_name}</p>
+              {job.error ? (
+                <p className="text-xs text-red-400 truncate flex items-center gap-1">
+                  <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                  {job.error}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground/60 truncate" title={job.prompt}>
+                  Submitted {new Date(job.submitted_at).toLocaleTimeString()}
+                  {job.kind === 'batch' && ' -- batch item'}
+                  {job.kind === 'variant' && ' -- variant'}
+                  {job.preset_name && ` -- ${job.preset_name}`}
+                  {job.style_note && ` -- ${job.style_note}`}
+                </p>
+              )}
+            </div>
+            {job.status === 'resuming' ? (
+              <Badge variant="outline" className="text-xs gap-1 border-[hsl(262,70%,50%)]/40 text-[hsl(262,70%,70%)]">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Transforming
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs border-red-500/40 text-red-400">
+                Failed
+              </Badge>
+            )}
+            <button
+              onClick={() => onDismiss(job.task_id)}
+              className="w-7 h-7 rounded-full flex items-center justify-center text-muted-foreground hover:text-destructive-foreground hover:bg-destructive"
+              aria-label={job.status === 'resuming' ? `Cancel ${job.file_name}` : `Dismiss ${job.file_name}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import * as React from 'react'
+import { RotateCw, Crop, Minimize2, Loader2 } from 'lucide-react'
+import {
+  CROP_ASPECTS,
+  MAX_EDGE_OPTIONS,
+  formatBytes,
+  type CropAspect,
+  type PreprocessOptions,
+  type PreprocessResult,
+  type Rotation,
+} from '@/lib/imagePreprocess'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface PreprocessControlsProps {
+  options: PreprocessOptions
+  result: PreprocessResult | null
+  processing?: boolean
+  disabled?: boolean
+  onChange: (options: PreprocessOptions) => void
+}
+
+/**
+ * Crop / rotate / max-edge controls for the upload card, with before/after sizes
+ */
+export function PreprocessControls({ options, result, processing, disabled, onChange }: PreprocessControlsProps) {
+  const rotate = () => onChange({ ...options, rotate: (((options.rotate + 90) % 360) as Rotation) })
+  const savings = result && result.originalSize > 0
+    ? Math.round((1 - result.size / result.originalSize) * 100)
+    : 0
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select value={options.aspect} onValueChange={(v) => onChange({ ...options, aspect: v as CropAspect })} disabled={disabled}>
+          <SelectTrigger className="bg-input border-border rounded-xl h-9 text-xs" aria-label="Crop aspect ratio">
+            <Crop className="w-3.5 h-3.5 mr-1 text-muted-foreground" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CROP_ASPECTS.map(aspect => (
+              <SelectItem key={aspect} value={aspect} className="text-xs">
+                {aspect === 'original' ? 'Original ratio' : aspect}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={String(options.maxEdge)} onValueChange={(v) => onChange({ ...options, maxEdge: Number(v) })} disabled={disabled}>
+          <SelectTrigger className="bg-input border-border rounded-xl h-9 text-xs" aria-label="Maximum edge">
+            <Minimize2 className="w-3.5 h-3.5 mr-1 text-muted-foreground" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MAX_EDGE_OPTIONS.map(edge => (
+              <SelectItem key={edge} value={String(edge)} className="text-xs">
+                Max {edge}px
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="icon" className="rounded-xl h-9 w-9 flex-shrink-0" onClick={rotate} disabled={disabled} aria-label="Rotate 90 degrees">
+          <RotateCw className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        {processing ? (
+          <span className="flex items-center gap-1.5">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Preparing image...
+          </span>
+        ) : result ? (
+          <>
+            <span className="tabular-nums">
+              {result.originalWidth}×{result.originalHeight} · {formatBytes(result.originalSize)}
+              {' → '}
+              <span className="text-foreground">{result.width}×{result.height} · {formatBytes(result.size)}</span>
+            </span>
+            {savings > 0 && <span className="text-green-400 tabular-nums">−{savings}%</span>}
+          </>
+        ) : null}
+      </div>
+      {result && !processing && (
+        <p className="text-xs text-muted-foreground/60">
+          Metadata stripped{result.exifOrientation > 1 ? ', EXIF orientation applied' : ''}
+          {options.rotate !== 0 ? `, rotated ${options.rotate}°` : ''}
+        </p>
+      )}
+    </div>
+  )
+}
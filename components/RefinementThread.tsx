@@ -0,0 +1,122 @@
+'use client'
+
+import * as React from 'react'
+import { GitBranch, Send, Ban, Loader2, AlertCircle } from 'lucide-react'
+import { flattenTree } from '@/lib/refinement'
+import type { VersionTree } from '@/lib/refinement'
+import type { TransformStage } from '@/lib/styleTransform'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface RefinementThreadProps {
+  tree: VersionTree
+  isRefining: boolean
+  stage: TransformStage | null
+  error: string | null
+  disabled?: boolean
+  onSelect: (id: string) => void
+  onRefine: (instruction: string) => void
+  onCancel: () => void
+}
+
+export function RefinementThread({
+  tree,
+  isRefining,
+  stage,
+  error,
+  disabled,
+  onSelect,
+  onRefine,
+  onCancel,
+}: RefinementThreadProps) {
+  const [instruction, setInstruction] = React.useState('')
+  const rows = React.useMemo(() => flattenTree(tree), [tree])
+  const activeNumber = rows.find(row => row.version.id === tree.activeId)?.number
+  const isLeaf = !rows.some(row => row.version.parentId === tree.activeId)
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!instruction.trim() || isRefining || disabled) return
+    onRefine(instruction)
+    setInstruction('')
+  }
+
+  return (
+    <Card className="bg-card border-border shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+          <GitBranch className="w-4 h-4 text-muted-foreground" />
+          Refine
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Version tree */}
+        <ol className="space-y-1">
+          {rows.map(({ version, depth, number }) => {
+            const active = version.id === tree.activeId
+            return (
+              <li key={version.id} style={{ paddingLeft: depth * 14 }}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(version.id)}
+                  disabled={isRefining}
+                  className={`w-full flex items-center gap-2 rounded-lg px-2 py-1.5 text-left text-xs transition-colors ${active ? 'bg-[hsl(262,70%,50%)]/15 text-foreground' : 'text-muted-foreground hover:bg-secondary/50'}`}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img src={proxiedArtifactUrl(version.imageUrl)} alt="" className="w-8 h-8 rounded object-cover flex-shrink-0" />
+                  <span className="font-semibold tabular-nums">v{number}</span>
+                  <span className="flex-1 truncate">{version.instruction || 'Original result'}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+
+        {/* Follow-up instruction */}
+        <form onSubmit={submit} className="flex gap-2">
+          <Input
+            placeholder="e.g. make the gradient subtler"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            disabled={isRefining || disabled}
+            className="bg-input border-border text-foreground placeholder:text-muted-foreground/50 rounded-xl"
+          />
+          {isRefining ? (
+            <Button type="button" variant="outline" onClick={onCancel} className="rounded-xl border-border" aria-label="Cancel refinement">
+              <Ban className="w-4 h-4" />
+            </Button>
+          ) : (
+            <Button
+              type="submit"
+              disabled={!instruction.trim() || disabled}
+              className="bg-[hsl(262,70%,50%)] hover:bg-[hsl(262,70%,55%)] text-white rounded-xl"
+              aria-label="Send refinement"
+            >
+              <Send className="w-4 h-4" />
+            </Button>
+          )}
+        </form>
+
+        {isRefining ? (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            {stage === 'uploading' ? `Attaching v${activeNumber}...` : `Refining v${activeNumber}...`}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground/60">
+            {isLeaf ? `Refines v${activeNumber} in the same agent session.` : `Refining v${activeNumber} starts a new branch.`}
+          </p>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-xs text-red-400">
+            <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
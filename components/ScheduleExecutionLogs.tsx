@@ -0,0 +1,139 @@
+'use client'
+
+import * as React from 'react'
+import { CheckCircle2, XCircle, Loader2, RefreshCw } from 'lucide-react'
+import { getScheduleLogs } from '@/lib/scheduler'
+import type { ExecutionLog } from '@/lib/scheduler'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+
+interface ScheduleExecutionLogsProps {
+  scheduleId: string
+  /** Bump to reload, e.g. after triggering the schedule */
+  refreshKey?: number
+}
+
+const PAGE_SIZE = 20
+const IMAGE_URL_PATTERN = /https?:\/\/[^\s"'<>]+?\.(?:png|jpe?g|webp|gif)(?:\?[^\s"'<>]*)?/i
+
+/** Pretty JSON when the agent output is JSON, plus the first image URL it mentions */
+function parseOutput(output: string): { text: string; imageUrl: string | null } {
+  if (!output) return { text: '', imageUrl: null }
+  let text = output
+  try {
+    text = JSON.stringify(JSON.parse(output), null, 2)
+  } catch {
+    // Plain-text output is shown as is
+  }
+  return { text, imageUrl: IMAGE_URL_PATTERN.exec(output)?.[0] ?? null }
+}
+
+function ExecutionEntry({ log }: { log: ExecutionLog }) {
+  const [open, setOpen] = React.useState(false)
+  const output = React.useMemo(() => parseOutput(log.response_output), [log.response_output])
+
+  return (
+    <li className="rounded-lg border border-border">
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {log.success ? (
+          <CheckCircle2 className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+        ) : (
+          <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+        )}
+        <span className="text-foreground">{new Date(log.executed_at).toLocaleString()}</span>
+        <Badge variant="outline" className="text-xs border-border text-muted-foreground">
+          attempt {log.attempt}/{log.max_attempts}
+        </Badge>
+        <span className="tabular-nums text-muted-foreground">HTTP {log.response_status}</span>
+        {log.error_message && <span className="truncate text-red-300">{log.error_message}</span>}
+      </button>
+
+      {open && (
+        <div className="border-t border-border px-3 py-2 space-y-2 text-xs">
+          <p className="text-muted-foreground">
+            Session <span className="font-mono">{log.session_id || '—'}</span>
+          </p>
+          {output.imageUrl && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={proxiedArtifactUrl(output.imageUrl)}
+              alt="Scheduled run output"
+              className="max-h-48 rounded-lg border border-border"
+            />
+          )}
+          {output.text ? (
+            <pre className="max-h-64 overflow-auto rounded bg-secondary/50 px-2 py-1 text-[11px] text-muted-foreground whitespace-pre-wrap break-all">
+              {output.text}
+            </pre>
+          ) : (
+            <p className="text-muted-foreground">No output recorded</p>
+          )}
+          <details>
+            <summary className="cursor-pointer text-muted-foreground">Message sent</summary>
+            <p className="mt-1 whitespace-pre-wrap text-muted-foreground">{log.payload_message}</p>
+          </details>
+        </div>
+      )}
+    </li>
+  )
+}
+
+/** Paginated execution history of one schedule */
+export function ScheduleExecutionLogs({ scheduleId, refreshKey }: ScheduleExecutionLogsProps) {
+  const [logs, setLogs] = React.useState<ExecutionLog[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const load = React.useCallback(
+    async (skip: number) => {
+      setLoading(true)
+      setError(null)
+      const result = await getScheduleLogs(scheduleId, { skip, limit: PAGE_SIZE })
+      setLoading(false)
+      if (!result.success) {
+        setError(result.error || 'Failed to load executions')
+        return
+      }
+      setLogs(prev => (skip === 0 ? result.executions : [...prev, ...result.executions]))
+      setTotal(result.total)
+    },
+    [scheduleId]
+  )
+
+  React.useEffect(() => {
+    load(0)
+  }, [load, refreshKey])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {total} execution{total === 1 ? '' : 's'}
+        </p>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => load(0)} disabled={loading} aria-label="Refresh executions">
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!loading && !error && logs.length === 0 && <p className="text-xs text-muted-foreground">This schedule has not run yet.</p>}
+      <ul className="space-y-2">
+        {logs.map(log => (
+          <ExecutionEntry key={log.id} log={log} />
+        ))}
+      </ul>
+      {logs.length < total && (
+        <Button variant="outline" size="sm" className="w-full" onClick={() => load(logs.length)} disabled={loading}>
+          {loading && <Loader2 className="w-3.5 h-3.5 mr-2 animate-spin" />}
+          Load more
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+'use client'
+
+import * as React from 'react'
+import { CalendarPlus, Loader2, Wand2 } from 'lucide-react'
+import { buildPresetPrompt } from '@/lib/brandPrompt'
+import { validateCron } from '@/lib/cron'
+import type { BrandPreset } from '@/lib/brandPrompt'
+import { CronBuilder } from '@/components/CronBuilder'
+import { TimezonePicker, localTimezone } from '@/components/TimezonePicker'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+export interface ScheduleFormValues {
+  message: string
+  cron_expression: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+}
+
+interface ScheduleFormProps {
+  agentName: string
+  /** Brand preset whose prompt can be inserted as the message */
+  preset: BrandPreset
+  submitting: boolean
+  onSubmit: (values: ScheduleFormValues) => Promise<boolean>
+}
+
+/** Message, cron builder, timezone and retry policy for a new schedule */
+export function ScheduleForm({ agentName, preset, submitting, onSubmit }: ScheduleFormProps) {
+  const [message, setMessage] = React.useState('')
+  const [cron, setCron] = React.useState('0 9 * * *')
+  const [timezone, setTimezone] = React.useState('UTC')
+  const [maxRetries, setMaxRetries] = React.useState(3)
+  const [retryDelay, setRetryDelay] = React.useState(300)
+
+  // The browser timezone is only known after mount
+  React.useEffect(() => {
+    setTimezone(localTimezone())
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const created = await onSubmit({
+      message: message.trim(),
+      cron_expression: cron,
+      timezone,
+      max_retries: maxRetries,
+      retry_delay: retryDelay,
+    })
+    if (created) setMessage('')
+  }
+
+  return (
+    <form className="space-y-4" onSubmit={handleSubmit}>
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="schedule-message" className="text-xs text-muted-foreground">
+            Message sent to {agentName}
+          </Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs text-muted-foreground"
+            onClick={() => setMessage(buildPresetPrompt(preset))}
+            disabled={submitting}
+          >
+            <Wand2 className="w-3 h-3 mr-1.5" />
+            Use {preset.name} prompt
+          </Button>
+        </div>
+        <Textarea
+          id="schedule-message"
+          required
+          rows={4}
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          disabled={submitting}
+          placeholder="What the agent should do on every run"
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-muted-foreground">Runs</Label>
+        <CronBuilder value={cron} onChange={setCron} timezone={timezone} disabled={submitting} />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label className="text-xs text-muted-foreground">Timezone</Label>
+        <TimezonePicker value={timezone} onChange={setTimezone} disabled={submitting} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor="schedule-retries" className="text-xs text-muted-foreground">Max retries</Label>
+          <Input
+            id="schedule-retries"
+            type="number"
+            min={0}
+            max={10}
+            value={maxRetries}
+            onChange={(e) => setMaxRetries(Math.min(10, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+            disabled={submitting}
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="schedule-delay" className="text-xs text-muted-foreground">Retry delay (seconds)</Label>
+          <Input
+            id="schedule-delay"
+            type="number"
+            min={0}
+            value={retryDelay}
+            onChange={(e) => setRetryDelay(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            disabled={submitting}
+          />
+        </div>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={submitting || !message.trim() || validateCron(cron) !== null}>
+        {submitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CalendarPlus className="w-4 h-4 mr-2" />}
+        Create Schedule
+      </Button>
+    </form>
+  )
+}
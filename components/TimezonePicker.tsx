@@ -0,0 +1,99 @@
+'use client'
+
+import * as React from 'react'
+import { Check, ChevronsUpDown, Globe } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command'
+
+interface TimezonePickerProps {
+  value: string
+  onChange: (timezone: string) => void
+  disabled?: boolean
+}
+
+/** Used when the browser can't enumerate IANA zones */
+const FALLBACK_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Africa/Johannesburg',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+]
+
+function listTimezones(): string[] {
+  try {
+    const zones = Intl.supportedValuesOf('timeZone')
+    return zones.includes('UTC') ? zones : ['UTC', ...zones]
+  } catch {
+    return FALLBACK_TIMEZONES
+  }
+}
+
+/** The browser's own IANA timezone, e.g. "Europe/Berlin" */
+export function localTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  } catch {
+    return 'UTC'
+  }
+}
+
+/** Searchable IANA timezone combobox */
+export function TimezonePicker({ value, onChange, disabled }: TimezonePickerProps) {
+  const [open, setOpen] = React.useState(false)
+  const timezones = React.useMemo(listTimezones, [])
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          disabled={disabled}
+          className="w-full justify-between font-normal"
+        >
+          <span className="flex items-center gap-2 truncate">
+            <Globe className="w-3.5 h-3.5 text-muted-foreground" />
+            {value || 'Select timezone'}
+          </span>
+          <ChevronsUpDown className="w-3.5 h-3.5 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search timezones..." />
+          <CommandList>
+            <CommandEmpty>No timezone found.</CommandEmpty>
+            <CommandGroup>
+              {timezones.map(zone => (
+                <CommandItem
+                  key={zone}
+                  value={zone}
+                  onSelect={() => {
+                    onChange(zone)
+                    setOpen(false)
+                  }}
+                >
+                  <Check className={`mr-2 w-3.5 h-3.5 ${zone === value ? 'opacity-100' : 'opacity-0'}`} />
+                  {zone}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
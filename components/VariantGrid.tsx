@@ -0,0 +1,109 @@
+'use client'
+
+import * as React from 'react'
+import { Star, ThumbsDown, Trophy, Loader2, AlertCircle } from 'lucide-react'
+import type { Variant, VariantRating } from '@/lib/variants'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+
+interface VariantGridProps {
+  variants: Variant[]
+  winnerId: string | null
+  disabled?: boolean
+  onRate: (id: string, rating: VariantRating) => void
+  onPickWinner: (variant: Variant) => void
+}
+
+export function VariantGrid({ variants, winnerId, disabled, onRate, onPickWinner }: VariantGridProps) {
+  const starred = variants.filter(v => v.rating === 'starred').length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+          Variants
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {winnerId ? 'Winner saved' : starred > 0 ? `${starred} starred -- pick a winner` : 'Star, reject or pick a winner'}
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        {variants.map(variant => {
+          const isWinner = variant.id === winnerId
+          const rejected = variant.rating === 'rejected'
+          return (
+            <div
+              key={variant.id}
+              className={`relative rounded-xl overflow-hidden border bg-secondary/20 transition-opacity ${isWinner ? 'border-[hsl(262,70%,50%)] ring-2 ring-[hsl(262,70%,50%)]/40' : 'border-border'} ${rejected ? 'opacity-40' : ''}`}
+            >
+              {variant.status === 'completed' && variant.imageUrl ? (
+                /* eslint-disable-next-line @next/next/no-img-element */
+                <img src={proxiedArtifactUrl(variant.imageUrl)} alt={`Variant ${variant.index + 1}`} className="w-full aspect-square object-cover" />
+              ) : variant.status === 'failed' ? (
+                <div className="w-full aspect-square flex flex-col items-center justify-center gap-2 p-3 text-center">
+                  <AlertCircle className="w-5 h-5 text-red-400" />
+                  <p className="text-xs text-red-400 line-clamp-3">{variant.error || 'Variant failed'}</p>
+                </div>
+              ) : (
+                <div className="w-full aspect-square flex items-center justify-center">
+                  <Loader2 className="w-5 h-5 text-muted-foreground animate-spin" />
+                </div>
+              )}
+
+              <div className="absolute top-2 left-2 flex gap-1">
+                <Badge variant="secondary" className="text-xs bg-background/80 backdrop-blur-sm">
+                  #{variant.index + 1}
+                </Badge>
+                {isWinner && (
+                  <Badge className="bg-[hsl(262,70%,50%)] text-white border-none text-xs">
+                    <Trophy className="w-3 h-3 mr-1" />
+                    Winner
+                  </Badge>
+                )}
+              </div>
+
+              <div className="p-2 space-y-2 bg-card border-t border-border">
+                <p className="text-xs text-muted-foreground truncate" title={variant.direction}>
+                  {variant.direction || 'Default direction'}
+                </p>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={variant.status !== 'completed'}
+                    onClick={() => onRate(variant.id, variant.rating === 'starred' ? null : 'starred')}
+                    aria-label={variant.rating === 'starred' ? 'Unstar variant' : 'Star variant'}
+                  >
+                    <Star className={`w-3.5 h-3.5 ${variant.rating === 'starred' ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={variant.status !== 'completed' || isWinner}
+                    onClick={() => onRate(variant.id, rejected ? null : 'rejected')}
+                    aria-label={rejected ? 'Restore variant' : 'Reject variant'}
+                  >
+                    <ThumbsDown className={`w-3.5 h-3.5 ${rejected ? 'text-red-400' : ''}`} />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 ml-auto text-xs rounded-lg"
+                    disabled={disabled || variant.status !== 'completed' || rejected || isWinner}
+                    onClick={() => onPickWinner(variant)}
+                  >
+                    <Trophy className="w-3 h-3 mr-1" />
+                    {isWinner ? 'Picked' : 'Pick'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import * as React from 'react'
+import { Plus, Send, Trash2, RefreshCw, Copy, Check, Loader2, KeyRound, ChevronDown, ChevronRight } from 'lucide-react'
+import { useWebhooks, WEBHOOK_EVENT_OPTIONS } from '@/lib/webhooks'
+import type { WebhookDelivery } from '@/lib/webhooks'
+import type { WebhookEvent } from '@/lib/scheduler'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { AdminTokenPrompt } from '@/components/AdminTokenPrompt'
+
+/** How often the delivery log refreshes while deliveries are still being retried */
+const PENDING_REFRESH_MS = 3000
+
+const STATUS_STYLES: Record<WebhookDelivery['status'], string> = {
+  pending: 'border-yellow-500/40 text-yellow-400',
+  succeeded: 'border-green-500/40 text-green-400',
+  failed: 'border-red-500/40 text-red-400',
+}
+
+function formatTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+function DeliveryRow({ delivery }: { delivery: WebhookDelivery }) {
+  const [open, setOpen] = React.useState(false)
+  const last = delivery.attempts[delivery.attempts.length - 1]
+  return (
+    <li className="rounded-lg border border-border">
+      <button
+        type="button"
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {open ? <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />}
+        <Badge variant="outline" className={`text-xs ${STATUS_STYLES[delivery.status]}`}>
+          {delivery.status}
+        </Badge>
+        <span className="font-mono text-foreground">{delivery.event}</span>
+        <span className="truncate text-muted-foreground">{delivery.webhook_url}</span>
+        <span className="ml-auto flex-shrink-0 tabular-nums text-muted-foreground">
+          {delivery.attempts.length}/{delivery.max_attempts} · {last?.status_code ?? '—'}
+        </span>
+      </button>
+
+      {open && (
+        <div className="border-t border-border px-3 py-2 space-y-2 text-xs">
+          <p className="text-muted-foreground">
+            <span className="font-mono">{delivery.id}</span> · created {formatTime(delivery.created_at)}
+            {delivery.next_retry_at && delivery.status === 'pending' && <> · next attempt {formatTime(delivery.next_retry_at)}</>}
+          </p>
+          {delivery.attempts.length === 0 && <p className="text-muted-foreground">No attempts yet</p>}
+          <ul className="space-y-1">
+            {delivery.attempts.map(attempt => (
+              <li key={attempt.attempt} className="space-y-0.5">
+                <p className="flex gap-2">
+                  <span className="text-muted-foreground">#{attempt.attempt}</span>
+                  <span className="text-muted-foreground">{formatTime(attempt.at)}</span>
+                  <span className={attempt.error ? 'text-red-400' : 'text-green-400'}>
+                    {attempt.status_code ?? 'no response'}
+                  </span>
+                  <span className="tabular-nums text-muted-foreground">{attempt.duration_ms} ms</span>
+                  {attempt.error && <span className="text-red-300">{attempt.error}</span>}
+                </p>
+              </li>
+            ))}
+          </ul>
+          <details>
+            <summary className="cursor-pointer text-muted-foreground">Payload</summary>
+            <pre className="mt-1 max-h-48 overflow-auto rounded bg-secondary/50 px-2 py-1 text-[11px] text-muted-foreground whitespace-pre-wrap break-all">
+              {JSON.stringify(delivery.payload, null, 2)}
+            </pre>
+          </details>
+        </div>
+      )}
+    </li>
+  )
+}
+
+/** Register webhooks, send test pings and inspect the delivery log */
+export function WebhookManager() {
+  const { webhooks, deliveries, loading, error, needsToken, loadWebhooks, loadDeliveries, create, update, remove, test } =
+    useWebhooks()
+  const [url, setUrl] = React.useState('')
+  const [description, setDescription] = React.useState('')
+  const [agentId, setAgentId] = React.useState('')
+  const [events, setEvents] = React.useState<WebhookEvent[]>(['job.completed', 'job.failed'])
+  const [creating, setCreating] = React.useState(false)
+  const [formError, setFormError] = React.useState<string | null>(null)
+  const [newSecret, setNewSecret] = React.useState<{ webhookId: string; secret: string } | null>(null)
+  const [copied, setCopied] = React.useState(false)
+  const [filterId, setFilterId] = React.useState<string | undefined>(undefined)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [rowError, setRowError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    loadWebhooks()
+  }, [loadWebhooks])
+
+  React.useEffect(() => {
+    loadDeliveries(filterId)
+  }, [loadDeliveries, filterId])
+
+  // Follow retries without a manual refresh
+  const hasPending = deliveries.some(d => d.status === 'pending')
+  React.useEffect(() => {
+    if (!hasPending) return
+    const timer = setInterval(() => loadDeliveries(filterId), PENDING_REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [hasPending, loadDeliveries, filterId])
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents(prev => (checked ? Array.from(new Set([...prev, event])) : prev.filter(e => e !== event)))
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setCreating(true)
+    setFormError(null)
+    const result = await create({ webhook_url: url.trim(), description, agent_id: agentId, events })
+    setCreating(false)
+    if (!result.success || !result.webhook || !result.secret) {
+      setFormError([result.error, result.details].filter(Boolean).join(': ') || 'Failed to create webhook')
+      return
+    }
+    setNewSecret({ webhookId: result.webhook.id, secret: result.secret })
+    setCopied(false)
+    setUrl('')
+    setDescription('')
+    setAgentId('')
+  }
+
+  const handleCopySecret = async () => {
+    if (!newSecret) return
+    try {
+      await navigator.clipboard.writeText(newSecret.secret)
+      setCopied(true)
+    } catch {
+      // Clipboard access denied; the secret stays visible for manual copying
+    }
+  }
+
+  const handleTokenSaved = () => {
+    loadWebhooks()
+    loadDeliveries(filterId)
+  }
+
+  const runRowAction = async (webhookId: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusyId(webhookId)
+    setRowError(null)
+    const result = await action()
+    setBusyId(null)
+    if (!result.success) setRowError(result.error || 'Request failed')
+    // Stats (trigger count, last result) change after a test delivery
+    await loadWebhooks()
+  }
+
+  if (needsToken) return <AdminTokenPrompt onSaved={handleTokenSaved} />
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <Card className="bg-card border-border shadow-lg">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold text-foreground flex items-center gap-2">
+              <Plus className="w-4 h-4 text-muted-foreground" />
+              New Webhook
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form className="space-y-3" onSubmit={handleCreate}>
+              <div className="space-y-1.5">
+                <Label htmlFor="webhook-url" className="text-xs text-muted-foreground">Receiver URL</Label>
+                <Input
+                  id="webhook-url"
+                  type="url"
+                  required
+                  placeholder="https://dam.example.com/hooks/style-transfer"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="webhook-description" className="text-xs text-muted-foreground">Description</Label>
+                <Input
+                  id="webhook-description"
+                  placeholder="DAM ingestion"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="webhook-agent" className="text-xs text-muted-foreground">Agent ID (optional, blank for all agents)</Label>
+                <Input id="webhook-agent" value={agentId} onChange={(e) => setAgentId(e.target.value)} />
+              </div>
+              <div className="flex items-center gap-4">
+                {WEBHOOK_EVENT_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+                    <Checkbox
+                      checked={events.includes(option.value)}
+                      onCheckedChange={(checked) => toggleEvent(option.value, checked === true)}
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+              {formError && <p className="text-xs text-red-400">{formError}</p>}
+              <Button type="submit" disabled={creating || !url.trim() || events.length === 0} className="w-full">
+                {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                Add Webhook
+              </Button>
+            </form>
+
+            {newSecret && (
+              <div className="mt-4 space-y-2 rounded-lg border border-yellow-500/30 bg-yellow-500/5 px-3 py-2">
+                <p className="flex items-center gap-2 text-xs text-yellow-300">
+                  <KeyRound className="w-3.5 h-3.5" />
+                  Signing secret for {newSecret.webhookId}. It is shown only once.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 truncate rounded bg-secondary/50 px-2 py-1 text-xs font-mono">{newSecret.secret}</code>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={handleCopySecret} aria-label="Copy secret">
+                    {copied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Copy className="w-3.5 h-3.5" />}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Verify deliveries with HMAC-SHA256(secret, &quot;&lt;X-Webhook-Timestamp&gt;.&lt;body&gt;&quot;) against X-Webhook-Signature.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-card border-border shadow-lg">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-semibold text-foreground">Webhooks</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading && webhooks.length === 0 && (
+              <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                Loading webhooks...
+              </p>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            {rowError && <p className="text-xs text-red-400">{rowError}</p>}
+            {!loading && webhooks.length === 0 && !error && (
+              <p className="text-xs text-muted-foreground">No webhooks yet. Jobs from /api/v1/transform will notify them.</p>
+            )}
+            <ul className="space-y-2">
+              {webhooks.map(webhook => (
+                <li key={webhook.id} className="rounded-lg border border-border px-3 py-2 space-y-1.5">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={webhook.is_active}
+                      disabled={busyId === webhook.id}
+                      onCheckedChange={(checked) => runRowAction(webhook.id, () => update(webhook.id, { is_active: checked }))}
+                      aria-label={webhook.is_active ? 'Deactivate webhook' : 'Activate webhook'}
+                    />
+                    <span className="truncate text-sm text-foreground" title={webhook.webhook_url}>
+                      {webhook.description || webhook.webhook_url}
+                    </span>
+                    <div className="ml-auto flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={busyId === webhook.id}
+                        onClick={() => runRowAction(webhook.id, () => test(webhook.id))}
+                        aria-label="Send test delivery"
+                        title="Send test"
+                      >
+                        {busyId === webhook.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={busyId === webhook.id}
+                        onClick={() => runRowAction(webhook.id, () => remove(webhook.id))}
+                        aria-label="Delete webhook"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="truncate text-xs font-mono text-muted-foreground">{webhook.webhook_url}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {(webhook.events || []).map(event => (
+                      <Badge key={event} variant="secondary" className="text-xs bg-secondary text-muted-foreground">
+                        {event}
+                      </Badge>
+                    ))}
+                    {webhook.agent_id && <span className="font-mono">agent {webhook.agent_id}</span>}
+                    <span>
+                      {webhook.trigger_count} sent
+                      {webhook.last_trigger_success !== null && (
+                        <span className={webhook.last_trigger_success ? 'text-green-400' : 'text-red-400'}>
+                          {' '}· last {webhook.last_trigger_success ? 'succeeded' : 'failed'} {formatTime(webhook.last_triggered_at)}
+                        </span>
+                      )}
+                    </span>
+                    <button
+                      type="button"
+                      className={`ml-auto underline-offset-2 hover:underline ${filterId === webhook.id ? 'text-foreground' : ''}`}
+                      onClick={() => setFilterId(prev => (prev === webhook.id ? undefined : webhook.id))}
+                    >
+                      {filterId === webhook.id ? 'Show all deliveries' : 'Deliveries'}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="bg-card border-border shadow-lg">
+        <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base font-semibold text-foreground">
+            Delivery Log
+            {filterId && <span className="ml-2 text-xs font-normal font-mono text-muted-foreground">{filterId}</span>}
+          </CardTitle>
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => loadDeliveries(filterId)} aria-label="Refresh deliveries">
+            <RefreshCw className="w-3.5 h-3.5" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No deliveries yet. Use the send button to ping a receiver.</p>
+          ) : (
+            <ul className="space-y-2">
+              {deliveries.map(delivery => (
+                <DeliveryRow key={delivery.id} delivery={delivery} />
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
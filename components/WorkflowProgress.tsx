@@ -0,0 +1,54 @@
+'use client'
+
+import * as React from 'react'
+import { Check, Circle, Loader2, X, Minus } from 'lucide-react'
+import type { NodeRunState, NodeStatus, WorkflowGraph } from '@/lib/workflowEngine'
+
+interface WorkflowProgressProps {
+  graph: WorkflowGraph
+  statuses: Record<string, NodeRunState>
+}
+
+const STATUS_STYLES: Record<NodeStatus, string> = {
+  pending: 'text-muted-foreground/60',
+  running: 'text-[hsl(262,70%,65%)]',
+  completed: 'text-green-400',
+  failed: 'text-red-400',
+  skipped: 'text-muted-foreground/40',
+  cancelled: 'text-muted-foreground/40',
+}
+
+function StatusIcon({ status }: { status: NodeStatus }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="w-3 h-3 animate-spin" />
+    case 'completed':
+      return <Check className="w-3 h-3" />
+    case 'failed':
+      return <X className="w-3 h-3" />
+    case 'skipped':
+    case 'cancelled':
+      return <Minus className="w-3 h-3" />
+    default:
+      return <Circle className="w-3 h-3" />
+  }
+}
+
+/** One row per workflow node with its live status and duration */
+export function WorkflowProgress({ graph, statuses }: WorkflowProgressProps) {
+  return (
+    <ol className="space-y-1">
+      {graph.nodes.map(node => {
+        const state = statuses[node.id] ?? { status: 'pending' as NodeStatus }
+        const duration = state.startedAt && state.finishedAt ? `${((state.finishedAt - state.startedAt) / 1000).toFixed(1)}s` : null
+        return (
+          <li key={node.id} className={`flex items-center gap-2 text-xs ${STATUS_STYLES[state.status]}`}>
+            <StatusIcon status={state.status} />
+            <span className="flex-1 truncate">{node.label}</span>
+            {duration && <span className="tabular-nums text-muted-foreground/60">{duration}</span>}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
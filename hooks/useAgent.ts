@@ -44,6 +44,7 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  signal?: AbortSignal
 }
 
 interface UseAgentResult {
@@ -51,6 +52,7 @@ interface UseAgentResult {
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
+  cancelled?: boolean
 }
 
 // =============================================================================
@@ -124,7 +126,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
+    const { message, agentId, userId, sessionId, signal } = callOptions
     const finalAgentId = agentId || options.agentId || process.env.NEXT_PUBLIC_AGENT_ID
 
     if (!finalAgentId) {
@@ -145,8 +147,18 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal,
       })
 
+      // Cancelled by the caller — not an error worth reporting
+      if (result.cancelled) {
+        return {
+          success: false,
+          response: result.response,
+          cancelled: true,
+        }
+      }
+
       setLastResult(result)
       setResponse(result.response)
 
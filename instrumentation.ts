@@ -0,0 +1,15 @@
+/**
+ * Next.js instrumentation hook — runs once when the server starts.
+ *
+ * Starts the minute timers of the local scheduler and of watch-folder
+ * ingestion up front, so they fire even before the first API request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+  if (process.env.SCHEDULER_BACKEND === 'local') {
+    const { startLocalScheduler } = await import('@/lib/localScheduler')
+    startLocalScheduler()
+  }
+  const { startIngestion } = await import('@/lib/ingestionStore')
+  startIngestion()
+}
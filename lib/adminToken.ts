@@ -0,0 +1,41 @@
+'use client'
+
+/**
+ * Admin Token
+ *
+ * The webhook and ingestion routes require API_ADMIN_TOKEN. Their management
+ * pages ask for it once and keep it in sessionStorage, so it is forgotten when
+ * the tab closes, and send it as a bearer token on every call.
+ */
+
+const STORAGE_KEY = 'lyzr-admin-token'
+
+export function getAdminToken(): string {
+  if (typeof window === 'undefined') return ''
+  try {
+    return window.sessionStorage.getItem(STORAGE_KEY) || ''
+  } catch {
+    return ''
+  }
+}
+
+export function setAdminToken(token: string) {
+  try {
+    if (token) window.sessionStorage.setItem(STORAGE_KEY, token)
+    else window.sessionStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Storage blocked (private mode / iframe) — the token has to be entered again
+  }
+}
+
+/**
+ * fetch with the stored admin token attached. Unlike fetchWrapper this never
+ * prompts for a reload: 401 and 503 are expected answers here and the caller
+ * shows them inline.
+ */
+export function adminFetch(input: string, init?: RequestInit): Promise<Response> {
+  const headers = new Headers(init?.headers)
+  const token = getAdminToken()
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+  return fetch(input, { ...init, headers })
+}
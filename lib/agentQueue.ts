@@ -0,0 +1,412 @@
+/**
+ * Agent Task Queue
+ * Server-side utility for /api/agent — in-process, per server instance.
+ *
+ * Submits are queued instead of forwarded straight to Lyzr. A queued task is
+ * sent upstream once
+ *   - the agent and the caller each have fewer than their cap of tasks running
+ *     (a task runs from submit until a poll sees it finish, it is cancelled or
+ *     nobody polled it for ACTIVE_LEASE_MS), and
+ *   - the token bucket shared by all callers has a token.
+ * The client gets a queue ticket as its task_id and polls it like a Lyzr task;
+ * while waiting, polls answer `processing` with the ticket's queue position.
+ * A waiting ticket nobody polled for WAITING_LEASE_MS is dropped as abandoned.
+ * Lyzr 429s are retried with backoff (Lyzr's Retry-After when it sends one) and
+ * empty the bucket so other queued tasks back off too. When the queue is full,
+ * submits are rejected with 429 and a Retry-After estimate.
+ *
+ * Server-side callers (API transform jobs, ingestion, the local scheduler) go
+ * through the same queue with runQueuedTask, under a fixed `server:` user key.
+ */
+
+import crypto from 'crypto'
+import { cancelledTaskResult, fetchTaskStatus, markTaskCancelled, resolveTaskIds, submitLyzrTask } from '@/lib/lyzrTask'
+import { recordRunFinished } from '@/lib/runLog'
+import type { TaskPollResult, TaskSubmitInput, TaskSubmitResult } from '@/lib/lyzrTask'
+
+function envInt(name: string, fallback: number, min = 1): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= min ? Math.floor(value) : fallback
+}
+
+const MAX_RUNNING_PER_AGENT = envInt('AGENT_QUEUE_MAX_PER_AGENT', 4)
+const MAX_RUNNING_PER_USER = envInt('AGENT_QUEUE_MAX_PER_USER', 2)
+const MAX_WAITING = envInt('AGENT_QUEUE_MAX_WAITING', 100)
+const MAX_WAITING_PER_USER = envInt('AGENT_QUEUE_MAX_WAITING_PER_USER', 20)
+/** Token bucket: upstream submits per minute, and how many may go out back to back */
+const RATE_PER_MINUTE = envInt('AGENT_QUEUE_RATE_PER_MINUTE', 60)
+const BURST = envInt('AGENT_QUEUE_BURST', 10)
+const MAX_UPSTREAM_RETRIES = envInt('AGENT_QUEUE_UPSTREAM_RETRIES', 3, 0)
+const UPSTREAM_RETRY_BASE_MS = 2000
+const MAX_UPSTREAM_RETRY_MS = 60 * 1000
+/** runQueuedTask: poll interval, and how long a task may run once it left the queue */
+const SERVER_POLL_INTERVAL_MS = 2000
+const SERVER_TIMEOUT_MS = 5 * 60 * 1000
+
+/** Longer than the client's 5 minute poll timeout */
+const ACTIVE_LEASE_MS = 6 * 60 * 1000
+/** Clients poll at least every few seconds; a reload resumes polling well within this */
+const WAITING_LEASE_MS = 60 * 1000
+/** How long a settled ticket can still be polled; cancelled ones keep answering `cancelled` */
+const SETTLED_TTL_MS = 15 * 60 * 1000
+const TICKET_PREFIX = 'queue_'
+
+// Types
+type TicketState = 'waiting' | 'submitting' | 'running' | 'settled'
+
+interface Ticket {
+  id: string
+  input: TaskSubmitInput & { user_id: string; session_id: string }
+  user_key: string
+  state: TicketState
+  enqueued_at: number
+  /** Upstream submits made so far */
+  attempts: number
+  /** Earliest next submit, after an upstream 429 */
+  not_before: number
+  /** Lyzr's task id once submitted */
+  task_id: string | null
+  /** Last poll, or upstream submit */
+  touched_at: number
+  settled_at: number | null
+  cancelled: boolean
+  /** Why the submit failed for good */
+  failure: TaskSubmitResult | null
+}
+
+export interface EnqueueResult {
+  success: boolean
+  status: number
+  /** The queue ticket, polled like a Lyzr task id */
+  task_id?: string
+  user_id?: string
+  session_id?: string
+  queue_position?: number
+  error?: string
+  /** Seconds to wait before submitting again, with a 429 */
+  retry_after?: number
+}
+
+const tickets = new Map<string, Ticket>()
+/** FIFO; a task retried after a 429 goes back to the front */
+const waiting: Ticket[] = []
+const bucket = { tokens: BURST, refilled_at: Date.now() }
+let wakeTimer: ReturnType<typeof setTimeout> | null = null
+
+// ---------------------------------------------------------------------------
+// Scheduling
+// ---------------------------------------------------------------------------
+
+function refillBucket(now: number) {
+  const refill = ((now - bucket.refilled_at) / 60_000) * RATE_PER_MINUTE
+  bucket.tokens = Math.min(BURST, bucket.tokens + refill)
+  bucket.refilled_at = now
+}
+
+function settle(ticket: Ticket, now = Date.now()) {
+  ticket.state = 'settled'
+  ticket.settled_at = now
+}
+
+/** Drop waiting tickets and free slots nobody polls anymore; forget old settled tickets */
+function sweep(now: number) {
+  tickets.forEach((ticket, id) => {
+    if (ticket.state === 'waiting' && now - ticket.touched_at > WAITING_LEASE_MS) {
+      waiting.splice(waiting.indexOf(ticket), 1)
+      ticket.cancelled = true
+      settle(ticket, now)
+    }
+    if (ticket.state === 'running' && now - ticket.touched_at > ACTIVE_LEASE_MS) settle(ticket, now)
+    if (ticket.state === 'settled' && now - (ticket.settled_at ?? now) > SETTLED_TTL_MS) tickets.delete(id)
+  })
+}
+
+function runningCounts() {
+  const byAgent = new Map<string, number>()
+  const byUser = new Map<string, number>()
+  tickets.forEach(ticket => {
+    if (ticket.state !== 'submitting' && ticket.state !== 'running') return
+    byAgent.set(ticket.input.agent_id, (byAgent.get(ticket.input.agent_id) ?? 0) + 1)
+    byUser.set(ticket.user_key, (byUser.get(ticket.user_key) ?? 0) + 1)
+  })
+  return { byAgent, byUser }
+}
+
+/** Send every waiting task that fits the caps and the bucket, in queue order */
+function pump() {
+  const now = Date.now()
+  sweep(now)
+  refillBucket(now)
+  const { byAgent, byUser } = runningCounts()
+
+  for (let i = 0; i < waiting.length && bucket.tokens >= 1; ) {
+    const ticket = waiting[i]
+    const agentId = ticket.input.agent_id
+    if (
+      ticket.not_before > now ||
+      (byAgent.get(agentId) ?? 0) >= MAX_RUNNING_PER_AGENT ||
+      (byUser.get(ticket.user_key) ?? 0) >= MAX_RUNNING_PER_USER
+    ) {
+      i++
+      continue
+    }
+    waiting.splice(i, 1)
+    bucket.tokens -= 1
+    byAgent.set(agentId, (byAgent.get(agentId) ?? 0) + 1)
+    byUser.set(ticket.user_key, (byUser.get(ticket.user_key) ?? 0) + 1)
+    ticket.state = 'submitting'
+    submit(ticket)
+  }
+  scheduleWake(now)
+}
+
+/** Pump again when the next token, retry or lease expiry could unblock a waiting task */
+function scheduleWake(now: number) {
+  if (wakeTimer) clearTimeout(wakeTimer)
+  wakeTimer = null
+  if (waiting.length === 0) return
+
+  const wakeAt: number[] = []
+  if (bucket.tokens < 1) wakeAt.push(now + ((1 - bucket.tokens) / RATE_PER_MINUTE) * 60_000)
+  for (const ticket of waiting) {
+    if (ticket.not_before > now) wakeAt.push(ticket.not_before)
+  }
+  tickets.forEach(ticket => {
+    if (ticket.state === 'running') wakeAt.push(ticket.touched_at + ACTIVE_LEASE_MS)
+  })
+  if (wakeAt.length === 0) return
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null
+    pump()
+  }, Math.max(50, Math.min(...wakeAt) - now))
+}
+
+async function submit(ticket: Ticket) {
+  ticket.attempts++
+  let result: TaskSubmitResult
+  try {
+    // Upstream retries after a 429 count on top of the caller's own attempt number
+    const run = ticket.input.run
+    result = await submitLyzrTask({
+      ...ticket.input,
+      run: { ...run, source: run?.source ?? 'adhoc', attempt: (run?.attempt ?? 1) + ticket.attempts - 1 },
+    })
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Task submit failed'
+    result = { success: false, httpStatus: 502, user_id: ticket.input.user_id, session_id: ticket.input.session_id, error: message }
+  }
+
+  const now = Date.now()
+  ticket.touched_at = now
+  if (ticket.cancelled) {
+    // Cancelled while the submit was in flight
+    if (result.task_id) {
+      ticket.task_id = result.task_id
+      cancelUpstream(result.task_id)
+    }
+  } else if (result.success && result.task_id) {
+    ticket.task_id = result.task_id
+    ticket.state = 'running'
+  } else if (result.httpStatus === 429 && ticket.attempts <= MAX_UPSTREAM_RETRIES) {
+    const backoff = result.retryAfterMs ?? UPSTREAM_RETRY_BASE_MS * 2 ** (ticket.attempts - 1)
+    ticket.not_before = now + Math.min(backoff, MAX_UPSTREAM_RETRY_MS)
+    ticket.state = 'waiting'
+    waiting.unshift(ticket)
+    bucket.tokens = 0
+  } else {
+    ticket.failure = result
+    settle(ticket, now)
+  }
+  pump()
+}
+
+/** Stop polling a submitted task and close its run log entry, which no poll will reach now */
+function cancelUpstream(task_id: string) {
+  markTaskCancelled(task_id)
+  recordRunFinished(task_id, { state: 'cancelled', httpStatus: 200 })
+}
+
+/** Seconds until, at the rate limit, the tasks ahead of a new submit have gone out */
+function retryAfterSeconds(ahead: number): number {
+  return Math.min(300, Math.max(1, Math.ceil((ahead / RATE_PER_MINUTE) * 60)))
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isQueueTicket(task_id: string): boolean {
+  return task_id.startsWith(TICKET_PREFIX)
+}
+
+/**
+ * Queue a task for `user_key` (the caller's address). Rejects with a 429 when
+ * the queue, or the caller's share of it, is full.
+ */
+export function enqueueAgentTask(input: TaskSubmitInput, user_key: string): EnqueueResult {
+  if (waiting.length >= MAX_WAITING) {
+    return { success: false, status: 429, error: 'The agent queue is full', retry_after: retryAfterSeconds(waiting.length) }
+  }
+  const userWaiting = waiting.filter(t => t.user_key === user_key).length
+  if (userWaiting >= MAX_WAITING_PER_USER) {
+    return {
+      success: false,
+      status: 429,
+      error: `You already have ${userWaiting} agent tasks waiting`,
+      // Room opens when the caller's oldest waiting task goes out
+      retry_after: retryAfterSeconds(waiting.findIndex(t => t.user_key === user_key) + 1),
+    }
+  }
+
+  const now = Date.now()
+  const ticket: Ticket = {
+    id: `${TICKET_PREFIX}${crypto.randomBytes(12).toString('hex')}`,
+    // Fixed now so the client knows its session before the task reaches Lyzr
+    input: { ...input, ...resolveTaskIds(input) },
+    user_key,
+    state: 'waiting',
+    enqueued_at: now,
+    attempts: 0,
+    not_before: 0,
+    task_id: null,
+    touched_at: now,
+    settled_at: null,
+    cancelled: false,
+    failure: null,
+  }
+  tickets.set(ticket.id, ticket)
+  waiting.push(ticket)
+  pump()
+
+  return {
+    success: true,
+    status: 200,
+    task_id: ticket.id,
+    user_id: ticket.input.user_id,
+    session_id: ticket.input.session_id,
+    queue_position: queuePosition(ticket),
+  }
+}
+
+/** 1-based place among waiting tasks; 0 once it left the queue */
+function queuePosition(ticket: Ticket): number {
+  return waiting.indexOf(ticket) + 1
+}
+
+/**
+ * Poll a queue ticket like a Lyzr task. Waiting tickets answer `processing`
+ * with their `queue_position`; submitted ones poll Lyzr and free their slot on
+ * the first terminal answer.
+ */
+export async function fetchQueuedTaskStatus(ticket_id: string): Promise<TaskPollResult> {
+  const ticket = tickets.get(ticket_id)
+  if (!ticket) {
+    const error = 'Queued task not found — it expired or the server restarted'
+    return {
+      state: 'failed',
+      httpStatus: 404,
+      body: { success: false, status: 'failed', response: { status: 'error', result: {}, message: error }, error },
+    }
+  }
+
+  // Answered here rather than by lyzrTask, whose cancel marks expire sooner than the ticket
+  if (ticket.cancelled) return cancelledTaskResult()
+
+  if (ticket.state === 'waiting' || ticket.state === 'submitting') {
+    ticket.touched_at = Date.now()
+    return {
+      state: 'processing',
+      httpStatus: 200,
+      body: { status: 'processing', queued: true, queue_position: queuePosition(ticket), attempts: ticket.attempts },
+    }
+  }
+
+  if (ticket.failure) {
+    const { failure } = ticket
+    const error = failure.error || 'Task submit failed'
+    return {
+      state: 'failed',
+      httpStatus: failure.httpStatus,
+      body: {
+        success: false,
+        status: 'failed',
+        response: { status: 'error', result: {}, message: error },
+        error,
+        raw_response: failure.raw_response,
+      },
+    }
+  }
+
+  ticket.touched_at = Date.now()
+  const poll = await fetchTaskStatus(ticket.task_id)
+  if (poll.state !== 'processing' && ticket.state === 'running') {
+    settle(ticket)
+    pump()
+  }
+  return poll
+}
+
+/** Drop a waiting ticket or stop polling its Lyzr task; either way its slot is freed */
+export function cancelQueuedTask(ticket_id: string) {
+  const ticket = tickets.get(ticket_id)
+  if (!ticket || ticket.cancelled) return
+  ticket.cancelled = true
+  const index = waiting.indexOf(ticket)
+  if (index >= 0) waiting.splice(index, 1)
+  if (ticket.task_id) cancelUpstream(ticket.task_id)
+  if (ticket.state !== 'settled') settle(ticket)
+  pump()
+}
+
+function failedPoll(httpStatus: number, error: string): TaskPollResult {
+  return {
+    state: 'failed',
+    httpStatus,
+    body: { success: false, status: 'failed', response: { status: 'error', result: {}, message: error }, error },
+  }
+}
+
+/**
+ * Queue a task for a server-side caller and wait for its result, like
+ * waitForTask does for a submitted Lyzr task. The timeout counts from when the
+ * task leaves the queue. `onSubmitted` gets Lyzr's task id as soon as there is
+ * one, so the caller can persist it and resume with waitForTask after a restart;
+ * `task_id` stays null when the task never reached Lyzr.
+ */
+export async function runQueuedTask(
+  input: TaskSubmitInput,
+  user_key: string,
+  options?: { onSubmitted?: (task: { task_id: string; session_id: string }) => Promise<void> | void }
+): Promise<{ task_id: string | null; session_id: string | null; poll: TaskPollResult }> {
+  const queued = enqueueAgentTask(input, user_key)
+  if (!queued.success) {
+    return { task_id: null, session_id: null, poll: failedPoll(queued.status, queued.error || 'The agent queue is full') }
+  }
+
+  const ticket = tickets.get(queued.task_id)!
+  let timeoutFrom = Date.now()
+  let notified = false
+  while (true) {
+    let poll: TaskPollResult | null = null
+    try {
+      poll = await fetchQueuedTaskStatus(ticket.id)
+    } catch (error) {
+      console.error('Queued agent task poll error:', error)
+    }
+    if (ticket.task_id && !notified) {
+      notified = true
+      await options?.onSubmitted?.({ task_id: ticket.task_id, session_id: queued.session_id })
+    }
+    if (poll && poll.state !== 'processing') {
+      return { task_id: ticket.task_id, session_id: queued.session_id, poll }
+    }
+
+    if (poll?.body.queued) timeoutFrom = Date.now()
+    else if (Date.now() - timeoutFrom > SERVER_TIMEOUT_MS) {
+      cancelQueuedTask(ticket.id)
+      const error = `Agent task timed out after ${Math.round(SERVER_TIMEOUT_MS / 60000)} minutes`
+      return { task_id: ticket.task_id, session_id: queued.session_id, poll: failedPoll(504, error) }
+    }
+    await new Promise(r => setTimeout(r, SERVER_POLL_INTERVAL_MS))
+  }
+}
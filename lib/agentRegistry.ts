@@ -0,0 +1,92 @@
+/**
+ * Agent Registry
+ * Server-side utility for API routes that need agent definitions.
+ *
+ * Agents come from `workflow_state.json`. Extra agents (e.g. a DALL-E variant
+ * of the style transformer) can be added without a code change through the
+ * LYZR_EXTRA_AGENTS env var — a JSON array in the same shape.
+ */
+
+import workflowState from '@/workflow_state.json'
+
+// Types
+export interface AgentDefinition {
+  name: string
+  agent_id: string
+  description: string
+  agent_type: string
+  model: string
+  provider: string
+  temperature?: number
+  top_p?: number
+  image_output_config?: { model?: string; [key: string]: unknown } | null
+  file_output?: boolean
+  voice_config?: unknown
+  tool_configs?: unknown[]
+  managed_agents?: unknown[]
+}
+
+/** The fields the browser needs — safe to return from /api/agents */
+export interface AgentSummary {
+  agent_id: string
+  name: string
+  description: string
+  agent_type: string
+  model: string
+  provider: string
+  temperature: number | null
+  image_model: string | null
+}
+
+function loadExtraAgents(): AgentDefinition[] {
+  const raw = process.env.LYZR_EXTRA_AGENTS
+  if (!raw) return []
+  try {
+    const parsed = JSON.parse(raw)
+    if (!Array.isArray(parsed)) {
+      console.error('LYZR_EXTRA_AGENTS must be a JSON array')
+      return []
+    }
+    return parsed.filter((agent: any) => agent && typeof agent.agent_id === 'string' && typeof agent.name === 'string')
+  } catch (error) {
+    console.error('LYZR_EXTRA_AGENTS is not valid JSON:', error)
+    return []
+  }
+}
+
+let agentsCache: AgentDefinition[] | null = null
+
+/** Every registered agent; workflow agents first, duplicates by agent_id dropped */
+export function listAgents(): AgentDefinition[] {
+  if (!agentsCache) {
+    const seen = new Set<string>()
+    agentsCache = [...(workflowState.agents as AgentDefinition[]), ...loadExtraAgents()].filter(agent => {
+      if (seen.has(agent.agent_id)) return false
+      seen.add(agent.agent_id)
+      return true
+    })
+  }
+  return agentsCache
+}
+
+export function getAgent(agentId: string): AgentDefinition | null {
+  return listAgents().find(agent => agent.agent_id === agentId) ?? null
+}
+
+/** Agents that produce images — the ones the style transformer UI can pick from */
+export function listImageAgents(): AgentDefinition[] {
+  return listAgents().filter(agent => agent.agent_type === 'image' || !!agent.image_output_config)
+}
+
+export function toAgentSummary(agent: AgentDefinition): AgentSummary {
+  return {
+    agent_id: agent.agent_id,
+    name: agent.name,
+    description: agent.description,
+    agent_type: agent.agent_type,
+    model: agent.model,
+    provider: agent.provider,
+    temperature: agent.temperature ?? null,
+    image_model: agent.image_output_config?.model ?? null,
+  }
+}
@@ -0,0 +1,95 @@
+'use client'
+
+/**
+ * Agent Picker Client
+ *
+ * Loads the image agents registered on the server (/api/agents) and keeps
+ * the user's selection in localStorage.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { AgentSummary } from '@/lib/agentRegistry'
+import { AGENT_ID } from '@/lib/styleTransform'
+
+export type { AgentSummary }
+
+const SELECTED_KEY = 'lyzr-selected-agent'
+
+/** Shown until /api/agents responds */
+const PLACEHOLDER_AGENT: AgentSummary = {
+  agent_id: AGENT_ID,
+  name: 'Lyzr Style Transformer Agent',
+  description: '',
+  agent_type: 'image',
+  model: '',
+  provider: '',
+  temperature: null,
+  image_model: null,
+}
+
+export async function fetchImageAgents(): Promise<{ success: boolean; agents: AgentSummary[]; error?: string }> {
+  try {
+    const response = await fetch('/api/agents?type=image')
+    const data = await response.json()
+    if (!response.ok || !data.success) {
+      return { success: false, agents: [], error: data.error || `Failed to load agents (status ${response.status})` }
+    }
+    return { success: true, agents: data.agents }
+  } catch (error) {
+    return { success: false, agents: [], error: error instanceof Error ? error.message : 'Network error' }
+  }
+}
+
+/** "Google · gemini-2.0-flash-exp" style label for an agent's image model */
+export function describeAgentModel(agent: AgentSummary): string {
+  const model = agent.image_model || agent.model
+  return [agent.provider, model].filter(Boolean).join(' · ')
+}
+
+/** React hook listing image agents with a persisted selection */
+export function useAgents() {
+  const [agents, setAgents] = useState<AgentSummary[]>([PLACEHOLDER_AGENT])
+  const [selectedAgentId, setSelectedAgentIdState] = useState<string>(AGENT_ID)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const stored = window.localStorage.getItem(SELECTED_KEY)
+    if (stored) setSelectedAgentIdState(stored)
+    fetchImageAgents().then(result => {
+      if (cancelled) return
+      if (result.success && result.agents.length > 0) {
+        setAgents(result.agents)
+        setError(null)
+      } else {
+        setError(result.error || 'No image agents registered')
+      }
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const setSelectedAgentId = useCallback((id: string) => {
+    setSelectedAgentIdState(id)
+    try {
+      window.localStorage.setItem(SELECTED_KEY, id)
+    } catch {
+      // Non-fatal
+    }
+  }, [])
+
+  // A stored id may point at an agent that was removed from the registry
+  const selectedAgent = agents.find(a => a.agent_id === selectedAgentId) ?? agents[0]
+
+  return {
+    agents,
+    selectedAgent,
+    selectedAgentId: selectedAgent.agent_id,
+    setSelectedAgentId,
+    loading,
+    error,
+  }
+}
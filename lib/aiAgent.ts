@@ -14,6 +14,9 @@
  * if (result.success) {
  *   console.log(result.response.result)
  * }
+ *
+ * // Same call, but task progress arrives over Server-Sent Events
+ * const streamed = await streamAIAgent('Hello!', 'agent-id')
  * ```
  */
 
@@ -54,6 +57,7 @@ export interface AIAgentResponse {
   raw_response?: string
   error?: string
   details?: string
+  cancelled?: boolean
 }
 
 export interface UploadedFile {
@@ -73,115 +77,285 @@ export interface UploadResponse {
   message: string
   timestamp: string
   error?: string
+  cancelled?: boolean
 }
 
 const POLL_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
 
+export type SubmittedTask = { task_id: string; user_id?: string; session_id?: string }
+
+type AgentCallOptions = {
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  signal?: AbortSignal
+  /** Called once Lyzr accepted the task, before polling starts (e.g. to persist the task_id) */
+  onSubmitted?: (task: SubmittedTask) => void
+}
+
+function errorResponse(message: string): AIAgentResponse {
+  return {
+    success: false,
+    response: { status: 'error', result: {}, message },
+    error: message,
+  }
+}
+
+function cancelledResponse(): AIAgentResponse {
+  return { ...errorResponse('Agent call cancelled'), cancelled: true }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/** Resolve after `ms`, or early (without rejecting) when the signal aborts */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) return resolve()
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    signal?.addEventListener('abort', done)
+  })
+}
+
 /**
- * Call the AI Agent via server-side API route.
- * Submits an async task then polls from the client until completion.
+ * Tell the server a task was abandoned so it stops polling Lyzr for it.
+ * Fire-and-forget with keepalive so it survives page navigation.
  */
-export async function callAIAgent(
+function notifyTaskCancelled(task_id: string) {
+  fetch('/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ task_id, action: 'cancel' }),
+    keepalive: true,
+  }).catch(() => {
+    // Best effort — the server-side poll loop also stops when the client disconnects
+  })
+}
+
+/**
+ * Submit an async task — returns { task_id, agent_id, user_id, session_id }
+ * or a ready-made error response when the submit itself failed.
+ */
+async function submitAgentTask(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
-): Promise<AIAgentResponse> {
-  try {
-    // 1. Submit task — returns { task_id, agent_id, user_id, session_id }
-    const submitRes = await fetchWrapper('/api/agent', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        message,
-        agent_id,
-        user_id: options?.user_id,
-        session_id: options?.session_id,
-        assets: options?.assets,
-      }),
-    })
+  options?: AgentCallOptions
+): Promise<SubmittedTask | AIAgentResponse> {
+  const submitRes = await fetchWrapper('/api/agent', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      message,
+      agent_id,
+      user_id: options?.user_id,
+      session_id: options?.session_id,
+      assets: options?.assets,
+    }),
+    signal: options?.signal,
+  })
+
+  if (!submitRes) {
+    return errorResponse('No response from server')
+  }
 
-    if (!submitRes) {
-      return {
-        success: false,
-        response: { status: 'error', result: {}, message: 'No response from server' },
-        error: 'No response from server',
-      }
-    }
+  const submitData = await submitRes.json()
 
-    const submitData = await submitRes.json()
-
-    // If submit itself failed or no task_id returned, return as-is
-    if (!submitData.task_id) {
-      return submitData.success === false
-        ? submitData
-        : {
-            success: false,
-            response: { status: 'error', result: {}, message: 'No task_id in response' },
-            error: 'No task_id in response',
-          }
-    }
+  // If submit itself failed or no task_id returned, return as-is
+  if (!submitData.task_id) {
+    return submitData.success === false
+      ? submitData
+      : errorResponse('No task_id in response')
+  }
 
-    const { task_id, user_id, session_id } = submitData
+  return submitData
+}
 
-    // 2. Poll POST /api/agent with { task_id } — adaptive backoff from CSR
-    const startTime = Date.now()
-    let attempt = 0
+/**
+ * Poll POST /api/agent with { task_id } — adaptive backoff from CSR.
+ * The timeout counts from when the task leaves the server's agent queue; a
+ * timed-out task is cancelled so it doesn't keep its queue slot.
+ */
+async function pollAgentTask(
+  task_id: string,
+  startTime: number = Date.now(),
+  signal?: AbortSignal
+): Promise<AIAgentResponse> {
+  let attempt = 0
 
-    while (Date.now() - startTime < POLL_TIMEOUT_MS) {
-      const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
-      await new Promise(r => setTimeout(r, delay))
-      attempt++
+  while (Date.now() - startTime < POLL_TIMEOUT_MS) {
+    const delay = Math.min(300 * Math.pow(1.5, attempt), 3000)
+    await abortableDelay(delay, signal)
+    if (signal?.aborted) return cancelledResponse()
+    attempt++
 
-      const pollRes = await fetchWrapper('/api/agent', {
+    let pollRes: Response | undefined
+    try {
+      pollRes = await fetchWrapper('/api/agent', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ task_id }),
+        signal,
       })
-      if (!pollRes) {
-        continue // fetchWrapper returned undefined (redirect/error) — retry next poll
-      }
-      const pollData = await pollRes.json()
+    } catch (error) {
+      if (isAbortError(error)) return cancelledResponse()
+      throw error
+    }
+    if (!pollRes) {
+      continue // fetchWrapper returned undefined (redirect/error) — retry next poll
+    }
+    const pollData = await pollRes.json()
 
-      if (pollData.status === 'processing') {
-        continue
-      }
+    if (pollData.status === 'processing') {
+      if (pollData.queued) startTime = Date.now()
+      continue
+    }
 
-      // Completed or failed — attach agent_id/user_id/session_id and return
-      return {
-        ...pollData,
-        agent_id,
-        user_id,
-        session_id,
-      }
+    return pollData
+  }
+
+  // Timed out
+  notifyTaskCancelled(task_id)
+  return errorResponse('Agent task timed out after 5 minutes')
+}
+
+/**
+ * Follow a task over Server-Sent Events from GET /api/agent/stream.
+ * Resolves null if the stream breaks before a terminal event so the caller can fall back to polling.
+ */
+function streamAgentTask(task_id: string, signal?: AbortSignal): Promise<AIAgentResponse | null> {
+  return new Promise(resolve => {
+    const source = new EventSource(`/api/agent/stream?task_id=${encodeURIComponent(task_id)}`)
+    let settled = false
+
+    const finish = (value: AIAgentResponse | null) => {
+      if (settled) return
+      settled = true
+      source.close()
+      signal?.removeEventListener('abort', onAbort)
+      resolve(value)
     }
 
-    // Timed out
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: 'Agent task timed out after 5 minutes',
-      },
-      error: 'Agent task timed out after 5 minutes',
+    // Closing the EventSource disconnects the stream route, which stops its server-side poll loop
+    const onAbort = () => finish(cancelledResponse())
+    if (signal?.aborted) return onAbort()
+    signal?.addEventListener('abort', onAbort)
+
+    const onTerminal = (event: MessageEvent) => {
+      try {
+        finish(JSON.parse(event.data))
+      } catch {
+        finish(null)
+      }
     }
+
+    source.addEventListener('completed', onTerminal as EventListener)
+    source.addEventListener('failed', onTerminal as EventListener)
+    source.addEventListener('cancelled', onTerminal as EventListener)
+    // Connection dropped or endpoint unavailable — EventSource would auto-reconnect, we fall back instead
+    source.onerror = () => finish(null)
+  })
+}
+
+function networkError(error: unknown): AIAgentResponse {
+  if (isAbortError(error)) return cancelledResponse()
+  return errorResponse(error instanceof Error ? error.message : 'Network error')
+}
+
+/** Wait for a submitted task over SSE, falling back to polling; tells the server when abandoned */
+async function followAgentTask(
+  { task_id, user_id, session_id }: SubmittedTask,
+  agent_id: string,
+  signal?: AbortSignal
+): Promise<AIAgentResponse> {
+  const startTime = Date.now()
+
+  let result: AIAgentResponse | null = null
+  if (typeof EventSource !== 'undefined') {
+    result = await streamAgentTask(task_id, signal)
+  }
+  if (!result) {
+    result = await pollAgentTask(task_id, startTime, signal)
+  }
+  if (result.cancelled) notifyTaskCancelled(task_id)
+
+  return { ...result, agent_id, user_id, session_id }
+}
+
+/**
+ * Call the AI Agent via server-side API route.
+ * Submits an async task then polls from the client until completion.
+ * Pass `signal` to cancel — the call resolves with `cancelled: true` instead of throwing.
+ */
+export async function callAIAgent(
+  message: string,
+  agent_id: string,
+  options?: AgentCallOptions
+): Promise<AIAgentResponse> {
+  try {
+    const submitted = await submitAgentTask(message, agent_id, options)
+    if (!('task_id' in submitted)) return submitted
+
+    options?.onSubmitted?.(submitted)
+    const { task_id, user_id, session_id } = submitted
+    const result = await pollAgentTask(task_id, Date.now(), options?.signal)
+    if (result.cancelled) notifyTaskCancelled(task_id)
+
+    // Completed or failed — attach agent_id/user_id/session_id and return
+    return { ...result, agent_id, user_id, session_id }
   } catch (error) {
-    return {
-      success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: error instanceof Error ? error.message : 'Network error',
-      },
-      error: error instanceof Error ? error.message : 'Network error',
-    }
+    return networkError(error)
+  }
+}
+
+/**
+ * Call the AI Agent and follow the task over Server-Sent Events.
+ * Falls back to client-side polling when EventSource is unavailable or the stream drops.
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: AgentCallOptions
+): Promise<AIAgentResponse> {
+  try {
+    const submitted = await submitAgentTask(message, agent_id, options)
+    if (!('task_id' in submitted)) return submitted
+
+    options?.onSubmitted?.(submitted)
+    return await followAgentTask(submitted, agent_id, options?.signal)
+  } catch (error) {
+    return networkError(error)
+  }
+}
+
+/**
+ * Pick up a task submitted earlier (e.g. before a page reload) and wait for its result,
+ * over Server-Sent Events with the same polling fallback as streamAIAgent.
+ */
+export async function resumeAIAgent(
+  task: SubmittedTask,
+  agent_id: string,
+  options?: { signal?: AbortSignal }
+): Promise<AIAgentResponse> {
+  try {
+    return await followAgentTask(task, agent_id, options?.signal)
+  } catch (error) {
+    return networkError(error)
   }
 }
 
 /**
  * Upload files via server-side API route
  */
-export async function uploadFiles(files: File | File[]): Promise<UploadResponse> {
+export async function uploadFiles(
+  files: File | File[],
+  options?: { signal?: AbortSignal }
+): Promise<UploadResponse> {
   const fileArray = Array.isArray(files) ? files : [files]
 
   if (fileArray.length === 0) {
@@ -207,11 +381,26 @@ export async function uploadFiles(files: File | File[]): Promise<UploadResponse>
     const response = await fetchWrapper('/api/upload', {
       method: 'POST',
       body: formData,
+      signal: options?.signal,
     })
 
     const data = await response.json()
     return data
   } catch (error) {
+    if (isAbortError(error)) {
+      return {
+        success: false,
+        asset_ids: [],
+        files: [],
+        total_files: fileArray.length,
+        successful_uploads: 0,
+        failed_uploads: fileArray.length,
+        message: 'Upload cancelled',
+        timestamp: new Date().toISOString(),
+        error: 'Upload cancelled',
+        cancelled: true,
+      }
+    }
     return {
       success: false,
       asset_ids: [],
@@ -237,7 +426,7 @@ export function useAIAgent() {
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: AgentCallOptions
   ) => {
     setLoading(true)
     setError(null)
@@ -0,0 +1,151 @@
+'use client'
+
+/**
+ * Analytics Client Utility
+ *
+ * Client-side wrapper for /api/analytics, which aggregates the server's agent
+ * run log (ad hoc transforms, API jobs, watch-folder ingestion and local
+ * schedules) together with the remote scheduler's recent executions into runs
+ * over time, success rates, submit-to-completion latency percentiles, retry
+ * counts and the most frequent errors per agent.
+ */
+
+import { useState, useCallback } from 'react'
+import fetchWrapper from '@/lib/fetchWrapper'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where a run came from: the page, /api/v1/transform, a schedule or a watch folder */
+export type RunSource = 'adhoc' | 'api' | 'schedule' | 'ingest'
+
+export type RunStatus = 'processing' | 'completed' | 'failed' | 'cancelled'
+
+export interface AgentRun {
+  id: string
+  task_id: string | null
+  agent_id: string
+  source: RunSource
+  schedule_id: string | null
+  attempt: number
+  status: RunStatus
+  submitted_at: string
+  completed_at: string | null
+  /** Submit to first terminal poll; null when unknown (e.g. remote schedule executions) */
+  latency_ms: number | null
+  http_status: number | null
+  error: string | null
+}
+
+export type AnalyticsRange = '24h' | '7d' | '30d'
+
+export interface RunStats {
+  runs: number
+  succeeded: number
+  failed: number
+  cancelled: number
+  in_progress: number
+  /** succeeded / (succeeded + failed); null without finished runs */
+  success_rate: number | null
+  p50_ms: number | null
+  p95_ms: number | null
+  /** Runs that were a retry (attempt > 1) */
+  retries: number
+}
+
+export interface TimelineBucket extends RunStats {
+  /** Start of the hour or day */
+  start: string
+}
+
+export interface ErrorCount {
+  message: string
+  count: number
+  last_seen: string
+}
+
+export interface AgentAnalytics extends RunStats {
+  agent_id: string
+  top_errors: ErrorCount[]
+}
+
+export interface SourceAnalytics extends RunStats {
+  source: RunSource
+}
+
+export interface AnalyticsReport {
+  range: AnalyticsRange
+  from: string
+  to: string
+  bucket: 'hour' | 'day'
+  totals: RunStats
+  timeline: TimelineBucket[]
+  by_source: SourceAnalytics[]
+  by_agent: AgentAnalytics[]
+  /** Parts of the data that could not be loaded */
+  warnings: string[]
+}
+
+export const ANALYTICS_RANGES: { value: AnalyticsRange; label: string }[] = [
+  { value: '24h', label: 'Last 24 hours' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+]
+
+export const RUN_SOURCE_LABELS: Record<RunSource, string> = {
+  adhoc: 'Ad hoc',
+  api: 'API',
+  schedule: 'Scheduled',
+  ingest: 'Watch folder',
+}
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+export async function fetchAnalytics(params: {
+  range: AnalyticsRange
+  agentId?: string
+  source?: RunSource
+}): Promise<{ success: boolean; report?: AnalyticsReport; error?: string }> {
+  try {
+    const query = new URLSearchParams({ range: params.range })
+    if (params.agentId) query.set('agent_id', params.agentId)
+    if (params.source) query.set('source', params.source)
+    // Day buckets follow the browser's calendar days
+    query.set('utc_offset', String(-new Date().getTimezoneOffset()))
+    const res = await fetchWrapper(`/api/analytics?${query.toString()}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, report: data.report }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+export function useAnalytics() {
+  const [report, setReport] = useState<AnalyticsReport | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = useCallback(async (params: Parameters<typeof fetchAnalytics>[0]) => {
+    setLoading(true)
+    setError(null)
+    const result = await fetchAnalytics(params)
+    setLoading(false)
+    if (result.success && result.report) setReport(result.report)
+    else setError(result.error || 'Failed to load analytics')
+    return result
+  }, [])
+
+  return { report, loading, error, load }
+}
@@ -0,0 +1,202 @@
+/**
+ * Analytics Report
+ * Server-side utility for the /api/analytics route.
+ *
+ * Aggregates the agent run log (lib/runLog.ts) over a time window. With the
+ * remote scheduler backend, scheduled runs happen on the Lyzr service and never
+ * pass through this server, so its recent executions are merged in as
+ * `schedule` runs — without latency, which the service doesn't report. The
+ * local backend submits through lib/lyzrTask.ts and is already in the run log.
+ */
+
+import { readRuns } from '@/lib/runLog'
+import { getSchedulerBackend } from '@/lib/schedulerBackend'
+import type { ExecutionLog } from '@/lib/scheduler'
+import type {
+  AgentAnalytics,
+  AgentRun,
+  AnalyticsRange,
+  AnalyticsReport,
+  ErrorCount,
+  RunSource,
+  RunStats,
+  SourceAnalytics,
+  TimelineBucket,
+} from '@/lib/analytics'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+const RANGES: Record<AnalyticsRange, { ms: number; bucket: 'hour' | 'day' }> = {
+  '24h': { ms: DAY_MS, bucket: 'hour' },
+  '7d': { ms: 7 * DAY_MS, bucket: 'day' },
+  '30d': { ms: 30 * DAY_MS, bucket: 'day' },
+}
+
+const RUN_SOURCES: RunSource[] = ['adhoc', 'api', 'schedule', 'ingest']
+const TOP_ERRORS_PER_AGENT = 5
+/** The remote service pages its executions; enough for a month of hourly schedules */
+const MAX_REMOTE_EXECUTIONS = 1000
+
+// Types
+export interface AnalyticsParams {
+  range: AnalyticsRange
+  agentId?: string
+  source?: RunSource
+  /** Minutes east of UTC of the viewer, so day buckets follow their calendar */
+  utcOffset?: number
+}
+
+/** Nearest-rank percentile of ascending `sorted` */
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function summarize(runs: AgentRun[]): RunStats {
+  const latencies: number[] = []
+  const stats: RunStats = {
+    runs: runs.length,
+    succeeded: 0,
+    failed: 0,
+    cancelled: 0,
+    in_progress: 0,
+    success_rate: null,
+    p50_ms: null,
+    p95_ms: null,
+    retries: 0,
+  }
+  for (const run of runs) {
+    if (run.status === 'completed') stats.succeeded++
+    else if (run.status === 'failed') stats.failed++
+    else if (run.status === 'cancelled') stats.cancelled++
+    else stats.in_progress++
+    if (run.attempt > 1) stats.retries++
+    if (run.status === 'completed' && run.latency_ms != null) latencies.push(run.latency_ms)
+  }
+  const finished = stats.succeeded + stats.failed
+  if (finished > 0) stats.success_rate = stats.succeeded / finished
+  latencies.sort((a, b) => a - b)
+  stats.p50_ms = percentile(latencies, 50)
+  stats.p95_ms = percentile(latencies, 95)
+  return stats
+}
+
+function topErrors(runs: AgentRun[]): ErrorCount[] {
+  const counts = new Map<string, ErrorCount>()
+  for (const run of runs) {
+    if (!run.error || run.status === 'completed') continue
+    const seen = run.completed_at || run.submitted_at
+    const entry = counts.get(run.error)
+    if (!entry) counts.set(run.error, { message: run.error, count: 1, last_seen: seen })
+    else {
+      entry.count++
+      if (seen > entry.last_seen) entry.last_seen = seen
+    }
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || b.last_seen.localeCompare(a.last_seen))
+    .slice(0, TOP_ERRORS_PER_AGENT)
+}
+
+function groupBy<K>(runs: AgentRun[], key: (run: AgentRun) => K): Map<K, AgentRun[]> {
+  const groups = new Map<K, AgentRun[]>()
+  for (const run of runs) {
+    const k = key(run)
+    const group = groups.get(k)
+    if (group) group.push(run)
+    else groups.set(k, [run])
+  }
+  return groups
+}
+
+function executionToRun(execution: ExecutionLog): AgentRun {
+  return {
+    id: execution.id,
+    task_id: null,
+    agent_id: execution.agent_id,
+    source: 'schedule',
+    schedule_id: execution.schedule_id,
+    attempt: execution.attempt || 1,
+    status: execution.success ? 'completed' : 'failed',
+    submitted_at: execution.executed_at,
+    completed_at: execution.executed_at,
+    latency_ms: null,
+    http_status: execution.response_status ?? null,
+    error: execution.success ? null : execution.error_message || `HTTP ${execution.response_status}`,
+  }
+}
+
+/** Scheduled runs the remote scheduler made in the window; none plus a warning when unreachable */
+async function remoteScheduleRuns(params: AnalyticsParams, warnings: string[]): Promise<AgentRun[]> {
+  const backend = getSchedulerBackend()
+  if (backend.name !== 'remote') return []
+  const unavailable = backend.unavailableReason()
+  if (unavailable) {
+    warnings.push(`Scheduled runs not included: ${unavailable}`)
+    return []
+  }
+  const window = params.range === '24h' ? { hours: 24 } : { days: RANGES[params.range].ms / DAY_MS }
+  const result = await backend.recent({ ...window, agentId: params.agentId, limit: MAX_REMOTE_EXECUTIONS })
+  if (!result.success) {
+    warnings.push(`Scheduled runs not included: ${result.error || `scheduler returned ${result.status}`}`)
+    return []
+  }
+  const executions = (result.data?.executions as ExecutionLog[] | undefined) || []
+  const total = typeof result.data?.total === 'number' ? result.data.total : executions.length
+  if (total > executions.length) {
+    warnings.push(`Only the latest ${executions.length} of ${total} scheduled runs are included`)
+  }
+  return executions.map(executionToRun)
+}
+
+/** Start of the hour or the viewer's calendar day containing `time` */
+function bucketStart(time: number, bucket: 'hour' | 'day', offsetMs: number): number {
+  const size = bucket === 'hour' ? HOUR_MS : DAY_MS
+  return Math.floor((time + offsetMs) / size) * size - offsetMs
+}
+
+export async function buildAnalyticsReport(params: AnalyticsParams): Promise<AnalyticsReport> {
+  const { ms, bucket } = RANGES[params.range]
+  const offsetMs = (params.utcOffset ?? 0) * 60 * 1000
+  const to = Date.now()
+  const from = to - ms
+  const warnings: string[] = []
+
+  let runs = await readRuns()
+  if (!params.source || params.source === 'schedule') {
+    runs = runs.concat(await remoteScheduleRuns(params, warnings))
+  }
+  if (params.agentId) runs = runs.filter(run => run.agent_id === params.agentId)
+  if (params.source) runs = runs.filter(run => run.source === params.source)
+  runs = runs.filter(run => new Date(run.submitted_at).getTime() >= from)
+
+  const bySlot = groupBy(runs, run => bucketStart(new Date(run.submitted_at).getTime(), bucket, offsetMs))
+  const timeline: TimelineBucket[] = []
+  const step = bucket === 'hour' ? HOUR_MS : DAY_MS
+  for (let start = bucketStart(from, bucket, offsetMs); start <= to; start += step) {
+    timeline.push({ start: new Date(start).toISOString(), ...summarize(bySlot.get(start) || []) })
+  }
+
+  const bySource = groupBy(runs, run => run.source)
+  const by_source: SourceAnalytics[] = RUN_SOURCES.filter(source => bySource.has(source)).map(source => ({
+    source,
+    ...summarize(bySource.get(source)!),
+  }))
+
+  const by_agent: AgentAnalytics[] = Array.from(groupBy(runs, run => run.agent_id).entries())
+    .map(([agent_id, agentRuns]) => ({ agent_id, ...summarize(agentRuns), top_errors: topErrors(agentRuns) }))
+    .sort((a, b) => b.runs - a.runs)
+
+  return {
+    range: params.range,
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    bucket,
+    totals: summarize(runs),
+    timeline,
+    by_source,
+    by_agent,
+    warnings,
+  }
+}
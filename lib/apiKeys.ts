@@ -0,0 +1,234 @@
+/**
+ * Public API Keys
+ * Server-side utility for the /api/v1 routes.
+ *
+ * Keys are issued locally for internal tools and are unrelated to the
+ * server-wide LYZR_API_KEY. Only the SHA-256 of a key is stored; the
+ * plaintext is returned once, when the key is created. Each key carries an
+ * optional daily and monthly quota of transform jobs (UTC calendar periods).
+ *
+ * Stored in DATA_DIR/api-keys.json. Key management is guarded by the
+ * API_ADMIN_TOKEN env var.
+ */
+
+import crypto from 'crypto'
+import { dataPath, readJsonFile, updateJsonFile } from '@/lib/serverData'
+
+const KEYS_FILE = dataPath('api-keys.json')
+const KEY_PREFIX = 'lst'
+
+// Types
+export interface ApiKeyQuota {
+  /** Jobs per UTC day; null = unlimited */
+  daily: number | null
+  /** Jobs per UTC month; null = unlimited */
+  monthly: number | null
+}
+
+export interface ApiKeyUsage {
+  day: string
+  day_count: number
+  month: string
+  month_count: number
+  total: number
+}
+
+export interface ApiKeyRecord {
+  id: string
+  name: string
+  /** First characters of the key, shown in listings to tell keys apart */
+  prefix: string
+  hash: string
+  quota: ApiKeyQuota
+  usage: ApiKeyUsage
+  created_at: string
+  last_used_at: string | null
+  revoked_at: string | null
+}
+
+/** A key as returned by the admin routes — never includes the hash */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'hash'>
+
+/** Authenticated key, or the error and HTTP status the route should answer with */
+export interface ApiKeyAuth {
+  success: boolean
+  status: number
+  key?: ApiKeyRecord
+  error?: string
+  headers?: Record<string, string>
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+function readKeys(): Promise<ApiKeyRecord[]> {
+  return readJsonFile<ApiKeyRecord[]>(KEYS_FILE, [])
+}
+
+function updateKeys<T>(mutate: (keys: ApiKeyRecord[]) => T): Promise<T> {
+  return updateJsonFile<ApiKeyRecord[], T>(KEYS_FILE, [], mutate)
+}
+
+function periods(now: Date) {
+  const iso = now.toISOString()
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) }
+}
+
+export function toApiKeySummary(record: ApiKeyRecord): ApiKeySummary {
+  const { hash: _hash, ...summary } = record
+  return summary
+}
+
+// ---------------------------------------------------------------------------
+// Key management
+// ---------------------------------------------------------------------------
+
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  return (await readKeys()).map(toApiKeySummary)
+}
+
+/** Issue a key. The plaintext `key` is only ever available in this result. */
+export async function createApiKey(input: {
+  name: string
+  daily_quota?: number | null
+  monthly_quota?: number | null
+}): Promise<{ key: string; record: ApiKeySummary }> {
+  const id = crypto.randomBytes(6).toString('hex')
+  const key = `${KEY_PREFIX}_${id}_${crypto.randomBytes(24).toString('base64url')}`
+  const now = new Date()
+  const { day, month } = periods(now)
+  const record: ApiKeyRecord = {
+    id,
+    name: input.name.trim(),
+    prefix: key.slice(0, KEY_PREFIX.length + 1 + id.length),
+    hash: sha256(key),
+    quota: { daily: input.daily_quota ?? null, monthly: input.monthly_quota ?? null },
+    usage: { day, day_count: 0, month, month_count: 0, total: 0 },
+    created_at: now.toISOString(),
+    last_used_at: null,
+    revoked_at: null,
+  }
+  await updateKeys(keys => {
+    keys.push(record)
+  })
+  return { key, record: toApiKeySummary(record) }
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeySummary | null> {
+  return updateKeys(keys => {
+    const record = keys.find(k => k.id === id)
+    if (!record) return null
+    record.revoked_at = record.revoked_at ?? new Date().toISOString()
+    return toApiKeySummary(record)
+  })
+}
+
+// ---------------------------------------------------------------------------
+// Request authentication
+// ---------------------------------------------------------------------------
+
+/** `Authorization: Bearer <key>` or `x-api-key: <key>` */
+function readPresentedKey(headers: Headers): string | null {
+  const auth = headers.get('authorization')
+  if (auth?.toLowerCase().startsWith('bearer ')) return auth.slice(7).trim()
+  return headers.get('x-api-key')?.trim() || null
+}
+
+function hashesMatch(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex')
+  const right = Buffer.from(b, 'hex')
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+async function findKey(presented: string | null): Promise<ApiKeyAuth> {
+  if (!presented) {
+    return { success: false, status: 401, error: 'Missing API key (Authorization: Bearer <key> or x-api-key)' }
+  }
+  const hash = sha256(presented)
+  const record = (await readKeys()).find(k => hashesMatch(k.hash, hash))
+  if (!record) return { success: false, status: 401, error: 'Invalid API key' }
+  if (record.revoked_at) return { success: false, status: 401, error: 'API key has been revoked' }
+  return { success: true, status: 200, key: record }
+}
+
+/** Authenticate a request without touching its quota (e.g. status lookups) */
+export async function authenticateApiKey(headers: Headers): Promise<ApiKeyAuth> {
+  return findKey(readPresentedKey(headers))
+}
+
+/**
+ * Authenticate a request and count one job against the key's quota.
+ * Answers 429 with Retry-After when the daily or monthly quota is used up.
+ */
+export async function authenticateAndConsume(headers: Headers): Promise<ApiKeyAuth> {
+  const auth = await findKey(readPresentedKey(headers))
+  if (!auth.success || !auth.key) return auth
+  const keyId = auth.key.id
+
+  return updateKeys<ApiKeyAuth>(keys => {
+    const record = keys.find(k => k.id === keyId)
+    if (!record || record.revoked_at) return { success: false, status: 401, error: 'API key has been revoked' }
+
+    const now = new Date()
+    const { day, month } = periods(now)
+    if (record.usage.day !== day) {
+      record.usage.day = day
+      record.usage.day_count = 0
+    }
+    if (record.usage.month !== month) {
+      record.usage.month = month
+      record.usage.month_count = 0
+    }
+
+    const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+    const nextMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+    const exceeded =
+      record.quota.daily !== null && record.usage.day_count >= record.quota.daily
+        ? { period: 'daily', limit: record.quota.daily, resetAt: nextDay }
+        : record.quota.monthly !== null && record.usage.month_count >= record.quota.monthly
+          ? { period: 'monthly', limit: record.quota.monthly, resetAt: nextMonth }
+          : null
+    if (exceeded) {
+      return {
+        success: false,
+        status: 429,
+        error: `The ${exceeded.period} quota of ${exceeded.limit} jobs for this API key is used up`,
+        headers: { 'Retry-After': String(Math.ceil((exceeded.resetAt - now.getTime()) / 1000)) },
+      }
+    }
+
+    record.usage.day_count++
+    record.usage.month_count++
+    record.usage.total++
+    record.last_used_at = now.toISOString()
+    const remaining = [
+      record.quota.daily !== null ? record.quota.daily - record.usage.day_count : null,
+      record.quota.monthly !== null ? record.quota.monthly - record.usage.month_count : null,
+    ].filter((n): n is number => n !== null)
+    return {
+      success: true,
+      status: 200,
+      key: { ...record },
+      headers: remaining.length > 0 ? { 'X-Quota-Remaining': String(Math.min(...remaining)) } : undefined,
+    }
+  })
+}
+
+/**
+ * Check the admin bearer token for key management, webhook and ingestion routes.
+ * Those routes are disabled entirely while API_ADMIN_TOKEN is unset.
+ */
+export function checkAdminToken(headers: Headers): { success: boolean; status: number; error?: string } {
+  const token = process.env.API_ADMIN_TOKEN
+  if (!token) return { success: false, status: 503, error: 'API_ADMIN_TOKEN not configured on server' }
+  const presented = readPresentedKey(headers)
+  if (!presented || !hashesMatch(sha256(presented), sha256(token))) {
+    return { success: false, status: 401, error: 'Invalid admin token' }
+  }
+  return { success: true, status: 200 }
+}
@@ -0,0 +1,378 @@
+/**
+ * Artifact Proxy Cache
+ * Server-side utility for API routes that serve agent artifacts same-origin.
+ *
+ * Artifacts are fetched only from allow-listed hosts, checked for an image
+ * content type (header and magic bytes) and a size limit, then stored on disk
+ * under their SHA-256 so repeat requests never hit the artifact host again.
+ *
+ * Layout under DATA_DIR/artifacts:
+ *   blobs/<sha256 of content>       image bytes
+ *   index/<sha256 of url>.json      { url, hash, contentType, size, fetchedAt }
+ *
+ * Blobs are capped at ARTIFACT_CACHE_MAX_BYTES in total. A cache hit touches
+ * the index file's mtime, and once a download pushes the total over the cap
+ * the least recently used entries are evicted.
+ */
+
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import { dataPath, writeFileAtomic } from '@/lib/serverData'
+
+export const MAX_ARTIFACT_BYTES = Number(process.env.ARTIFACT_MAX_BYTES) || 25 * 1024 * 1024
+const MAX_CACHE_BYTES = Number(process.env.ARTIFACT_CACHE_MAX_BYTES) || 500 * 1024 * 1024
+const MAX_REDIRECTS = 3
+const FETCH_TIMEOUT_MS = 30000
+
+/**
+ * Hosts artifacts may be fetched from: Lyzr's own and the page's sample images.
+ * `*.example.com` matches subdomains. Add the artifact bucket Lyzr's
+ * artifact_files URLs point at with ARTIFACT_ALLOWED_HOSTS (comma separated):
+ * its exact virtual-hosted name (`bucket.s3.us-east-1.amazonaws.com`) or, for
+ * path-style URLs, host and bucket (`storage.googleapis.com/bucket`).
+ */
+const DEFAULT_ALLOWED_HOSTS = ['*.lyzr.ai', 'images.unsplash.com']
+
+/** Wildcards over shared cloud domains would let anyone's bucket through the proxy */
+const SHARED_CLOUD_DOMAINS = ['amazonaws.com', 'cloudfront.net', 'googleapis.com', 'blob.core.windows.net', 'r2.dev']
+
+function isSharedCloudWildcard(pattern: string): boolean {
+  if (!pattern.startsWith('*.')) return false
+  const suffix = pattern.slice(2)
+  return SHARED_CLOUD_DOMAINS.some(
+    domain => domain === suffix || domain.endsWith(`.${suffix}`) || suffix.endsWith(`.${domain}`)
+  )
+}
+
+/** Hosts serving every bucket path-style; allowed only together with a bucket path */
+function isPathStyleBucketHost(host: string): boolean {
+  return host === 'storage.googleapis.com' || /^s3([.-][a-z0-9-]+)?\.amazonaws\.com$/.test(host)
+}
+
+interface AllowedHost {
+  /** Exact host, or `*.` followed by a domain whose subdomains match */
+  host: string
+  /** `/bucket/` for path-style entries, otherwise null */
+  pathPrefix: string | null
+}
+
+function parseAllowedHost(entry: string): AllowedHost | null {
+  const slash = entry.indexOf('/')
+  const host = slash === -1 ? entry : entry.slice(0, slash)
+  const path = slash === -1 ? '' : entry.slice(slash).replace(/^\/+|\/+$/g, '')
+  if (isSharedCloudWildcard(host)) {
+    console.warn(`ARTIFACT_ALLOWED_HOSTS: ignoring ${entry}; list the bucket's exact host instead`)
+    return null
+  }
+  if (!path && isPathStyleBucketHost(host)) {
+    console.warn(`ARTIFACT_ALLOWED_HOSTS: ignoring ${entry}; add the bucket as ${host}/<bucket>`)
+    return null
+  }
+  return { host, pathPrefix: path ? `/${path}/` : null }
+}
+
+export const ALLOWED_HOSTS: AllowedHost[] = [
+  ...DEFAULT_ALLOWED_HOSTS.map(host => ({ host, pathPrefix: null })),
+  ...(process.env.ARTIFACT_ALLOWED_HOSTS || '')
+    .split(',')
+    .map(h => h.trim().toLowerCase())
+    .filter(Boolean)
+    .map(parseAllowedHost)
+    .filter((entry): entry is AllowedHost => entry !== null),
+]
+
+// Types
+export interface CachedArtifact {
+  url: string
+  hash: string
+  contentType: string
+  size: number
+  fetchedAt: string
+}
+
+/** Cached artifact, or the error and HTTP status the route should answer with */
+export interface ArtifactLookup {
+  success: boolean
+  status: number
+  artifact?: CachedArtifact
+  error?: string
+  details?: string
+}
+
+/** Internal failure carrying the HTTP status the route should answer with */
+class ArtifactError extends Error {
+  status: number
+  details?: string
+
+  constructor(message: string, status: number, details?: string) {
+    super(message)
+    this.name = 'ArtifactError'
+    this.status = status
+    this.details = details
+  }
+}
+
+export function isAllowedArtifactUrl(url: URL): boolean {
+  const host = url.hostname.toLowerCase()
+  return ALLOWED_HOSTS.some(entry =>
+    (entry.host.startsWith('*.') ? host.endsWith(entry.host.slice(1)) : host === entry.host) &&
+    (!entry.pathPrefix || url.pathname.startsWith(entry.pathPrefix))
+  )
+}
+
+function sha256(data: string | Uint8Array): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+/**
+ * Detect the image type from its first bytes. The upstream Content-Type
+ * header is not trusted on its own.
+ */
+export function sniffImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)))
+  if (bytes.length >= 8 && bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png'
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg'
+  if (bytes.length >= 12 && ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp'
+  if (bytes.length >= 6 && (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a')) return 'image/gif'
+  if (bytes.length >= 12 && ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) return 'image/avif'
+  return null
+}
+
+function parseArtifactUrl(raw: string | null): URL {
+  let url: URL
+  try {
+    url = new URL(raw || '')
+  } catch {
+    throw new ArtifactError('A valid url parameter is required', 400)
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ArtifactError('Only http(s) URLs can be proxied', 400)
+  }
+  if (!isAllowedArtifactUrl(url)) {
+    throw new ArtifactError('Artifact host is not allowed', 403, `${url.hostname}; add it to ARTIFACT_ALLOWED_HOSTS`)
+  }
+  return url
+}
+
+/** Read a response body, aborting as soon as it exceeds the size limit */
+async function readLimited(response: Response): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('content-length'))
+  if (declared > MAX_ARTIFACT_BYTES) {
+    throw new ArtifactError('Artifact is too large', 413, `${declared} bytes`)
+  }
+  if (!response.body) throw new ArtifactError('Artifact response had no body', 502)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > MAX_ARTIFACT_BYTES) {
+      await reader.cancel()
+      throw new ArtifactError('Artifact is too large', 413, `more than ${MAX_ARTIFACT_BYTES} bytes`)
+    }
+    chunks.push(value)
+  }
+  return new Uint8Array(Buffer.concat(chunks))
+}
+
+/** Fetch following redirects manually so every hop is checked against the allow-list */
+async function fetchUpstream(url: URL): Promise<Response> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await fetch(current, { redirect: 'manual', signal, cache: 'no-store' })
+    if (response.status >= 300 && response.status < 400 && response.headers.get('location')) {
+      current = parseArtifactUrl(new URL(response.headers.get('location')!, current).toString())
+      continue
+    }
+    return response
+  }
+  throw new ArtifactError('Too many redirects', 502)
+}
+
+async function readIndex(urlKey: string): Promise<CachedArtifact | null> {
+  const indexPath = dataPath('artifacts', 'index', `${urlKey}.json`)
+  try {
+    const meta = JSON.parse(await fs.readFile(indexPath, 'utf-8'))
+    // The blob may have been cleaned up independently of the index
+    await fs.access(dataPath('artifacts', 'blobs', meta.hash))
+    // The mtime is the entry's last use for eviction
+    const now = new Date()
+    await fs.utimes(indexPath, now, now).catch(() => undefined)
+    return meta
+  } catch {
+    return null
+  }
+}
+
+/** Total size of blobs/; null until first measured in this process */
+let cacheBytes: number | null = null
+let eviction: Promise<void> | null = null
+
+async function listDir(dir: string): Promise<string[]> {
+  try {
+    return await fs.readdir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+    throw error
+  }
+}
+
+async function blobSizes(): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>()
+  for (const name of await listDir(dataPath('artifacts', 'blobs'))) {
+    // Skip writeFileAtomic's temp files
+    if (!/^[0-9a-f]{64}$/.test(name)) continue
+    const stat = await fs.stat(dataPath('artifacts', 'blobs', name)).catch(() => null)
+    if (stat) sizes.set(name, stat.size)
+  }
+  return sizes
+}
+
+/** Delete least recently used entries, and blobs no entry points to, until under the cap */
+async function evictToLimit(): Promise<void> {
+  const sizes = await blobSizes()
+  const entries: { indexPath: string; hash: string | null; usedAt: number }[] = []
+  for (const name of await listDir(dataPath('artifacts', 'index'))) {
+    if (!name.endsWith('.json')) continue
+    const indexPath = dataPath('artifacts', 'index', name)
+    try {
+      const [stat, raw] = await Promise.all([fs.stat(indexPath), fs.readFile(indexPath, 'utf-8')])
+      entries.push({ indexPath, hash: JSON.parse(raw).hash ?? null, usedAt: stat.mtimeMs })
+    } catch {
+      entries.push({ indexPath, hash: null, usedAt: 0 })
+    }
+  }
+
+  const refs = new Map<string, number>()
+  for (const entry of entries) {
+    if (entry.hash) refs.set(entry.hash, (refs.get(entry.hash) ?? 0) + 1)
+  }
+  let total = 0
+  for (const [hash, size] of Array.from(sizes.entries())) {
+    if (refs.has(hash)) total += size
+    else await fs.rm(dataPath('artifacts', 'blobs', hash), { force: true })
+  }
+
+  entries.sort((a, b) => a.usedAt - b.usedAt)
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break
+    await fs.rm(entry.indexPath, { force: true })
+    if (!entry.hash) continue
+    const remaining = (refs.get(entry.hash) ?? 1) - 1
+    refs.set(entry.hash, remaining)
+    // Blobs are shared by URLs with identical content; keep it while one still uses it
+    if (remaining === 0 && sizes.has(entry.hash)) {
+      await fs.rm(dataPath('artifacts', 'blobs', entry.hash), { force: true })
+      total -= sizes.get(entry.hash)!
+    }
+  }
+  cacheBytes = total
+}
+
+/** Account for a newly stored blob and evict when the cache grew past its cap */
+async function trackCacheSize(addedBytes: number): Promise<void> {
+  if (cacheBytes === null) {
+    cacheBytes = Array.from((await blobSizes()).values()).reduce((sum, size) => sum + size, 0)
+  } else {
+    cacheBytes += addedBytes
+  }
+  if (cacheBytes <= MAX_CACHE_BYTES || eviction) return
+  eviction = evictToLimit()
+    .catch(error => console.error('Artifact cache eviction failed:', error))
+    .finally(() => {
+      eviction = null
+    })
+  await eviction
+}
+
+async function downloadArtifact(url: URL, urlKey: string): Promise<CachedArtifact> {
+  let response: Response
+  try {
+    response = await fetchUpstream(url)
+  } catch (error) {
+    if (error instanceof ArtifactError) throw error
+    throw new ArtifactError('Failed to fetch artifact', 502, error instanceof Error ? error.message : String(error))
+  }
+  if (!response.ok) {
+    throw new ArtifactError(`Artifact fetch failed with status ${response.status}`, 502)
+  }
+
+  const headerType = (response.headers.get('content-type') || '').split(';')[0].trim()
+  // Octet-stream is common for object storage; rely on sniffing in that case
+  if (headerType && !headerType.startsWith('image/') && headerType !== 'application/octet-stream') {
+    throw new ArtifactError('Artifact is not an image', 415, headerType)
+  }
+
+  const bytes = await readLimited(response)
+  const contentType = sniffImageType(bytes)
+  if (!contentType) {
+    throw new ArtifactError('Artifact is not a supported image format', 415, headerType || 'unknown')
+  }
+
+  const hash = sha256(bytes)
+  const artifact: CachedArtifact = {
+    url: url.toString(),
+    hash,
+    contentType,
+    size: bytes.length,
+    fetchedAt: new Date().toISOString(),
+  }
+  const blobPath = dataPath('artifacts', 'blobs', hash)
+  const isNewBlob = !(await fs.access(blobPath).then(() => true, () => false))
+  await writeFileAtomic(blobPath, bytes)
+  await writeFileAtomic(dataPath('artifacts', 'index', `${urlKey}.json`), JSON.stringify(artifact))
+  await trackCacheSize(isNewBlob ? bytes.length : 0)
+  return artifact
+}
+
+// Concurrent requests for the same URL share one download
+const inFlight = new Map<string, Promise<CachedArtifact>>()
+
+/**
+ * Resolve an artifact URL to a cached entry, downloading it on first use
+ */
+export async function getArtifact(rawUrl: string | null, signal?: AbortSignal): Promise<ArtifactLookup> {
+  try {
+    const url = parseArtifactUrl(rawUrl)
+    const urlKey = sha256(url.toString())
+
+    const cached = await readIndex(urlKey)
+    if (cached) return { success: true, status: 200, artifact: cached }
+
+    let pending = inFlight.get(urlKey)
+    if (!pending) {
+      // Not tied to the first caller's signal — other requests may be waiting on it
+      pending = downloadArtifact(url, urlKey).finally(() => inFlight.delete(urlKey))
+      inFlight.set(urlKey, pending)
+    }
+    const artifact = await (signal
+      ? Promise.race([
+          pending,
+          new Promise<never>((_, reject) => {
+            const onAbort = () => reject(new ArtifactError('Request aborted', 499))
+            if (signal.aborted) onAbort()
+            signal.addEventListener('abort', onAbort, { once: true })
+          }),
+        ])
+      : pending)
+    return { success: true, status: 200, artifact }
+  } catch (error) {
+    if (error instanceof ArtifactError) {
+      return { success: false, error: error.message, status: error.status, details: error.details }
+    }
+    return {
+      success: false,
+      error: 'Failed to cache artifact',
+      status: 500,
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+export async function readArtifactBytes(artifact: CachedArtifact): Promise<Buffer> {
+  return fs.readFile(dataPath('artifacts', 'blobs', artifact.hash))
+}
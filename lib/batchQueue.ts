@@ -0,0 +1,260 @@
+'use client'
+
+/**
+ * Batch Transform Queue
+ *
+ * Runs many images through the style transform pipeline with bounded
+ * concurrency. Each item tracks its own status so one failure never
+ * cancels the rest of the batch. Submitted tasks are recorded in the pending
+ * job store until they settle, so a reload resumes them; their results then go
+ * to history only, since the batch list itself doesn't survive the reload.
+ *
+ * @example
+ * ```tsx
+ * const batch = useBatchQueue({ styleNote })
+ * batch.enqueue(files)
+ * batch.start()
+ * ```
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { transformImage, isCancelledError, ACCEPTED_FORMATS } from '@/lib/styleTransform'
+import type { TransformationDetails, TransformResult } from '@/lib/styleTransform'
+import type { BrandPreset } from '@/lib/brandPresets'
+import { preprocessImage } from '@/lib/imagePreprocess'
+import type { PreprocessOptions } from '@/lib/imagePreprocess'
+import { generateUUID } from '@/lib/utils'
+import { savePendingJob, removePendingJob } from '@/lib/jobStore'
+
+export const BATCH_CONCURRENCY = 3
+
+// Types
+export type BatchItemStatus = 'pending' | 'queued' | 'uploading' | 'transforming' | 'completed' | 'failed'
+
+export interface BatchItem {
+  id: string
+  file: File
+  previewUrl: string
+  status: BatchItemStatus
+  attempts: number
+  styleNote?: string
+  preset?: BrandPreset
+  preprocess?: PreprocessOptions
+  agentId?: string
+  error?: string
+  resultImageUrl?: string
+  details?: TransformationDetails | null
+}
+
+export interface BatchSummary {
+  total: number
+  completed: number
+  failed: number
+  active: number
+  progress: number
+}
+
+const ACTIVE_STATUSES: BatchItemStatus[] = ['uploading', 'transforming']
+
+/**
+ * React hook for running a batch of transforms with bounded concurrency
+ */
+export function useBatchQueue(options?: {
+  styleNote?: string
+  preset?: BrandPreset
+  preprocess?: PreprocessOptions
+  agentId?: string
+  concurrency?: number
+  onItemComplete?: (item: BatchItem, result: TransformResult) => void
+}) {
+  const concurrency = options?.concurrency ?? BATCH_CONCURRENCY
+  const [items, setItems] = useState<BatchItem[]>([])
+  const itemsRef = useRef<BatchItem[]>([])
+  const activeRef = useRef(0)
+  const abortRef = useRef(new AbortController())
+  const styleNoteRef = useRef(options?.styleNote ?? '')
+  styleNoteRef.current = options?.styleNote ?? ''
+  const presetRef = useRef(options?.preset)
+  presetRef.current = options?.preset
+  const preprocessRef = useRef(options?.preprocess)
+  preprocessRef.current = options?.preprocess
+  const agentIdRef = useRef(options?.agentId)
+  agentIdRef.current = options?.agentId
+  const onItemCompleteRef = useRef(options?.onItemComplete)
+  onItemCompleteRef.current = options?.onItemComplete
+
+  const commit = useCallback((next: BatchItem[]) => {
+    itemsRef.current = next
+    setItems(next)
+  }, [])
+
+  const updateItem = useCallback((id: string, patch: Partial<BatchItem>) => {
+    commit(itemsRef.current.map(item => (item.id === id ? { ...item, ...patch } : item)))
+  }, [commit])
+
+  const runItem = useCallback(async (item: BatchItem) => {
+    let taskId: string | null = null
+    try {
+      // Fall back to the raw file if the browser can't decode it for preprocessing
+      const file = item.preprocess
+        ? await preprocessImage(item.file, item.preprocess).then(r => r.file, () => item.file)
+        : item.file
+      const result = await transformImage(file, {
+        styleNote: item.styleNote,
+        preset: item.preset,
+        agentId: item.agentId,
+        signal: abortRef.current.signal,
+        onTaskSubmitted: task => {
+          taskId = task.task_id
+          savePendingJob(task, {
+            file_name: item.file.name,
+            style_note: item.styleNote ?? '',
+            preset_name: item.preset?.name,
+            kind: 'batch',
+          })
+        },
+        onStage: stage => updateItem(item.id, { status: stage }),
+      })
+      updateItem(item.id, {
+        status: 'completed',
+        resultImageUrl: result.imageUrl,
+        details: result.details,
+      })
+      onItemCompleteRef.current?.(item, result)
+    } catch (err) {
+      if (isCancelledError(err)) {
+        updateItem(item.id, { status: 'pending' })
+        return
+      }
+      updateItem(item.id, {
+        status: 'failed',
+        error: err instanceof Error ? err.message : 'Transformation failed',
+      })
+    } finally {
+      if (taskId) removePendingJob(taskId)
+    }
+  }, [updateItem])
+
+  const pump = useCallback(() => {
+    while (activeRef.current < concurrency) {
+      const next = itemsRef.current.find(item => item.status === 'queued')
+      if (!next) return
+      activeRef.current++
+      const started = {
+        ...next,
+        styleNote: styleNoteRef.current,
+        preset: presetRef.current,
+        preprocess: preprocessRef.current,
+        agentId: agentIdRef.current,
+      }
+      updateItem(next.id, {
+        status: 'uploading',
+        attempts: next.attempts + 1,
+        styleNote: started.styleNote,
+        preset: started.preset,
+        preprocess: started.preprocess,
+        agentId: started.agentId,
+        error: undefined,
+      })
+      runItem(started).finally(() => {
+        activeRef.current--
+        pump()
+      })
+    }
+  }, [concurrency, runItem, updateItem])
+
+  /** Add files to the batch. Unsupported formats are skipped and returned. */
+  const enqueue = useCallback((files: File[]) => {
+    const accepted: BatchItem[] = []
+    const rejected: File[] = []
+    for (const file of files) {
+      if (!ACCEPTED_FORMATS.includes(file.type)) {
+        rejected.push(file)
+        continue
+      }
+      accepted.push({
+        id: generateUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: 'pending',
+        attempts: 0,
+      })
+    }
+    commit([...itemsRef.current, ...accepted])
+    return { accepted: accepted.length, rejected }
+  }, [commit])
+
+  /** Queue every pending item and start processing */
+  const start = useCallback(() => {
+    commit(itemsRef.current.map(item => (item.status === 'pending' ? { ...item, status: 'queued' } : item)))
+    pump()
+  }, [commit, pump])
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', error: undefined })
+    pump()
+  }, [pump, updateItem])
+
+  const retryFailed = useCallback(() => {
+    commit(itemsRef.current.map(item => (item.status === 'failed' ? { ...item, status: 'queued', error: undefined } : item)))
+    pump()
+  }, [commit, pump])
+
+  /** Remove an item. Items currently in flight cannot be removed. */
+  const remove = useCallback((id: string) => {
+    const item = itemsRef.current.find(i => i.id === id)
+    if (!item || ACTIVE_STATUSES.includes(item.status)) return
+    URL.revokeObjectURL(item.previewUrl)
+    commit(itemsRef.current.filter(i => i.id !== id))
+  }, [commit])
+
+  /** Remove every item that is not in flight */
+  const clear = useCallback(() => {
+    const keep: BatchItem[] = []
+    for (const item of itemsRef.current) {
+      if (ACTIVE_STATUSES.includes(item.status) || item.status === 'queued') {
+        keep.push(item)
+      } else {
+        URL.revokeObjectURL(item.previewUrl)
+      }
+    }
+    commit(keep)
+  }, [commit])
+
+  // Abort in-flight transforms and release object URLs on unmount
+  useEffect(() => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    return () => {
+      controller.abort()
+      for (const item of itemsRef.current) {
+        URL.revokeObjectURL(item.previewUrl)
+      }
+    }
+  }, [])
+
+  const summary: BatchSummary = {
+    total: items.length,
+    completed: items.filter(i => i.status === 'completed').length,
+    failed: items.filter(i => i.status === 'failed').length,
+    active: items.filter(i => ACTIVE_STATUSES.includes(i.status)).length,
+    progress: 0,
+  }
+  summary.progress = summary.total > 0
+    ? Math.round(((summary.completed + summary.failed) / summary.total) * 100)
+    : 0
+
+  const isRunning = items.some(i => i.status === 'queued' || ACTIVE_STATUSES.includes(i.status))
+
+  return {
+    items,
+    summary,
+    isRunning,
+    enqueue,
+    start,
+    retry,
+    retryFailed,
+    remove,
+    clear,
+  }
+}
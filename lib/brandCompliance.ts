@@ -0,0 +1,277 @@
+'use client'
+
+/**
+ * Brand Compliance
+ *
+ * Checks what the agent actually produced instead of trusting its
+ * `color_palette_used` claim: the result is downsampled, its dominant colors
+ * are found with k-means over the pixels, and each one is matched to the
+ * nearest brand palette color by CIEDE2000 (Delta-E 2000) distance. The
+ * score is the pixel-share-weighted closeness to the palette, 0–100.
+ */
+
+import { useState, useEffect } from 'react'
+import { createCanvas } from '@/lib/imagePreprocess'
+import { fetchImageBlob } from '@/lib/imageExport'
+
+export type RGB = [number, number, number]
+export type Lab = [number, number, number]
+
+export interface DominantColor {
+  hex: string
+  /** Fraction of sampled pixels in this cluster */
+  share: number
+  nearestPaletteHex: string
+  deltaE: number
+}
+
+export interface ComplianceReport {
+  score: number
+  flagged: boolean
+  colors: DominantColor[]
+}
+
+/** Results scoring below this are flagged as off-brand */
+export const COMPLIANCE_THRESHOLD = 70
+
+const SAMPLE_EDGE = 96
+const CLUSTER_COUNT = 6
+const MAX_ITERATIONS = 12
+/** At or below this Delta-E a color counts as on-palette; at MAX it counts as off */
+const DELTA_E_MATCH = 5
+const DELTA_E_MAX = 30
+
+// ---------------------------------------------------------------------------
+// Color math
+// ---------------------------------------------------------------------------
+
+export function hexToRgb(hex: string): RGB | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim())
+  if (!match) return null
+  const value = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1]
+  return [parseInt(value.slice(0, 2), 16), parseInt(value.slice(2, 4), 16), parseInt(value.slice(4, 6), 16)]
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return `#${[r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase()}`
+}
+
+/** sRGB (D65) → CIELAB */
+export function rgbToLab([r, g, b]: RGB): Lab {
+  const linear = (c: number) => {
+    const v = c / 255
+    return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4)
+  }
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)]
+  const x = (lr * 0.4124564 + lg * 0.3575761 + lb * 0.1804375) / 0.95047
+  const y = lr * 0.2126729 + lg * 0.7151522 + lb * 0.072175
+  const z = (lr * 0.0193339 + lg * 0.119192 + lb * 0.9503041) / 1.08883
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116)
+  const [fx, fy, fz] = [f(x), f(y), f(z)]
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+/** CIEDE2000 color difference (Sharma, Wu & Dalal 2005) */
+export function deltaE2000([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number {
+  const rad = Math.PI / 180
+  const c1 = Math.hypot(a1, b1)
+  const c2 = Math.hypot(a2, b2)
+  const cMean7 = Math.pow((c1 + c2) / 2, 7)
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + Math.pow(25, 7))))
+  const ap1 = a1 * (1 + g)
+  const ap2 = a2 * (1 + g)
+  const cp1 = Math.hypot(ap1, b1)
+  const cp2 = Math.hypot(ap2, b2)
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0
+    const h = Math.atan2(b, a) / rad
+    return h < 0 ? h + 360 : h
+  }
+  const hp1 = hue(b1, ap1)
+  const hp2 = hue(b2, ap2)
+
+  const dL = l2 - l1
+  const dC = cp2 - cp1
+  let dh = 0
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1
+    if (dh > 180) dh -= 360
+    else if (dh < -180) dh += 360
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * rad)
+
+  const lMean = (l1 + l2) / 2
+  const cpMean = (cp1 + cp2) / 2
+  let hMean = hp1 + hp2
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) hMean /= 2
+    else hMean = hp1 + hp2 < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hMean - 30) * rad) +
+    0.24 * Math.cos(2 * hMean * rad) +
+    0.32 * Math.cos((3 * hMean + 6) * rad) -
+    0.2 * Math.cos((4 * hMean - 63) * rad)
+  const sl = 1 + (0.015 * Math.pow(lMean - 50, 2)) / Math.sqrt(20 + Math.pow(lMean - 50, 2))
+  const sc = 1 + 0.045 * cpMean
+  const sh = 1 + 0.015 * cpMean * t
+  const cpMean7 = Math.pow(cpMean, 7)
+  const rt =
+    -2 * Math.sqrt(cpMean7 / (cpMean7 + Math.pow(25, 7))) *
+    Math.sin(60 * Math.exp(-Math.pow((hMean - 275) / 25, 2)) * rad)
+
+  return Math.sqrt(
+    Math.pow(dL / sl, 2) + Math.pow(dC / sc, 2) + Math.pow(dH / sh, 2) + rt * (dC / sc) * (dH / sh)
+  )
+}
+
+// ---------------------------------------------------------------------------
+// Dominant colors
+// ---------------------------------------------------------------------------
+
+function distanceSq(a: RGB, b: RGB): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+}
+
+/**
+ * k-means over RGB pixels. Seeded deterministically (k-means++ style, always
+ * taking the farthest pixel) so the same image always yields the same report.
+ */
+export function kMeans(pixels: RGB[], k: number): { center: RGB; count: number }[] {
+  if (pixels.length === 0) return []
+  const centers: RGB[] = [pixels[Math.floor(pixels.length / 2)]]
+  const nearest = pixels.map(p => distanceSq(p, centers[0]))
+  while (centers.length < Math.min(k, pixels.length)) {
+    let farthest = 0
+    for (let i = 1; i < pixels.length; i++) {
+      if (nearest[i] > nearest[farthest]) farthest = i
+    }
+    if (nearest[farthest] === 0) break
+    centers.push(pixels[farthest])
+    for (let i = 0; i < pixels.length; i++) {
+      nearest[i] = Math.min(nearest[i], distanceSq(pixels[i], pixels[farthest]))
+    }
+  }
+
+  const assignment = new Array<number>(pixels.length).fill(0)
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let moved = false
+    for (let i = 0; i < pixels.length; i++) {
+      let best = 0
+      for (let c = 1; c < centers.length; c++) {
+        if (distanceSq(pixels[i], centers[c]) < distanceSq(pixels[i], centers[best])) best = c
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best
+        moved = true
+      }
+    }
+    const sums = centers.map(() => [0, 0, 0, 0])
+    pixels.forEach((p, i) => {
+      const sum = sums[assignment[i]]
+      sum[0] += p[0]
+      sum[1] += p[1]
+      sum[2] += p[2]
+      sum[3]++
+    })
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centers[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]]
+    })
+    if (!moved && iteration > 0) break
+  }
+
+  const counts = centers.map(() => 0)
+  for (const c of assignment) counts[c]++
+  return centers
+    .map((center, c) => ({ center, count: counts[c] }))
+    .filter(cluster => cluster.count > 0)
+    .sort((a, b) => b.count - a.count)
+}
+
+/** Downsample the image and return its opaque pixels */
+async function samplePixels(imageUrl: string): Promise<RGB[]> {
+  const blob = await fetchImageBlob(imageUrl)
+  const bitmap = await createImageBitmap(blob)
+  const scale = Math.min(1, SAMPLE_EDGE / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  const data = ctx.getImageData(0, 0, width, height).data
+  const pixels: RGB[] = []
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] >= 128) pixels.push([data[i], data[i + 1], data[i + 2]])
+  }
+  return pixels
+}
+
+/** Score pixels against a palette; exposed separately from image loading */
+export function scorePixels(pixels: RGB[], palette: string[], threshold: number = COMPLIANCE_THRESHOLD): ComplianceReport {
+  const paletteLab = palette
+    .map(hex => ({ hex: hex.toUpperCase(), rgb: hexToRgb(hex) }))
+    .filter((p): p is { hex: string; rgb: RGB } => p.rgb !== null)
+    .map(p => ({ hex: p.hex, lab: rgbToLab(p.rgb) }))
+  if (paletteLab.length === 0 || pixels.length === 0) {
+    return { score: 0, flagged: true, colors: [] }
+  }
+
+  const colors = kMeans(pixels, CLUSTER_COUNT).map(({ center, count }) => {
+    const lab = rgbToLab(center)
+    let best = { hex: paletteLab[0].hex, deltaE: Infinity }
+    for (const entry of paletteLab) {
+      const deltaE = deltaE2000(lab, entry.lab)
+      if (deltaE < best.deltaE) best = { hex: entry.hex, deltaE }
+    }
+    return { hex: rgbToHex(center), share: count / pixels.length, nearestPaletteHex: best.hex, deltaE: best.deltaE }
+  })
+
+  const closeness = (deltaE: number) =>
+    Math.max(0, Math.min(1, (DELTA_E_MAX - deltaE) / (DELTA_E_MAX - DELTA_E_MATCH)))
+  const score = Math.round(100 * colors.reduce((sum, c) => sum + c.share * closeness(c.deltaE), 0))
+  return { score, flagged: score < threshold, colors }
+}
+
+export async function analyzeCompliance(
+  imageUrl: string,
+  palette: string[],
+  threshold: number = COMPLIANCE_THRESHOLD
+): Promise<ComplianceReport> {
+  const pixels = await samplePixels(imageUrl)
+  return scorePixels(pixels, palette, threshold)
+}
+
+/** React hook that re-analyzes whenever the image or the palette changes */
+export function useBrandCompliance(imageUrl: string | null, palette: string[]) {
+  const [report, setReport] = useState<ComplianceReport | null>(null)
+  const [analyzing, setAnalyzing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const paletteKey = palette.join(',')
+
+  useEffect(() => {
+    setReport(null)
+    setError(null)
+    if (!imageUrl) return
+    let cancelled = false
+    setAnalyzing(true)
+    analyzeCompliance(imageUrl, paletteKey ? paletteKey.split(',') : [])
+      .then(result => {
+        if (!cancelled) setReport(result)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not analyze colors')
+      })
+      .finally(() => {
+        if (!cancelled) setAnalyzing(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [imageUrl, paletteKey])
+
+  return { report, analyzing, error }
+}
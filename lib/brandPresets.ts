@@ -0,0 +1,139 @@
+'use client'
+
+/**
+ * Brand Style Presets
+ *
+ * Each preset describes a (sub-)brand: palette, typography notes, do/don't
+ * rules and an optional example image. Presets are stored in localStorage
+ * and the prompt builder (lib/brandPrompt) turns the active preset into the
+ * agent message.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import { generateUUID } from '@/lib/utils'
+import { LYZR_PRESET } from '@/lib/brandPrompt'
+import type { BrandPreset } from '@/lib/brandPrompt'
+
+export { LYZR_PRESET, buildPresetPrompt, buildRefinementPrompt } from '@/lib/brandPrompt'
+export type { BrandPreset } from '@/lib/brandPrompt'
+
+const STORAGE_KEY = 'lyzr-brand-presets'
+const ACTIVE_KEY = 'lyzr-brand-presets-active'
+
+export const DEFAULT_PRESETS: BrandPreset[] = [LYZR_PRESET]
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i
+
+export function isValidHex(value: string): boolean {
+  return HEX_PATTERN.test(value.trim())
+}
+
+/** Normalize `7458e8` / `#abc` style input to `#7458E8` / `#AABBCC` */
+export function normalizeHex(value: string): string {
+  let hex = value.trim().replace(/^#/, '')
+  if (hex.length === 3) {
+    hex = hex.split('').map(c => c + c).join('')
+  }
+  return `#${hex.toUpperCase()}`
+}
+
+export function createEmptyPreset(): BrandPreset {
+  return {
+    id: generateUUID(),
+    name: '',
+    palette: [],
+    typography: '',
+    dos: [],
+    donts: [],
+    exampleImageUrl: '',
+  }
+}
+
+export function loadPresets(): BrandPreset[] {
+  if (typeof window === 'undefined') return DEFAULT_PRESETS
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY)
+    if (!raw) return DEFAULT_PRESETS
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : DEFAULT_PRESETS
+  } catch {
+    return DEFAULT_PRESETS
+  }
+}
+
+export function savePresets(presets: BrandPreset[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch {
+    // Storage full or blocked (private mode / iframe) — presets stay in memory
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook for listing, editing and selecting brand presets. */
+export function useBrandPresets() {
+  const [presets, setPresets] = useState<BrandPreset[]>(DEFAULT_PRESETS)
+  const [activePresetId, setActivePresetIdState] = useState<string>(LYZR_PRESET.id)
+
+  // Load from localStorage after mount to avoid hydration mismatches
+  useEffect(() => {
+    setPresets(loadPresets())
+    const storedActive = window.localStorage.getItem(ACTIVE_KEY)
+    if (storedActive) setActivePresetIdState(storedActive)
+  }, [])
+
+  const setActivePresetId = useCallback((id: string) => {
+    setActivePresetIdState(id)
+    try {
+      window.localStorage.setItem(ACTIVE_KEY, id)
+    } catch {
+      // Non-fatal
+    }
+  }, [])
+
+  /** Create or update a preset (matched by id). */
+  const savePreset = useCallback((preset: BrandPreset) => {
+    setPresets(prev => {
+      const exists = prev.some(p => p.id === preset.id)
+      const next = exists ? prev.map(p => (p.id === preset.id ? preset : p)) : [...prev, preset]
+      savePresets(next)
+      return next
+    })
+  }, [])
+
+  /** Delete a preset. The last remaining preset cannot be deleted. */
+  const deletePreset = useCallback((id: string) => {
+    setPresets(prev => {
+      if (prev.length <= 1) return prev
+      const next = prev.filter(p => p.id !== id)
+      savePresets(next)
+      return next
+    })
+    setActivePresetIdState(current => (current === id ? LYZR_PRESET.id : current))
+  }, [])
+
+  const resetPresets = useCallback(() => {
+    setPresets(DEFAULT_PRESETS)
+    savePresets(DEFAULT_PRESETS)
+    setActivePresetId(LYZR_PRESET.id)
+  }, [setActivePresetId])
+
+  const activePreset = presets.find(p => p.id === activePresetId) ?? presets[0]
+
+  return {
+    presets,
+    activePreset,
+    activePresetId: activePreset.id,
+    setActivePresetId,
+    savePreset,
+    deletePreset,
+    resetPresets,
+  }
+}
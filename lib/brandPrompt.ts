@@ -0,0 +1,83 @@
+/**
+ * Brand Prompt Builder
+ *
+ * Turns a brand preset into the agent message. Shared by the browser and the
+ * public API routes, so it must stay free of React and browser APIs — the
+ * localStorage-backed preset store lives in lib/brandPresets.
+ */
+
+// Types
+export interface BrandPreset {
+  id: string
+  name: string
+  palette: string[]
+  typography: string
+  dos: string[]
+  donts: string[]
+  exampleImageUrl: string
+  builtIn?: boolean
+}
+
+export const LYZR_PRESET: BrandPreset = {
+  id: 'lyzr',
+  name: 'Lyzr',
+  palette: ['#7458E8', '#2D1B69', '#3B82F6', '#A78BFA', '#FFFFFF', '#0A0612'],
+  typography: 'Clean geometric sans-serif, bold headlines with tight tracking',
+  dos: [
+    'Use deep purples, vibrant blues and electric accents',
+    'Apply clean gradients and a modern tech-forward aesthetic',
+  ],
+  donts: [
+    'Do not introduce warm or earthy color casts',
+    'Do not add clutter or skeuomorphic textures',
+  ],
+  exampleImageUrl: '',
+  builtIn: true,
+}
+
+// ---------------------------------------------------------------------------
+// Prompts
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the agent message from a preset, appending the optional style note
+ */
+export function buildPresetPrompt(preset: BrandPreset, styleNote?: string): string {
+  const lines = [`Transform this uploaded image into ${preset.name} brand style.`]
+  if (preset.palette.length > 0) {
+    lines.push(`Use the brand color palette: ${preset.palette.join(', ')}.`)
+  }
+  if (preset.typography.trim()) {
+    lines.push(`Typography: ${preset.typography.trim()}.`)
+  }
+  if (preset.dos.length > 0) {
+    lines.push(`Do: ${preset.dos.join('; ')}.`)
+  }
+  if (preset.donts.length > 0) {
+    lines.push(`Don't: ${preset.donts.join('; ')}.`)
+  }
+  // Only remote URLs are meaningful to the agent; uploaded examples stay local
+  if (/^https?:\/\//.test(preset.exampleImageUrl)) {
+    lines.push(`Reference example of the brand style: ${preset.exampleImageUrl}`)
+  }
+  if (styleNote?.trim()) {
+    lines.push(`Additional style direction: ${styleNote.trim()}`)
+  }
+  return lines.join(' ')
+}
+
+/**
+ * Follow-up prompt for refining the previous result in the same agent session.
+ * The previous output is attached as the asset, so the agent edits rather than restarts.
+ */
+export function buildRefinementPrompt(preset: BrandPreset, instruction: string): string {
+  const lines = [
+    'Refine the attached image, which is your previous result in this conversation.',
+    `Apply only this change: ${instruction.trim()}`,
+    `Keep the composition and everything else unchanged, and stay within the ${preset.name} brand style.`,
+  ]
+  if (preset.palette.length > 0) {
+    lines.push(`Brand color palette: ${preset.palette.join(', ')}.`)
+  }
+  return lines.join(' ')
+}
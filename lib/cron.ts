@@ -0,0 +1,560 @@
+/**
+ * Cron Expressions
+ *
+ * Parser, describer and next-run calculator for standard 5-field cron
+ * (minute hour day-of-month month day-of-week). Shared by the scheduler
+ * client, the schedule builder UI and the /api/scheduler route, so it must
+ * stay free of browser- and server-only APIs.
+ *
+ * Supported: `*`, `?` (day fields), values, ranges `a-b`, lists `a,b`, steps
+ * `*\/n`, `a-b/n` and `a/n`, month names JAN–DEC, weekday names SUN–SAT (0 or
+ * 7 is Sunday) and the @yearly/@monthly/@weekly/@daily/@hourly macros. As in
+ * Vixie cron, when both day-of-month and day-of-week are restricted a day
+ * matches if either does; a day field starting with `*` (including steps
+ * like `*\/2`) counts as unrestricted, so the other one must match as well.
+ * Expressions that can never fire are rejected.
+ */
+
+// Types
+export type CronFieldName = 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek'
+
+export interface CronError {
+  message: string
+  /** Field the error is in; null for whole-expression errors */
+  field: CronFieldName | null
+  /** Offset of the offending text in the original expression */
+  position: number
+  length: number
+}
+
+export interface ParsedCron {
+  expression: string
+  /** Normalized source of each field (macros expanded, whitespace collapsed) */
+  fields: Record<CronFieldName, string>
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: number[]
+  months: number[]
+  /** 0 = Sunday */
+  daysOfWeek: number[]
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+export interface CronParseResult {
+  success: boolean
+  cron?: ParsedCron
+  error?: CronError
+}
+
+interface FieldSpec {
+  name: CronFieldName
+  label: string
+  min: number
+  max: number
+  names?: string[]
+}
+
+const FIELD_SPECS: FieldSpec[] = [
+  { name: 'minute', label: 'minute', min: 0, max: 59 },
+  { name: 'hour', label: 'hour', min: 0, max: 23 },
+  { name: 'dayOfMonth', label: 'day-of-month', min: 1, max: 31 },
+  {
+    name: 'month',
+    label: 'month',
+    min: 1,
+    max: 12,
+    names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'],
+  },
+  // 7 is accepted as Sunday and folded to 0 after parsing
+  { name: 'dayOfWeek', label: 'day-of-week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+]
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+/** How far ahead nextCronRuns searches before giving up (e.g. `0 0 30 2 *`) */
+const SEARCH_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+class CronSyntaxError extends Error {
+  constructor(message: string, public field: CronFieldName | null, public position: number, public length: number) {
+    super(message)
+  }
+}
+
+function parseValue(text: string, offset: number, spec: FieldSpec): number {
+  if (/^\d+$/.test(text)) {
+    const value = parseInt(text, 10)
+    if (value < spec.min || value > spec.max) {
+      throw new CronSyntaxError(
+        `${value} is out of range for ${spec.label} (${spec.min}–${spec.max})`,
+        spec.name,
+        offset,
+        text.length
+      )
+    }
+    return value
+  }
+  const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1
+  if (nameIndex !== -1) return spec.name === 'month' ? nameIndex + 1 : nameIndex
+  const unsupported = /[LW#]/i.test(text) && /^[\dLW#]+$/i.test(text)
+  throw new CronSyntaxError(
+    unsupported
+      ? `"${text}" uses L/W/# modifiers, which standard cron does not support`
+      : spec.names
+        ? `"${text}" is not a valid ${spec.label}; use ${spec.min}–${spec.max} or ${spec.names[0]}–${spec.names[spec.names.length - 1]}`
+        : `"${text}" is not a valid ${spec.label}; expected a number ${spec.min}–${spec.max}`,
+    spec.name,
+    offset,
+    text.length
+  )
+}
+
+/** One list item: `*`, `?`, `a`, `a-b`, optionally followed by `/step` */
+function parseItem(item: string, offset: number, spec: FieldSpec, values: Set<number>) {
+  const slash = item.indexOf('/')
+  const base = slash === -1 ? item : item.slice(0, slash)
+  let step = 1
+
+  if (slash !== -1) {
+    const stepText = item.slice(slash + 1)
+    const stepOffset = offset + slash + 1
+    if (!/^\d+$/.test(stepText)) {
+      throw new CronSyntaxError(`Step "${stepText}" must be a positive number`, spec.name, stepOffset, Math.max(1, stepText.length))
+    }
+    step = parseInt(stepText, 10)
+    if (step < 1 || step > spec.max) {
+      throw new CronSyntaxError(`Step ${step} is out of range for ${spec.label} (1–${spec.max})`, spec.name, stepOffset, stepText.length)
+    }
+  }
+
+  if (base === '') {
+    throw new CronSyntaxError(`Missing value before "/"`, spec.name, offset, 1)
+  }
+
+  let start: number
+  let end: number
+  if (base === '*' || base === '?') {
+    if (base === '?' && spec.name !== 'dayOfMonth' && spec.name !== 'dayOfWeek') {
+      throw new CronSyntaxError(`"?" is only allowed in day-of-month and day-of-week`, spec.name, offset, 1)
+    }
+    start = spec.min
+    end = spec.name === 'dayOfWeek' ? 6 : spec.max
+  } else {
+    const dash = base.indexOf('-', 1)
+    if (dash === -1) {
+      start = parseValue(base, offset, spec)
+      // `a/n` means every n starting at a
+      end = slash === -1 ? start : spec.name === 'dayOfWeek' ? 6 : spec.max
+    } else {
+      const startText = base.slice(0, dash)
+      const endText = base.slice(dash + 1)
+      if (endText === '') throw new CronSyntaxError(`Range "${base}" has no end`, spec.name, offset, base.length)
+      start = parseValue(startText, offset, spec)
+      end = parseValue(endText, offset + dash + 1, spec)
+      if (start > end) {
+        throw new CronSyntaxError(`Range ${startText}-${endText} runs backwards`, spec.name, offset, base.length)
+      }
+    }
+  }
+
+  for (let value = start; value <= end; value += step) {
+    values.add(spec.name === 'dayOfWeek' && value === 7 ? 0 : value)
+  }
+}
+
+function parseField(text: string, offset: number, spec: FieldSpec): number[] {
+  const values = new Set<number>()
+  let itemOffset = offset
+  for (const item of text.split(',')) {
+    if (item === '') throw new CronSyntaxError(`Empty item in ${spec.label} list`, spec.name, itemOffset, 1)
+    parseItem(item, itemOffset, spec, values)
+    itemOffset += item.length + 1
+  }
+  return Array.from(values).sort((a, b) => a - b)
+}
+
+/** Parse and validate a cron expression; errors point at the offending text */
+export function parseCron(expression: string): CronParseResult {
+  const source = expression ?? ''
+  const trimmed = source.trim()
+  if (!trimmed) {
+    return { success: false, error: { message: 'Cron expression is empty', field: null, position: 0, length: 0 } }
+  }
+
+  let tokens: { text: string; position: number }[]
+  if (trimmed.startsWith('@')) {
+    const macro = MACROS[trimmed.toLowerCase()]
+    if (!macro) {
+      return {
+        success: false,
+        error: {
+          message: `Unknown macro "${trimmed}"; use ${Object.keys(MACROS).join(', ')}`,
+          field: null,
+          position: source.indexOf(trimmed),
+          length: trimmed.length,
+        },
+      }
+    }
+    // Errors can't occur inside a macro, so every field points at the macro itself
+    tokens = macro.split(' ').map(text => ({ text, position: source.indexOf(trimmed) }))
+  } else {
+    tokens = Array.from(source.matchAll(/\S+/g)).map(match => ({ text: match[0], position: match.index ?? 0 }))
+  }
+
+  if (tokens.length !== 5) {
+    const extra = tokens[5]
+    return {
+      success: false,
+      error: {
+        message: `Expected 5 fields (minute hour day-of-month month day-of-week) but found ${tokens.length}`,
+        field: null,
+        position: extra ? extra.position : source.length,
+        length: extra ? source.length - extra.position : 0,
+      },
+    }
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELD_SPECS.map((spec, i) =>
+      parseField(tokens[i].text, tokens[i].position, spec)
+    )
+    const fields = Object.fromEntries(FIELD_SPECS.map((spec, i) => [spec.name, tokens[i].text])) as Record<CronFieldName, string>
+    // Vixie's DOM_STAR/DOW_STAR: the field's first character decides
+    const unrestricted = (text: string) => text.startsWith('*') || text === '?'
+    const cron: ParsedCron = {
+      expression: tokens.map(t => t.text).join(' '),
+      fields,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      domRestricted: !unrestricted(fields.dayOfMonth),
+      dowRestricted: !unrestricted(fields.dayOfWeek),
+    }
+    // Only the day fields against month can be unsatisfiable (e.g. `0 0 30 2 *`): with both
+    // restricted either one matches on its own, and every minute and hour occurs each day
+    if (
+      !isWildcard(fields.dayOfMonth) &&
+      !(cron.domRestricted && cron.dowRestricted) &&
+      nextCronRuns(cron, { count: 1 }).length === 0
+    ) {
+      return {
+        success: false,
+        error: {
+          message: `Day-of-month ${fields.dayOfMonth} never occurs on the selected days and months, so this schedule would never run`,
+          field: 'dayOfMonth',
+          position: tokens[2].position,
+          length: tokens[2].text.length,
+        },
+      }
+    }
+    return { success: true, cron }
+  } catch (error) {
+    if (error instanceof CronSyntaxError) {
+      return { success: false, error: { message: error.message, field: error.field, position: error.position, length: error.length } }
+    }
+    throw error
+  }
+}
+
+/** The error of an invalid expression, or null when it is valid */
+export function validateCron(expression: string): CronError | null {
+  return parseCron(expression).error ?? null
+}
+
+/** "Invalid cron expression: … (position 7)" */
+export function formatCronError(error: CronError): string {
+  return `Invalid cron expression: ${error.message} (position ${error.position + 1})`
+}
+
+// ---------------------------------------------------------------------------
+// Description
+// ---------------------------------------------------------------------------
+
+function joinWords(words: string[]): string {
+  if (words.length <= 1) return words[0] ?? ''
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`
+}
+
+function formatClock(hour: number, minute: number): string {
+  return `${hour}:${String(minute).padStart(2, '0')}`
+}
+
+/** `*` or `?` alone — the field doesn't narrow anything */
+function isWildcard(text: string): boolean {
+  return text === '*' || text === '?'
+}
+
+function isSingleValue(text: string): boolean {
+  return /^[^,\-*/?]+$/.test(text)
+}
+
+/** `*\/n` → n, otherwise null */
+function everyStep(text: string): number | null {
+  const match = /^[*?]\/(\d+)$/.exec(text)
+  return match ? parseInt(match[1], 10) : null
+}
+
+/** Describe one field's list items, e.g. "Monday through Friday" or "every 2 hours from 8 through 18" */
+function describeItems(text: string, spec: FieldSpec, format: (value: number) => string, unit: string): string {
+  const value = (token: string) => {
+    const upper = token.toUpperCase()
+    const nameIndex = spec.names?.indexOf(upper) ?? -1
+    const numeric = nameIndex !== -1 ? (spec.name === 'month' ? nameIndex + 1 : nameIndex) : parseInt(token, 10)
+    return format(spec.name === 'dayOfWeek' && numeric === 7 ? 0 : numeric)
+  }
+  return joinWords(
+    text.split(',').map(item => {
+      const [base, step] = item.split('/')
+      const [start, end] = base.split('-')
+      const range = base === '*' || base === '?' ? '' : end !== undefined ? `${value(start)} through ${value(end)}` : value(start)
+      if (!step) return range
+      const every = `every ${step} ${unit}s`
+      if (!range) return every
+      return end !== undefined ? `${every} from ${range}` : `${every} starting at ${range}`
+    })
+  )
+}
+
+function describeTime(cron: ParsedCron): { phrase: string; specificTime: boolean } {
+  const { minute, hour } = cron.fields
+  const minuteSpec = FIELD_SPECS[0]
+  const hourSpec = FIELD_SPECS[1]
+
+  if (isSingleValue(minute) && hour !== '*' && hour.split(',').every(isSingleValue) && cron.hours.length <= 6) {
+    return { phrase: `at ${joinWords(cron.hours.map(h => formatClock(h, cron.minutes[0])))}`, specificTime: true }
+  }
+  const minuteStep = everyStep(minute)
+  const hourStep = everyStep(hour)
+  if (hour === '*') {
+    if (minute === '*') return { phrase: 'every minute', specificTime: false }
+    if (minuteStep) return { phrase: `every ${minuteStep} minutes`, specificTime: false }
+    if (isSingleValue(minute)) return { phrase: `every hour at :${String(cron.minutes[0]).padStart(2, '0')}`, specificTime: false }
+  }
+  if (hourStep && isSingleValue(minute)) {
+    const at = cron.minutes[0] === 0 ? '' : ` at :${String(cron.minutes[0]).padStart(2, '0')}`
+    return { phrase: `every ${hourStep} hours${at}`, specificTime: false }
+  }
+
+  const hourRange = /^(\d+)-(\d+)$/.exec(hour)
+  if (hourRange && isSingleValue(minute)) {
+    const from = formatClock(parseInt(hourRange[1], 10), cron.minutes[0])
+    const to = formatClock(parseInt(hourRange[2], 10), cron.minutes[0])
+    return { phrase: `every hour from ${from} to ${to}`, specificTime: false }
+  }
+
+  const minuteItems = describeItems(minute, minuteSpec, String, 'minute')
+  const minutePhrase =
+    minute === '*'
+      ? 'every minute'
+      : minuteItems.startsWith('every')
+        ? minuteItems
+        : `at minute${cron.minutes.length > 1 ? 's' : ''} ${minuteItems}`
+  const hourItems = describeItems(hour, hourSpec, String, 'hour')
+  if (hourItems.startsWith('every') && isSingleValue(minute)) {
+    return { phrase: `${hourItems} at :${String(cron.minutes[0]).padStart(2, '0')}`, specificTime: false }
+  }
+  const hourPhrase =
+    hour === '*'
+      ? ''
+      : hourRange
+        ? ` between ${formatClock(parseInt(hourRange[1], 10), 0)} and ${formatClock(parseInt(hourRange[2], 10), 59)}`
+        : hourItems.startsWith('every')
+          ? `, ${hourItems}`
+          : ` past hour${cron.hours.length > 1 ? 's' : ''} ${hourItems}`
+  return { phrase: `${minutePhrase}${hourPhrase}`, specificTime: false }
+}
+
+function describeDays(cron: ParsedCron): string {
+  const domSpec = FIELD_SPECS[2]
+  const dowSpec = FIELD_SPECS[4]
+  const parts: string[] = []
+  if (!isWildcard(cron.fields.dayOfMonth)) {
+    const step = everyStep(cron.fields.dayOfMonth)
+    parts.push(
+      step
+        ? `every ${step} days of the month`
+        : `on day${cron.daysOfMonth.length > 1 ? 's' : ''} ${describeItems(cron.fields.dayOfMonth, domSpec, String, 'day')} of the month`
+    )
+  }
+  if (!isWildcard(cron.fields.dayOfWeek)) {
+    const days = cron.daysOfWeek.join(',')
+    parts.push(
+      days === '1,2,3,4,5'
+        ? 'on weekdays'
+        : days === '0,6'
+          ? 'on weekends'
+          : `on ${describeItems(cron.fields.dayOfWeek, dowSpec, d => DAY_NAMES[d], 'day')}`
+    )
+  }
+  return parts.join(cron.domRestricted && cron.dowRestricted ? ' or ' : ' and ')
+}
+
+function describeMonths(cron: ParsedCron): string {
+  const { month } = cron.fields
+  if (month === '*') return ''
+  const step = everyStep(month)
+  if (step) return `every ${step} months`
+  return `in ${describeItems(month, FIELD_SPECS[3], m => MONTH_NAMES[m - 1], 'month')}`
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/** Human-readable text for any valid expression */
+export function describeCron(cron: ParsedCron): string {
+  const time = describeTime(cron)
+  const days = describeDays(cron)
+  const months = describeMonths(cron)
+  const clock = time.phrase.replace(/^at /, '')
+
+  // Short forms for the shapes people use most
+  if (time.specificTime && !months) {
+    if (!days) return `Every day at ${clock}`
+    if (isWildcard(cron.fields.dayOfMonth)) {
+      if (days === 'on weekdays') return `Weekdays at ${clock}`
+      if (days === 'on weekends') return `Weekends at ${clock}`
+      if (cron.daysOfWeek.length === 1) return `Every ${DAY_NAMES[cron.daysOfWeek[0]]} at ${clock}`
+    }
+    if (isWildcard(cron.fields.dayOfWeek) && cron.daysOfMonth.length === 1) return `Day ${cron.daysOfMonth[0]} of every month at ${clock}`
+  }
+
+  return capitalize([time.phrase, days, months].filter(Boolean).join(', '))
+}
+
+// ---------------------------------------------------------------------------
+// Next runs
+// ---------------------------------------------------------------------------
+
+interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  weekday: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function zonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+/** Wall-clock fields of an instant in a timezone */
+function zonedParts(time: number, timezone: string): ZonedParts {
+  const parts: Record<string, number> = {}
+  for (const part of zonedFormatter(timezone).formatToParts(time)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    weekday: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  }
+}
+
+/** The instant at a wall-clock time in a timezone (fields may overflow, like Date.UTC) */
+function zonedTime(timezone: string, year: number, month: number, day: number, hour: number, minute: number): number {
+  const wall = Date.UTC(year, month - 1, day, hour, minute)
+  const offsetAt = (time: number) => {
+    const p = zonedParts(time, timezone)
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - time
+  }
+  const guess = wall - offsetAt(wall)
+  // A second pass corrects guesses that landed on the other side of a DST change
+  return wall - offsetAt(guess)
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    zonedFormatter(timezone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function dayMatches(cron: ParsedCron, parts: ZonedParts): boolean {
+  const dom = cron.daysOfMonth.includes(parts.day)
+  const dow = cron.daysOfWeek.includes(parts.weekday)
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow
+  return dom && dow
+}
+
+/**
+ * The next `count` fire times after `from`, evaluated in an IANA timezone.
+ * Wall-clock times skipped by a DST change don't fire; repeated ones fire once.
+ */
+export function nextCronRuns(
+  expression: string | ParsedCron,
+  options?: { count?: number; timezone?: string; from?: Date }
+): Date[] {
+  const cron = typeof expression === 'string' ? parseCron(expression).cron : expression
+  const timezone = options?.timezone || 'UTC'
+  if (!cron || !isValidTimezone(timezone)) return []
+
+  const count = options?.count ?? 5
+  const from = options?.from?.getTime() ?? Date.now()
+  const horizon = from + SEARCH_HORIZON_MS
+  const runs: Date[] = []
+  // Wall clock of the latest run; during a DST fall-back the clock repeats and must not fire again
+  let lastWallClock = -Infinity
+  // Start at the next whole minute
+  let time = Math.floor(from / 60_000) * 60_000 + 60_000
+
+  while (runs.length < count && time < horizon) {
+    const parts = zonedParts(time, timezone)
+    if (!cron.months.includes(parts.month)) {
+      time = Math.max(time + 60_000, zonedTime(timezone, parts.year, parts.month + 1, 1, 0, 0))
+    } else if (!dayMatches(cron, parts)) {
+      time = Math.max(time + 60_000, zonedTime(timezone, parts.year, parts.month, parts.day + 1, 0, 0))
+    } else if (!cron.hours.includes(parts.hour)) {
+      time += (60 - parts.minute) * 60_000
+    } else if (!cron.minutes.includes(parts.minute)) {
+      const nextMinute = cron.minutes.find(m => m > parts.minute)
+      time += ((nextMinute ?? 60) - parts.minute) * 60_000
+    } else {
+      const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+      if (wallClock > lastWallClock) {
+        runs.push(new Date(time))
+        lastWallClock = wallClock
+      }
+      time += 60_000
+    }
+  }
+  return runs
+}
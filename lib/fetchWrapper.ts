@@ -1,4 +1,4 @@
-const fetchWrapper = async (...args) => {
+const fetchWrapper = async (...args: Parameters<typeof fetch>) => {
   try {
     const response = await fetch(...args);
 
@@ -39,6 +39,11 @@ const fetchWrapper = async (...args) => {
 
     return response;
   } catch (error) {
+    // caller aborted the request — not a backend failure, let them handle it
+    if (error instanceof Error && error.name === "AbortError") {
+      throw error;
+    }
+
     // network failures
     const shouldRefresh = confirm(
       "Cannot connect to backend. Click OK to refresh.",
@@ -0,0 +1,222 @@
+'use client'
+
+/**
+ * Transformation History Store
+ *
+ * Persists every transform run in IndexedDB so results survive a refresh.
+ * The original image is stored as a Blob alongside a small thumbnail so
+ * entries can be re-run later without the user re-uploading the file.
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { AIAgentResponse } from '@/lib/aiAgent'
+import type { TransformationDetails } from '@/lib/styleTransform'
+import { generateUUID } from '@/lib/utils'
+
+const DB_NAME = 'lyzr-style-transformer'
+const DB_VERSION = 1
+const STORE_NAME = 'history'
+const THUMBNAIL_EDGE = 256
+
+// Types
+export interface HistoryEntry {
+  id: string
+  createdAt: string
+  updatedAt: string
+  fileName: string
+  originalThumbnail: string
+  originalBlob?: Blob
+  /** Black/white region mask the edit was restricted to (see lib/mask) */
+  maskBlob?: Blob
+  resultImageUrl: string
+  styleNote: string
+  presetName?: string
+  details: TransformationDetails | null
+  agentResponse: AIAgentResponse | null
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'createdAt' | 'updatedAt' | 'originalThumbnail'> & {
+  originalFile?: File | Blob
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB helpers
+// ---------------------------------------------------------------------------
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDB(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'))
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+          store.createIndex('createdAt', 'createdAt')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error || new Error('Failed to open history database'))
+      }
+    })
+  }
+  return dbPromise
+}
+
+function runRequest<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return openDB().then(
+    db =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE_NAME, mode)
+        const request = fn(tx.objectStore(STORE_NAME))
+        request.onsuccess = () => resolve(request.result as T)
+        request.onerror = () => reject(request.error || new Error('History database request failed'))
+      })
+  )
+}
+
+/**
+ * Render a small JPEG data URL preview of an image file
+ */
+export async function createThumbnail(file: Blob, maxEdge: number = THUMBNAIL_EDGE): Promise<string> {
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas 2D context unavailable')
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  return canvas.toDataURL('image/jpeg', 0.8)
+}
+
+// ---------------------------------------------------------------------------
+// CRUD
+// ---------------------------------------------------------------------------
+
+/** List every history entry, newest first. */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await runRequest<HistoryEntry[]>('readonly', store => store.getAll())
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export async function getHistoryEntry(id: string): Promise<HistoryEntry | undefined> {
+  return runRequest<HistoryEntry | undefined>('readonly', store => store.get(id))
+}
+
+/** Store a new run. The thumbnail is generated from the original file. */
+export async function addHistoryEntry(input: NewHistoryEntry): Promise<HistoryEntry> {
+  const { originalFile, ...rest } = input
+  let originalThumbnail = ''
+  if (originalFile) {
+    try {
+      originalThumbnail = await createThumbnail(originalFile)
+    } catch {
+      // Thumbnail is best-effort; the entry is still useful without it
+    }
+  }
+  const now = new Date().toISOString()
+  const entry: HistoryEntry = {
+    ...rest,
+    id: generateUUID(),
+    createdAt: now,
+    updatedAt: now,
+    originalThumbnail,
+    originalBlob: originalFile ?? rest.originalBlob,
+  }
+  await runRequest('readwrite', store => store.put(entry))
+  return entry
+}
+
+/** Merge changes into an existing entry and bump updatedAt. */
+export async function updateHistoryEntry(id: string, patch: Partial<HistoryEntry>): Promise<HistoryEntry | undefined> {
+  const existing = await getHistoryEntry(id)
+  if (!existing) return undefined
+  const entry: HistoryEntry = { ...existing, ...patch, id, updatedAt: new Date().toISOString() }
+  await runRequest('readwrite', store => store.put(entry))
+  return entry
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id))
+}
+
+export async function clearHistory(): Promise<void> {
+  await runRequest('readwrite', store => store.clear())
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/** React hook exposing the history list with loading/error state. */
+export function useTransformHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setLoading(true)
+    try {
+      setEntries(await listHistoryEntries())
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const add = useCallback(async (input: NewHistoryEntry) => {
+    try {
+      const entry = await addHistoryEntry(input)
+      setEntries(prev => [entry, ...prev])
+      return entry
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save history entry')
+      return null
+    }
+  }, [])
+
+  const update = useCallback(async (id: string, patch: Partial<HistoryEntry>) => {
+    try {
+      const entry = await updateHistoryEntry(id, patch)
+      if (entry) {
+        setEntries(prev => prev.map(e => (e.id === id ? entry : e)))
+      }
+      return entry ?? null
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update history entry')
+      return null
+    }
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteHistoryEntry(id)
+      setEntries(prev => prev.filter(e => e.id !== id))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete history entry')
+    }
+  }, [])
+
+  return {
+    entries,
+    loading,
+    error,
+    refresh,
+    add,
+    update,
+    remove,
+  }
+}
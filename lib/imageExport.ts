@@ -0,0 +1,214 @@
+'use client'
+
+/**
+ * Result Image Export
+ *
+ * Re-encodes the agent's result in the chosen format and quality, fits it to
+ * social media sizes (letterboxed with a brand color or cropped to fill) and
+ * bundles several sizes into a ZIP. Remote images are fetched through the
+ * same-origin /api/artifact proxy so CORS never blocks the canvas.
+ */
+
+import { createCanvas, canvasToBlob } from '@/lib/imagePreprocess'
+import { createZip } from '@/lib/zip'
+import { proxiedArtifactUrl } from '@/lib/styleTransform'
+
+// Types
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+export type FitMode = 'pad' | 'cover'
+
+export interface ExportSize {
+  id: string
+  label: string
+  width: number
+  height: number
+}
+
+export interface ExportOptions {
+  format: ExportFormat
+  quality: number
+  fit: FitMode
+  /** Hex color for letterbox bars, or 'auto' to pick the brand color closest to the image edges */
+  background: string
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; mime: string; extension: string; lossy: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', extension: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', extension: 'jpg', lossy: true },
+  webp: { label: 'WEBP', mime: 'image/webp', extension: 'webp', lossy: true },
+  avif: { label: 'AVIF', mime: 'image/avif', extension: 'avif', lossy: true },
+}
+
+/** width/height of 0 means "keep the original resolution" */
+export const ORIGINAL_SIZE: ExportSize = { id: 'original', label: 'Original', width: 0, height: 0 }
+
+export const SOCIAL_SIZES: ExportSize[] = [
+  { id: 'linkedin-banner', label: 'LinkedIn banner', width: 1584, height: 396 },
+  { id: 'x-post', label: 'X post', width: 1600, height: 900 },
+  { id: 'og-image', label: 'OG image', width: 1200, height: 630 },
+  { id: 'square', label: 'Square', width: 1080, height: 1080 },
+]
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'png',
+  quality: 0.9,
+  fit: 'pad',
+  background: 'auto',
+}
+
+/**
+ * Fetch an image as a Blob. http(s) URLs go through the same-origin proxy.
+ */
+export async function fetchImageBlob(url: string): Promise<Blob> {
+  const response = await fetch(proxiedArtifactUrl(url))
+  if (!response.ok) {
+    let message = `Could not load image (status ${response.status})`
+    try {
+      const data = await response.json()
+      if (data?.error) message = data.error
+    } catch {
+      // Non-JSON error body
+    }
+    throw new Error(message)
+  }
+  return response.blob()
+}
+
+const encodeSupport = new Map<string, Promise<boolean>>()
+
+/**
+ * Browsers silently fall back to PNG for formats they can't encode,
+ * so probe with a 1x1 canvas and compare the resulting type.
+ */
+export function supportsEncoding(format: ExportFormat): Promise<boolean> {
+  const { mime } = EXPORT_FORMATS[format]
+  if (!encodeSupport.has(mime)) {
+    const probe = canvasToBlob(createCanvas(1, 1), mime, 0.5)
+      .then(blob => blob.type === mime)
+      .catch(() => false)
+    encodeSupport.set(mime, probe)
+  }
+  return encodeSupport.get(mime)!
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace('#', ''), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+/**
+ * Pick the palette color closest to the average color along the image border,
+ * so letterbox bars blend into the picture instead of framing it.
+ */
+export function pickLetterboxColor(bitmap: ImageBitmap, palette: string[]): string {
+  if (palette.length === 0) return '#000000'
+  const sample = createCanvas(32, 32)
+  const ctx = sample.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) return palette[0]
+  ctx.drawImage(bitmap, 0, 0, 32, 32)
+  const { data } = ctx.getImageData(0, 0, 32, 32)
+
+  let r = 0, g = 0, b = 0, count = 0
+  for (let y = 0; y < 32; y++) {
+    for (let x = 0; x < 32; x++) {
+      if (x !== 0 && y !== 0 && x !== 31 && y !== 31) continue
+      const i = (y * 32 + x) * 4
+      r += data[i]
+      g += data[i + 1]
+      b += data[i + 2]
+      count++
+    }
+  }
+  const edge = [r / count, g / count, b / count]
+
+  let best = palette[0]
+  let bestDistance = Infinity
+  for (const hex of palette) {
+    const [pr, pg, pb] = hexToRgb(hex)
+    const distance = (pr - edge[0]) ** 2 + (pg - edge[1]) ** 2 + (pb - edge[2]) ** 2
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = hex
+    }
+  }
+  return best
+}
+
+/**
+ * Render one size of the image in the requested format
+ */
+export async function renderExport(
+  bitmap: ImageBitmap,
+  size: ExportSize,
+  options: ExportOptions,
+  palette: string[] = []
+): Promise<Blob> {
+  const format = EXPORT_FORMATS[options.format]
+  if (!(await supportsEncoding(options.format))) {
+    throw new Error(`${format.label} export is not supported in this browser`)
+  }
+
+  const width = size.width || bitmap.width
+  const height = size.height || bitmap.height
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) throw new Error('Canvas 2D context unavailable')
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+
+  const scale = options.fit === 'cover'
+    ? Math.max(width / bitmap.width, height / bitmap.height)
+    : Math.min(width / bitmap.width, height / bitmap.height)
+  const drawW = bitmap.width * scale
+  const drawH = bitmap.height * scale
+
+  if (options.fit === 'pad') {
+    ctx.fillStyle = options.background === 'auto' ? pickLetterboxColor(bitmap, palette) : options.background
+    ctx.fillRect(0, 0, width, height)
+  } else if (options.format === 'jpeg') {
+    // JPEG has no alpha channel; keep transparent pixels from turning into noise
+    ctx.fillStyle = '#000000'
+    ctx.fillRect(0, 0, width, height)
+  }
+  ctx.drawImage(bitmap, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH)
+
+  return canvasToBlob(canvas, format.mime, format.lossy ? options.quality : undefined)
+}
+
+export function exportFileName(baseName: string, size: ExportSize, format: ExportFormat): string {
+  const suffix = size.id === ORIGINAL_SIZE.id ? '' : `-${size.id}-${size.width}x${size.height}`
+  return `${baseName}${suffix}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Render every requested size and bundle them into a ZIP
+ */
+export async function exportZip(
+  bitmap: ImageBitmap,
+  sizes: ExportSize[],
+  options: ExportOptions,
+  baseName: string,
+  palette: string[] = []
+): Promise<Blob> {
+  const entries = []
+  for (const size of sizes) {
+    const blob = await renderExport(bitmap, size, options, palette)
+    entries.push({
+      name: exportFileName(baseName, size, options.format),
+      data: new Uint8Array(await blob.arrayBuffer()),
+    })
+  }
+  return createZip(entries)
+}
+
+/** Trigger a browser download for a Blob */
+export function saveBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
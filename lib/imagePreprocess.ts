@@ -0,0 +1,189 @@
+'use client'
+
+/**
+ * Client-side Image Preprocessing
+ *
+ * Runs before upload: applies EXIF orientation, strips metadata (the image is
+ * re-encoded from a canvas, so EXIF/GPS blocks are dropped), optionally rotates,
+ * center-crops to an aspect ratio and downscales to a maximum edge.
+ * Uses OffscreenCanvas when the browser has it.
+ */
+
+// Types
+export type CropAspect = 'original' | '1:1' | '4:3' | '3:4' | '16:9' | '9:16'
+export type Rotation = 0 | 90 | 180 | 270
+
+export interface PreprocessOptions {
+  maxEdge: number
+  aspect: CropAspect
+  rotate: Rotation
+}
+
+export interface PreprocessResult {
+  file: File
+  width: number
+  height: number
+  size: number
+  originalWidth: number
+  originalHeight: number
+  originalSize: number
+  exifOrientation: number
+}
+
+export const MAX_EDGE_OPTIONS = [1024, 2048, 4096]
+export const CROP_ASPECTS: CropAspect[] = ['original', '1:1', '4:3', '3:4', '16:9', '9:16']
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: 2048,
+  aspect: 'original',
+  rotate: 0,
+}
+
+const ENCODE_QUALITY = 0.92
+
+/**
+ * Read the EXIF orientation tag (1-8) from a JPEG. Returns 1 when absent.
+ * Only used for reporting — decoding with imageOrientation 'from-image' applies it.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer)
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+    // APP1 segment with "Exif\0\0" header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      if (tiff + 8 > view.byteLength) return 1
+      const little = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, little)
+      if (ifd + 2 > view.byteLength) return 1
+      const entries = view.getUint16(ifd, little)
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12
+        if (entry + 10 > view.byteLength) return 1
+        if (view.getUint16(entry, little) === 0x0112) {
+          return view.getUint16(entry + 8, little)
+        }
+      }
+      return 1
+    }
+    if ((marker & 0xff00) !== 0xff00) break
+    offset += 2 + length
+  }
+  return 1
+}
+
+function parseAspect(aspect: CropAspect): number | null {
+  if (aspect === 'original') return null
+  const [w, h] = aspect.split(':').map(Number)
+  return w / h
+}
+
+export type AnyCanvas = OffscreenCanvas | HTMLCanvasElement
+
+export function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function getContext(canvas: AnyCanvas) {
+  const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null
+  if (!ctx) throw new Error('Canvas 2D context unavailable')
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  return ctx
+}
+
+export function canvasToBlob(canvas: AnyCanvas, type: string, quality?: number): Promise<Blob> {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type, quality })
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error(`Could not encode image as ${type}`))),
+      type,
+      quality
+    )
+  })
+}
+
+/**
+ * Apply orientation, rotation, crop and downscale, and re-encode without metadata
+ */
+export async function preprocessImage(
+  file: File,
+  options: PreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<PreprocessResult> {
+  const buffer = await file.arrayBuffer()
+  const exifOrientation = file.type === 'image/jpeg' ? readExifOrientation(buffer) : 1
+  const bitmap = await createImageBitmap(new Blob([buffer], { type: file.type }), { imageOrientation: 'from-image' })
+
+  try {
+    // 1. Rotation — swap dimensions for quarter turns
+    const quarterTurn = options.rotate === 90 || options.rotate === 270
+    const rotatedW = quarterTurn ? bitmap.height : bitmap.width
+    const rotatedH = quarterTurn ? bitmap.width : bitmap.height
+    let source: AnyCanvas | ImageBitmap = bitmap
+    if (options.rotate !== 0) {
+      const rotated = createCanvas(rotatedW, rotatedH)
+      const ctx = getContext(rotated)
+      ctx.translate(rotatedW / 2, rotatedH / 2)
+      ctx.rotate((options.rotate * Math.PI) / 180)
+      ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2)
+      source = rotated
+    }
+
+    // 2. Center crop to the requested aspect ratio
+    let cropW = rotatedW
+    let cropH = rotatedH
+    const ratio = parseAspect(options.aspect)
+    if (ratio) {
+      if (rotatedW / rotatedH > ratio) {
+        cropW = Math.round(rotatedH * ratio)
+      } else {
+        cropH = Math.round(rotatedW / ratio)
+      }
+    }
+    const cropX = Math.floor((rotatedW - cropW) / 2)
+    const cropY = Math.floor((rotatedH - cropH) / 2)
+
+    // 3. Downscale to the maximum edge (never upscale)
+    const scale = Math.min(1, options.maxEdge / Math.max(cropW, cropH))
+    const outW = Math.max(1, Math.round(cropW * scale))
+    const outH = Math.max(1, Math.round(cropH * scale))
+
+    const output = createCanvas(outW, outH)
+    getContext(output).drawImage(source, cropX, cropY, cropW, cropH, 0, 0, outW, outH)
+
+    // 4. Re-encode in the original format — canvas output carries no EXIF/GPS metadata
+    const type = ['image/png', 'image/jpeg', 'image/webp'].includes(file.type) ? file.type : 'image/png'
+    const blob = await canvasToBlob(output, type, type === 'image/png' ? undefined : ENCODE_QUALITY)
+
+    return {
+      file: new File([blob], file.name, { type: blob.type, lastModified: Date.now() }),
+      width: outW,
+      height: outH,
+      size: blob.size,
+      originalWidth: bitmap.width,
+      originalHeight: bitmap.height,
+      originalSize: file.size,
+      exifOrientation,
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+/** Format a byte count as KB / MB for display */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+}
@@ -0,0 +1,280 @@
+'use client'
+
+/**
+ * Ingestion Client Utility
+ *
+ * Client-side wrapper for the watch-folder ingestion sources served by
+ * /api/ingest. A source watches a directory under the server's ingest root, or
+ * polls an S3-compatible bucket, on a cron schedule. Every new or changed image
+ * goes through the same upload → agent pipeline as the page; the styled image
+ * and a JSON sidecar with its transformationDetails are written to the
+ * source's output directory.
+ *
+ * Every route requires the admin token (see lib/adminToken.ts).
+ */
+
+import { useState, useCallback } from 'react'
+import { adminFetch } from '@/lib/adminToken'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type IngestSourceKind = 'directory' | 's3'
+
+/** Snapshot of the brand preset used for every image of a source */
+export interface IngestPreset {
+  name: string
+  palette: string[]
+  typography: string
+  dos: string[]
+  donts: string[]
+}
+
+export interface IngestRunSummary {
+  started_at: string
+  finished_at: string | null
+  /** New or changed images seen by this run */
+  found: number
+  processed: number
+  failed: number
+  /** Images left for the next run by the per-run limit */
+  remaining: number
+  /** Why the run stopped early (e.g. the bucket could not be listed) */
+  error: string | null
+}
+
+export interface IngestSource {
+  id: string
+  name: string
+  kind: IngestSourceKind
+  /** Watched directory, relative to the ingest root (kind `directory`) */
+  directory: string
+  /** Bucket and key prefix (kind `s3`) */
+  bucket: string
+  prefix: string
+  /** Where styled images and sidecars go, relative to the ingest root */
+  output_dir: string
+  agent_id: string
+  preset: IngestPreset
+  style_note: string
+  cron_expression: string
+  timezone: string
+  is_active: boolean
+  created_at: string
+  updated_at: string
+  next_run_time: string | null
+  /** A run is in progress on the server */
+  running: boolean
+  last_run: IngestRunSummary | null
+}
+
+export interface IngestSourceInput {
+  name: string
+  kind: IngestSourceKind
+  directory?: string
+  bucket?: string
+  prefix?: string
+  output_dir: string
+  agent_id?: string
+  preset: IngestPreset
+  style_note?: string
+  cron_expression: string
+  timezone: string
+}
+
+export interface IngestFileRecord {
+  /** File name in the directory, or object key in the bucket */
+  key: string
+  /** Size and mtime (directory) or ETag (S3); a change re-processes the image */
+  fingerprint: string
+  status: 'completed' | 'failed'
+  attempts: number
+  job_id: string | null
+  /** Outputs relative to the ingest root */
+  output_image: string | null
+  output_sidecar: string | null
+  error: string | null
+  processed_at: string
+}
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+function detailsMessage(details: unknown): string | undefined {
+  return Array.isArray(details) ? details.map((d: { message: string }) => d.message).join('; ') : (details as string | undefined)
+}
+
+/** `status` is 401 when the admin token is missing or wrong */
+export async function listIngestSources(): Promise<{
+  success: boolean
+  sources: IngestSource[]
+  s3_configured?: boolean
+  status?: number
+  error?: string
+}> {
+  try {
+    const res = await adminFetch('/api/ingest')
+    const data = await res.json()
+    if (!data.success) return { success: false, sources: [], status: res.status, error: data.error }
+    return { success: true, sources: data.sources || [], s3_configured: data.s3_configured, status: res.status }
+  } catch (error) {
+    return { success: false, sources: [], error: errorMessage(error) }
+  }
+}
+
+export async function createIngestSource(
+  input: IngestSourceInput
+): Promise<{ success: boolean; source?: IngestSource; error?: string; details?: string }> {
+  try {
+    const res = await adminFetch('/api/ingest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, details: detailsMessage(data.details) }
+    return { success: true, source: data.source }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function updateIngestSource(
+  sourceId: string,
+  changes: Partial<IngestSourceInput> & { is_active?: boolean }
+): Promise<{ success: boolean; source?: IngestSource; error?: string; details?: string }> {
+  try {
+    const res = await adminFetch(`/api/ingest/${encodeURIComponent(sourceId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error, details: detailsMessage(data.details) }
+    return { success: true, source: data.source }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Remove a source and its processed-file log; outputs already written stay */
+export async function deleteIngestSource(sourceId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/ingest/${encodeURIComponent(sourceId)}`, { method: 'DELETE' })
+    const data = await res.json()
+    return data.success ? { success: true } : { success: false, error: data.error }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Start a run now, outside the source's schedule */
+export async function runIngestSource(sourceId: string): Promise<{ success: boolean; source?: IngestSource; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/ingest/${encodeURIComponent(sourceId)}/run`, { method: 'POST' })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, source: data.source }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Most recently processed images of a source first */
+export async function listIngestFiles(
+  sourceId: string,
+  limit = 100
+): Promise<{ success: boolean; files: IngestFileRecord[]; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/ingest/${encodeURIComponent(sourceId)}/files?limit=${limit}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, files: [], error: data.error }
+    return { success: true, files: data.files || [] }
+  } catch (error) {
+    return { success: false, files: [], error: errorMessage(error) }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+export function useIngestion() {
+  const [sources, setSources] = useState<IngestSource[]>([])
+  const [s3Configured, setS3Configured] = useState(false)
+  const [files, setFiles] = useState<IngestFileRecord[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [needsToken, setNeedsToken] = useState(false)
+
+  const replaceSource = (source: IngestSource) => {
+    setSources(prev => prev.map(s => (s.id === source.id ? source : s)))
+  }
+
+  const loadSources = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listIngestSources()
+    setLoading(false)
+    setNeedsToken(result.status === 401)
+    if (result.success) {
+      setSources(result.sources)
+      setS3Configured(result.s3_configured === true)
+    } else {
+      setError(result.error || 'Failed to load ingestion sources')
+    }
+    return result
+  }, [])
+
+  const loadFiles = useCallback(async (sourceId: string) => {
+    const result = await listIngestFiles(sourceId)
+    if (result.success) setFiles(result.files)
+    else setError(result.error || 'Failed to load processed files')
+    return result
+  }, [])
+
+  const create = useCallback(async (input: IngestSourceInput) => {
+    const result = await createIngestSource(input)
+    if (result.success && result.source) setSources(prev => [result.source!, ...prev])
+    return result
+  }, [])
+
+  const update = useCallback(async (sourceId: string, changes: Parameters<typeof updateIngestSource>[1]) => {
+    const result = await updateIngestSource(sourceId, changes)
+    if (result.success && result.source) replaceSource(result.source)
+    return result
+  }, [])
+
+  const remove = useCallback(async (sourceId: string) => {
+    const result = await deleteIngestSource(sourceId)
+    if (result.success) setSources(prev => prev.filter(s => s.id !== sourceId))
+    return result
+  }, [])
+
+  const run = useCallback(async (sourceId: string) => {
+    const result = await runIngestSource(sourceId)
+    if (result.success && result.source) replaceSource(result.source)
+    return result
+  }, [])
+
+  return {
+    sources,
+    s3Configured,
+    files,
+    loading,
+    error,
+    needsToken,
+    loadSources,
+    loadFiles,
+    create,
+    update,
+    remove,
+    run,
+  }
+}
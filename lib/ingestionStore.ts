@@ -0,0 +1,525 @@
+/**
+ * Watch-Folder Ingestion
+ * Server-side utility for the /api/ingest routes and the ingestion timer.
+ *
+ * A source watches a directory under INGEST_ROOT (default DATA_DIR/watch) or
+ * polls an S3-compatible bucket (see lib/s3Client) on its cron schedule. Every
+ * image that is new or changed since the last run becomes a transform job —
+ * the same upload → agent → validate steps as /api/v1/transform — and the
+ * styled image (`<name>.styled.<ext>`) plus a `<name>.json` sidecar with its
+ * transformationDetails are written to the source's output directory,
+ * mirroring the input layout. `<name>` keeps the input's extension, so
+ * `foo.png` and `foo.jpg` don't overwrite each other's output.
+ *
+ * Sources live in DATA_DIR/ingest-sources.json; the per-source log of
+ * processed files (DATA_DIR/ingest/<id>.json) is what makes an image "seen".
+ * Failed images are retried on later runs up to MAX_FILE_ATTEMPTS times.
+ * Directories and output paths must stay inside INGEST_ROOT, also once symlinks
+ * are resolved, so the API can't be used to read or write elsewhere on the
+ * server; symlinked images in a watched directory are skipped.
+ */
+
+import crypto from 'crypto'
+import path from 'path'
+import { constants as fsConstants, promises as fs } from 'fs'
+import { z } from 'zod'
+import { dataPath, readJsonFile, updateJsonFile, writeFileAtomic } from '@/lib/serverData'
+import { LYZR_API_KEY } from '@/lib/lyzrTask'
+import { runTransformJob } from '@/lib/transformJobs'
+import { getArtifact, readArtifactBytes, sniffImageType } from '@/lib/artifactCache'
+import { buildPresetPrompt } from '@/lib/brandPrompt'
+import { nextCronRuns, validateCron, formatCronError, isValidTimezone } from '@/lib/cron'
+import { getS3Config, listObjects, getObject } from '@/lib/s3Client'
+import { startMinuteTimer } from '@/lib/minuteTimer'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import type { IngestFileRecord, IngestRunSummary, IngestSource, IngestSourceInput } from '@/lib/ingestion'
+
+const INGEST_ROOT = path.resolve(process.env.INGEST_ROOT || dataPath('watch'))
+
+const SOURCES_FILE = dataPath('ingest-sources.json')
+const MAX_FILES_PER_RUN = Math.max(1, Number(process.env.INGEST_MAX_FILES_PER_RUN) || 10)
+const MAX_FILE_ATTEMPTS = 3
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024
+/** Local files modified more recently than this may still be copying in */
+const SETTLE_MS = 30_000
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp']
+const ACCEPTED_TYPES = ['image/png', 'image/jpeg', 'image/webp']
+const OUTPUT_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' }
+
+// Types
+type StoredSource = Omit<IngestSource, 'running'>
+
+interface SourceState {
+  files: Record<string, IngestFileRecord>
+}
+
+/** An image found by a run, read only if it needs processing */
+interface Candidate {
+  key: string
+  fingerprint: string
+  size: number
+  read: () => Promise<Uint8Array>
+}
+
+/** Written next to every styled image */
+export interface IngestSidecar {
+  source: { id: string; name: string; kind: IngestSource['kind']; key: string }
+  job_id: string
+  agent_id: string
+  preset_name: string
+  style_note: string
+  image_url: string
+  transformationDetails: Record<string, unknown> | null
+  issues: SchemaIssue[]
+  processed_at: string
+}
+
+/** Sources with a run in progress in this process */
+const runningSources = new Set<string>()
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isInside(root: string, resolved: string): boolean {
+  return resolved === root || resolved.startsWith(root + path.sep)
+}
+
+/** Absolute path of `relative` inside INGEST_ROOT, or null if it escapes. Textual only: see realPathInRoot */
+function resolveInRoot(relative: string): string | null {
+  if (path.isAbsolute(relative)) return null
+  const resolved = path.resolve(INGEST_ROOT, relative)
+  return isInside(INGEST_ROOT, resolved) ? resolved : null
+}
+
+/**
+ * `absolute` with every symlink resolved — for a path that doesn't exist yet,
+ * those of its deepest existing ancestor. Throws unless the result is still
+ * inside the ingest root, so a symlink can't lead reads or writes out of it.
+ */
+async function realPathInRoot(absolute: string): Promise<string> {
+  await fs.mkdir(INGEST_ROOT, { recursive: true })
+  const root = await fs.realpath(INGEST_ROOT)
+  const missing: string[] = []
+  let existing = absolute
+  let real: string
+  while (true) {
+    try {
+      real = await fs.realpath(existing)
+      break
+    } catch (error) {
+      const parent = path.dirname(existing)
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' || parent === existing) throw error
+      missing.unshift(path.basename(existing))
+      existing = parent
+    }
+  }
+  const resolved = path.join(real, ...missing)
+  if (!isInside(root, resolved)) {
+    throw new Error(`${path.relative(INGEST_ROOT, absolute) || '.'} leads outside the ingest root`)
+  }
+  return resolved
+}
+
+const relativePath = z
+  .string()
+  .trim()
+  .max(300)
+  .refine(value => resolveInRoot(value) !== null, 'Must be a relative path inside the ingest root')
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  palette: z.array(z.string().regex(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i, 'expected a hex color')).max(16),
+  typography: z.string().max(500),
+  dos: z.array(z.string().max(300)).max(20),
+  donts: z.array(z.string().max(300)).max(20),
+})
+
+const sourceFields = z.object({
+  name: z.string().trim().min(1).max(100),
+  kind: z.enum(['directory', 's3']),
+  directory: relativePath.optional(),
+  bucket: z
+    .string()
+    .trim()
+    .regex(/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/, 'Not a valid bucket name')
+    .optional(),
+  prefix: z.string().max(500).optional(),
+  output_dir: relativePath.refine(value => value !== '', 'Choose an output directory'),
+  agent_id: z.string().max(100).optional(),
+  preset: presetSchema,
+  style_note: z.string().max(1000).optional(),
+  cron_expression: z.string().superRefine((value, ctx) => {
+    const error = validateCron(value)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: formatCronError(error) })
+  }),
+  timezone: z.string().refine(isValidTimezone, 'Unknown timezone'),
+})
+
+/** Cross-field rules shared by create and update (applied to the merged source) */
+function checkSource(source: Partial<IngestSourceInput>, ctx: z.RefinementCtx) {
+  if (source.kind === 'directory') {
+    if (!source.directory) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['directory'], message: 'Choose a directory to watch' })
+    } else if (source.output_dir !== undefined && resolveInRoot(source.directory) === resolveInRoot(source.output_dir)) {
+      // Outputs would be picked up again as new images
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['output_dir'], message: 'Output directory must differ from the watched directory' })
+    }
+  }
+  if (source.kind === 's3' && !source.bucket) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bucket'], message: 'Choose a bucket' })
+  }
+}
+
+/** Request body of POST /api/ingest */
+export const ingestSourceInputSchema = sourceFields.superRefine(checkSource)
+
+/** Request body of PATCH /api/ingest/:id; cross-field rules are checked by updateIngestSource */
+export const ingestSourceUpdateSchema = sourceFields.partial().extend({ is_active: z.boolean().optional() })
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function readSources(): Promise<StoredSource[]> {
+  return readJsonFile<StoredSource[]>(SOURCES_FILE, [])
+}
+
+function updateSources<T>(mutate: (sources: StoredSource[]) => T): Promise<T> {
+  return updateJsonFile<StoredSource[], T>(SOURCES_FILE, [], mutate)
+}
+
+function statePath(sourceId: string): string {
+  return dataPath('ingest', `${sourceId}.json`)
+}
+
+function readState(sourceId: string): Promise<SourceState> {
+  return readJsonFile<SourceState>(statePath(sourceId), { files: {} })
+}
+
+function recordFile(sourceId: string, record: IngestFileRecord): Promise<void> {
+  return updateJsonFile<SourceState, void>(statePath(sourceId), { files: {} }, state => {
+    state.files[record.key] = record
+  })
+}
+
+function toPublicSource(source: StoredSource): IngestSource {
+  return { ...source, running: runningSources.has(source.id) }
+}
+
+function nextRunTime(source: StoredSource, from: number): string | null {
+  const [next] = nextCronRuns(source.cron_expression, { count: 1, timezone: source.timezone, from: new Date(from) })
+  return next ? next.toISOString() : null
+}
+
+// ---------------------------------------------------------------------------
+// Source management
+// ---------------------------------------------------------------------------
+
+export function isS3Configured(): boolean {
+  return getS3Config() !== null
+}
+
+export async function listIngestSources(): Promise<IngestSource[]> {
+  startIngestion()
+  return (await readSources()).map(toPublicSource).reverse()
+}
+
+export async function createIngestSource(input: IngestSourceInput & { agent_id: string }): Promise<IngestSource> {
+  const now = new Date().toISOString()
+  const source: StoredSource = {
+    id: `ing_${crypto.randomBytes(6).toString('hex')}`,
+    name: input.name.trim(),
+    kind: input.kind,
+    directory: input.kind === 'directory' ? input.directory ?? '' : '',
+    bucket: input.kind === 's3' ? input.bucket ?? '' : '',
+    prefix: input.kind === 's3' ? input.prefix ?? '' : '',
+    output_dir: input.output_dir,
+    agent_id: input.agent_id,
+    preset: input.preset,
+    style_note: input.style_note?.trim() ?? '',
+    cron_expression: input.cron_expression,
+    timezone: input.timezone,
+    is_active: true,
+    created_at: now,
+    updated_at: now,
+    next_run_time: null,
+    last_run: null,
+  }
+  source.next_run_time = nextRunTime(source, Date.now())
+  await updateSources(sources => {
+    sources.push(source)
+  })
+  startIngestion()
+  return toPublicSource(source)
+}
+
+/**
+ * Apply `changes`; resolves with the updated source, null if it doesn't exist,
+ * or the validation issues of the merged source
+ */
+export async function updateIngestSource(
+  id: string,
+  changes: Partial<IngestSourceInput> & { is_active?: boolean }
+): Promise<IngestSource | null | { issues: { path: string; message: string }[] }> {
+  return updateSources(sources => {
+    const source = sources.find(s => s.id === id)
+    if (!source) return null
+    const merged = { ...source, ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) }
+    const checked = z.object({}).passthrough().superRefine((value, ctx) => checkSource(value, ctx)).safeParse(merged)
+    if (!checked.success) {
+      return { issues: checked.error.issues.map(i => ({ path: i.path.join('.'), message: i.message })) }
+    }
+    Object.assign(source, merged, { updated_at: new Date().toISOString() })
+    if (changes.cron_expression !== undefined || changes.timezone !== undefined || changes.is_active !== undefined) {
+      source.next_run_time = source.is_active ? nextRunTime(source, Date.now()) : null
+    }
+    return toPublicSource(source)
+  })
+}
+
+/** Remove a source and its processed-file log; a run in progress stops after its current image */
+export async function deleteIngestSource(id: string): Promise<boolean> {
+  const removed = await updateSources(sources => {
+    const index = sources.findIndex(s => s.id === id)
+    if (index === -1) return false
+    sources.splice(index, 1)
+    return true
+  })
+  if (removed) await fs.rm(statePath(id), { force: true })
+  return removed
+}
+
+/** Processed images of a source, most recent first; null if the source doesn't exist */
+export async function listIngestFiles(id: string, limit = 100): Promise<IngestFileRecord[] | null> {
+  if (!(await readSources()).some(s => s.id === id)) return null
+  const files = Object.values((await readState(id)).files)
+  return files.sort((a, b) => b.processed_at.localeCompare(a.processed_at)).slice(0, limit)
+}
+
+/** Start a run now unless one is in progress; null if the source doesn't exist */
+export async function triggerIngestSource(id: string): Promise<IngestSource | null> {
+  const source = (await readSources()).find(s => s.id === id)
+  if (!source) return null
+  runInBackground(id)
+  return toPublicSource(source)
+}
+
+// ---------------------------------------------------------------------------
+// Runs
+// ---------------------------------------------------------------------------
+
+/** Images in the watched directory (top level only) that have finished copying */
+async function listDirectory(source: StoredSource): Promise<Candidate[]> {
+  const resolved = resolveInRoot(source.directory)
+  if (!resolved) throw new Error('Watched directory is outside the ingest root')
+  const directory = await realPathInRoot(resolved)
+  const entries = await fs.readdir(directory, { withFileTypes: true })
+  const candidates: Candidate[] = []
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.startsWith('.')) continue
+    if (!IMAGE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) continue
+    const filePath = path.join(directory, entry.name)
+    const stat = await fs.stat(filePath)
+    if (Date.now() - stat.mtimeMs < SETTLE_MS) continue
+    candidates.push({
+      key: entry.name,
+      fingerprint: `${stat.size}:${Math.round(stat.mtimeMs)}`,
+      size: stat.size,
+      // O_NOFOLLOW: the file may have been swapped for a symlink since the listing
+      read: async () => {
+        const file = await fs.open(filePath, fsConstants.O_RDONLY | fsConstants.O_NOFOLLOW)
+        try {
+          return new Uint8Array(await file.readFile())
+        } finally {
+          await file.close()
+        }
+      },
+    })
+  }
+  return candidates
+}
+
+async function listBucket(source: StoredSource): Promise<Candidate[]> {
+  const config = getS3Config()
+  if (!config) throw new Error('S3 is not configured on the server (INGEST_S3_*)')
+  const objects = await listObjects(config, source.bucket, source.prefix)
+  return objects
+    .filter(object => !object.key.endsWith('/') && IMAGE_EXTENSIONS.includes(path.posix.extname(object.key).toLowerCase()))
+    .map(object => ({
+      key: object.key,
+      fingerprint: object.etag,
+      size: object.size,
+      read: () => getObject(config, source.bucket, object.key),
+    }))
+}
+
+/** Base of the output paths: the input's path, extension included, under the output directory */
+function outputBase(source: StoredSource, key: string): string {
+  const relative = source.kind === 's3' ? key.slice(source.prefix.length) : key
+  const segments = relative.split('/').filter(segment => segment !== '' && segment !== '.' && segment !== '..')
+  const name = segments.pop() || 'image'
+  const base = path.join(resolveInRoot(source.output_dir) ?? INGEST_ROOT, ...segments, name)
+  if (!resolveInRoot(path.relative(INGEST_ROOT, base))) throw new Error('Output path is outside the ingest root')
+  return base
+}
+
+async function ingestFile(source: StoredSource, candidate: Candidate, attempts: number): Promise<IngestFileRecord> {
+  const record: IngestFileRecord = {
+    key: candidate.key,
+    fingerprint: candidate.fingerprint,
+    status: 'failed',
+    attempts,
+    job_id: null,
+    output_image: null,
+    output_sidecar: null,
+    error: null,
+    processed_at: '',
+  }
+  // Not an image we can send: retrying won't help
+  const reject = (error: string) => {
+    record.error = error
+    record.attempts = MAX_FILE_ATTEMPTS
+    record.processed_at = new Date().toISOString()
+    return record
+  }
+
+  try {
+    if (candidate.size > MAX_IMAGE_BYTES) return reject(`The image exceeds ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`)
+    const bytes = await candidate.read()
+    const type = sniffImageType(bytes)
+    if (!type || !ACCEPTED_TYPES.includes(type)) return reject('The file is not a PNG, JPG or WEBP image')
+
+    const fileName = path.posix.basename(candidate.key)
+    const job = await runTransformJob({
+      keyId: `ingest:${source.id}`,
+      file: new File([bytes as BlobPart], fileName, { type }),
+      message: buildPresetPrompt({ ...source.preset, id: 'ingest', exampleImageUrl: '' }, source.style_note),
+      job: {
+        source: 'ingest',
+        file_name: fileName,
+        style_note: source.style_note,
+        preset_name: source.preset.name,
+        agent_id: source.agent_id,
+      },
+      attempt: attempts,
+    })
+    record.job_id = job.id
+    if (job.status !== 'completed' || !job.result) {
+      throw new Error([job.error || 'Transform failed', job.details].filter(Boolean).join(': '))
+    }
+
+    const lookup = await getArtifact(job.result.image_url)
+    if (!lookup.success || !lookup.artifact) {
+      throw new Error([lookup.error || 'Could not download the styled image', lookup.details].filter(Boolean).join(': '))
+    }
+    // Resolved before writeFileAtomic creates missing directories, which would follow symlinks
+    const textBase = outputBase(source, candidate.key)
+    const base = path.join(await realPathInRoot(path.dirname(textBase)), path.basename(textBase))
+    const extension = OUTPUT_EXTENSIONS[lookup.artifact.contentType] ?? 'png'
+    const imagePath = `${base}.styled.${extension}`
+    const sidecarPath = `${base}.json`
+    const processedAt = new Date().toISOString()
+    const sidecar: IngestSidecar = {
+      source: { id: source.id, name: source.name, kind: source.kind, key: candidate.key },
+      job_id: job.id,
+      agent_id: source.agent_id,
+      preset_name: source.preset.name,
+      style_note: source.style_note,
+      image_url: job.result.image_url,
+      transformationDetails: job.result.details,
+      issues: job.result.issues,
+      processed_at: processedAt,
+    }
+    await writeFileAtomic(imagePath, await readArtifactBytes(lookup.artifact))
+    await writeFileAtomic(sidecarPath, JSON.stringify(sidecar, null, 2))
+
+    record.status = 'completed'
+    record.output_image = path.relative(INGEST_ROOT, `${textBase}.styled.${extension}`)
+    record.output_sidecar = path.relative(INGEST_ROOT, `${textBase}.json`)
+    record.processed_at = processedAt
+  } catch (error) {
+    record.error = error instanceof Error ? error.message : String(error)
+    record.processed_at = new Date().toISOString()
+  }
+  return record
+}
+
+/** Process the source's new and changed images, at most MAX_FILES_PER_RUN of them */
+async function runSource(sourceId: string): Promise<void> {
+  if (runningSources.has(sourceId)) return
+  runningSources.add(sourceId)
+  try {
+    const source = (await readSources()).find(s => s.id === sourceId)
+    if (!source) return
+    const summary: IngestRunSummary = {
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      found: 0,
+      processed: 0,
+      failed: 0,
+      remaining: 0,
+      error: null,
+    }
+
+    try {
+      if (!LYZR_API_KEY) throw new Error('LYZR_API_KEY not configured on server')
+      const candidates = source.kind === 's3' ? await listBucket(source) : await listDirectory(source)
+      const { files } = await readState(sourceId)
+      const pending = candidates.filter(candidate => {
+        const seen = files[candidate.key]
+        if (!seen || seen.fingerprint !== candidate.fingerprint) return true
+        return seen.status === 'failed' && seen.attempts < MAX_FILE_ATTEMPTS
+      })
+      summary.found = pending.length
+      summary.remaining = Math.max(0, pending.length - MAX_FILES_PER_RUN)
+
+      for (const candidate of pending.slice(0, MAX_FILES_PER_RUN)) {
+        // Deleted mid-run
+        if (!(await readSources()).some(s => s.id === sourceId)) return
+        const seen = files[candidate.key]
+        const attempts = seen && seen.fingerprint === candidate.fingerprint ? seen.attempts + 1 : 1
+        const record = await ingestFile(source, candidate, attempts)
+        await recordFile(sourceId, record)
+        if (record.status === 'completed') summary.processed++
+        else summary.failed++
+      }
+    } catch (error) {
+      summary.error = error instanceof Error ? error.message : String(error)
+    }
+
+    summary.finished_at = new Date().toISOString()
+    await updateSources(sources => {
+      const stored = sources.find(s => s.id === sourceId)
+      if (stored) stored.last_run = summary
+    })
+  } finally {
+    runningSources.delete(sourceId)
+  }
+}
+
+function runInBackground(sourceId: string) {
+  runSource(sourceId).catch(error => console.error(`Ingestion run of ${sourceId} failed:`, error))
+}
+
+/** Run every active source whose next_run_time has come and advance it */
+async function tick() {
+  const now = Date.now()
+  const due = await updateSources(sources => {
+    const ids: string[] = []
+    for (const source of sources) {
+      if (!source.is_active || !source.next_run_time) continue
+      if (new Date(source.next_run_time).getTime() > now) continue
+      // Catching up after downtime is harmless here: one run picks up everything new
+      ids.push(source.id)
+      source.next_run_time = nextRunTime(source, now)
+    }
+    return ids
+  })
+  due.forEach(runInBackground)
+}
+
+/** Start the minute timer; safe to call repeatedly */
+export function startIngestion() {
+  startMinuteTimer('Ingestion', tick)
+}
@@ -0,0 +1,264 @@
+'use client'
+
+/**
+ * Pending Job Store
+ *
+ * Records each transform the page submits in localStorage — task_id, uploaded
+ * asset, agent, session and prompt — until its result arrives. Every variant
+ * and batch item is recorded as its own job, with its `kind` so the page can
+ * file the result where it belongs. The task_id
+ * otherwise only lives inside the running agent call, so a reload mid-transform
+ * would orphan the task on Lyzr. After a reload usePendingJobs resumes every
+ * recorded job and hands completed results back to the page.
+ *
+ * localStorage is shared by every open tab, so a job is claimed by the tab
+ * running or resuming it and the claim is renewed while it runs. Other tabs
+ * only resume jobs whose claim has lapsed, e.g. because their tab was closed.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { resumeAIAgent } from '@/lib/aiAgent'
+import { generateUUID } from '@/lib/utils'
+import { createCancelledError, extractTransformOutput, isCancelledError } from '@/lib/styleTransform'
+import type { SubmittedTransformTask, TransformResult } from '@/lib/styleTransform'
+
+const STORAGE_KEY = 'lyzr-pending-jobs'
+/** Older jobs are dropped on load — Lyzr no longer has their result */
+const MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000
+/** A claim not renewed for this long is treated as abandoned */
+const CLAIM_TTL_MS = 30 * 1000
+const CLAIM_RENEW_MS = 10 * 1000
+/** Identifies this page load among the open tabs */
+const TAB_ID = generateUUID()
+
+// Types
+/** Where the job was started: the main transform, a batch item or a variant slot */
+export type PendingJobKind = 'single' | 'batch' | 'variant'
+
+export interface PendingJob {
+  task_id: string
+  /** The uploaded image; a mask, if any, follows in asset_ids */
+  asset_id: string
+  asset_ids: string[]
+  agent_id: string
+  session_id: string | null
+  user_id: string | null
+  /** Message sent to the agent */
+  prompt: string
+  file_name: string
+  style_note: string
+  preset_name: string | null
+  /** Missing on jobs recorded before kinds existed; those are single transforms */
+  kind?: PendingJobKind
+  submitted_at: string
+  /** Tab that runs or resumes the job, and when it last renewed the claim */
+  claimed_by?: string | null
+  claimed_at?: string | null
+}
+
+export interface TrackedJob extends PendingJob {
+  status: 'resuming' | 'failed'
+  error: string | null
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+export function loadPendingJobs(): PendingJob[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]')
+    if (!Array.isArray(parsed)) return []
+    const cutoff = Date.now() - MAX_JOB_AGE_MS
+    return parsed.filter((job: PendingJob) => job?.task_id && new Date(job.submitted_at).getTime() >= cutoff)
+  } catch {
+    return []
+  }
+}
+
+function writePendingJobs(jobs: PendingJob[]) {
+  try {
+    if (jobs.length === 0) window.localStorage.removeItem(STORAGE_KEY)
+    else window.localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs))
+  } catch {
+    // Storage full or blocked (private mode / iframe) — the job just can't be resumed
+  }
+}
+
+/** Record a submitted transform task, claimed by this tab; call removePendingJob once it settles */
+export function savePendingJob(
+  task: SubmittedTransformTask,
+  meta: { file_name: string; style_note: string; preset_name?: string; kind?: PendingJobKind }
+): PendingJob {
+  const now = new Date().toISOString()
+  const job: PendingJob = {
+    task_id: task.task_id,
+    asset_id: task.asset_ids[0] ?? '',
+    asset_ids: task.asset_ids,
+    agent_id: task.agent_id,
+    session_id: task.session_id ?? null,
+    user_id: task.user_id ?? null,
+    prompt: task.message,
+    file_name: meta.file_name,
+    style_note: meta.style_note,
+    preset_name: meta.preset_name ?? null,
+    kind: meta.kind ?? 'single',
+    submitted_at: now,
+    claimed_by: TAB_ID,
+    claimed_at: now,
+  }
+  writePendingJobs([...loadPendingJobs().filter(j => j.task_id !== job.task_id), job])
+  keepClaimsAlive()
+  return job
+}
+
+export function removePendingJob(task_id: string) {
+  writePendingJobs(loadPendingJobs().filter(job => job.task_id !== task_id))
+}
+
+// ---------------------------------------------------------------------------
+// Claims
+// ---------------------------------------------------------------------------
+
+function isClaimedElsewhere(job: PendingJob, now: number): boolean {
+  return (
+    !!job.claimed_by &&
+    job.claimed_by !== TAB_ID &&
+    now - new Date(job.claimed_at ?? 0).getTime() < CLAIM_TTL_MS
+  )
+}
+
+/** Claim every job no other tab is working on; returns the claimed jobs */
+function claimPendingJobs(): PendingJob[] {
+  const now = Date.now()
+  const jobs = loadPendingJobs()
+  const claimed = jobs.filter(job => !isClaimedElsewhere(job, now))
+  if (claimed.length === 0) return []
+  const claimedAt = new Date(now).toISOString()
+  writePendingJobs(
+    jobs.map(job => (claimed.includes(job) ? { ...job, claimed_by: TAB_ID, claimed_at: claimedAt } : job))
+  )
+  keepClaimsAlive()
+  // Another tab may have written in between; only keep what is still ours
+  return loadPendingJobs().filter(job => job.claimed_by === TAB_ID && claimed.some(c => c.task_id === job.task_id))
+}
+
+let renewTimer: ReturnType<typeof setInterval> | null = null
+
+/** Renew this tab's claims until it has no jobs left */
+function keepClaimsAlive() {
+  if (renewTimer) return
+  renewTimer = setInterval(() => {
+    const jobs = loadPendingJobs()
+    const now = new Date().toISOString()
+    if (!jobs.some(job => job.claimed_by === TAB_ID)) {
+      clearInterval(renewTimer!)
+      renewTimer = null
+      return
+    }
+    writePendingJobs(jobs.map(job => (job.claimed_by === TAB_ID ? { ...job, claimed_at: now } : job)))
+  }, CLAIM_RENEW_MS)
+}
+
+// ---------------------------------------------------------------------------
+// Resume
+// ---------------------------------------------------------------------------
+
+/** Wait for a recorded job's task and extract its image like transformImage does */
+export async function resumePendingJob(job: PendingJob, signal?: AbortSignal): Promise<TransformResult> {
+  const response = await resumeAIAgent(
+    { task_id: job.task_id, user_id: job.user_id ?? undefined, session_id: job.session_id ?? undefined },
+    job.agent_id,
+    { signal }
+  )
+  if (response.cancelled) throw createCancelledError()
+  if (!response.success) {
+    throw new Error(response.error || response.response?.message || 'Transformation failed')
+  }
+  const output = extractTransformOutput(response, job.agent_id)
+  return {
+    imageUrl: output.imageUrl,
+    details: output.details,
+    assetId: job.asset_id,
+    response: output.response,
+    issues: output.issues,
+    sessionId: response.session_id,
+  }
+}
+
+/**
+ * One resume per task for the page's lifetime. Shared so a remount (e.g. React
+ * strict mode) attaches to the running resume — aborting it would cancel the
+ * task on the server.
+ */
+const resumes = new Map<string, { promise: Promise<TransformResult>; controller: AbortController }>()
+
+function startResume(job: PendingJob) {
+  let resume = resumes.get(job.task_id)
+  if (!resume) {
+    const controller = new AbortController()
+    const promise = resumePendingJob(job, controller.signal)
+    // Settled either way: a failed job is shown once, not retried on every reload
+    promise.then(
+      () => removePendingJob(job.task_id),
+      () => removePendingJob(job.task_id)
+    )
+    resume = { promise, controller }
+    resumes.set(job.task_id, resume)
+  }
+  return resume.promise
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+/**
+ * Resume the jobs left over from a previous page load. `onComplete` receives
+ * each finished result; failed jobs stay in `jobs` until dismissed.
+ */
+export function usePendingJobs(options: { onComplete: (job: PendingJob, result: TransformResult) => void }) {
+  const [jobs, setJobs] = useState<TrackedJob[]>([])
+  const onCompleteRef = useRef(options.onComplete)
+  onCompleteRef.current = options.onComplete
+
+  // Load after mount to avoid hydration mismatches
+  useEffect(() => {
+    let active = true
+    // Jobs another open tab is running or resuming stay with that tab
+    const stored = claimPendingJobs()
+    setJobs(stored.map(job => ({ ...job, status: 'resuming', error: null })))
+
+    for (const job of stored) {
+      startResume(job).then(
+        result => {
+          if (!active) return
+          setJobs(prev => prev.filter(j => j.task_id !== job.task_id))
+          onCompleteRef.current(job, result)
+        },
+        (error: unknown) => {
+          if (!active) return
+          if (isCancelledError(error)) {
+            setJobs(prev => prev.filter(j => j.task_id !== job.task_id))
+            return
+          }
+          const message = error instanceof Error ? error.message : 'Transformation failed'
+          setJobs(prev => prev.map(j => (j.task_id === job.task_id ? { ...j, status: 'failed', error: message } : j)))
+        }
+      )
+    }
+    return () => {
+      active = false
+    }
+  }, [])
+
+  /** Cancel a job that's still resuming, or clear a failed one from the list */
+  const dismiss = useCallback((task_id: string) => {
+    resumes.get(task_id)?.controller.abort()
+    removePendingJob(task_id)
+    setJobs(prev => prev.filter(j => j.task_id !== task_id))
+  }, [])
+
+  return { jobs, dismiss }
+}
@@ -0,0 +1,297 @@
+/**
+ * Local Scheduler Backend
+ * Server-side utility for the /api/scheduler route when SCHEDULER_BACKEND=local.
+ *
+ * Schedules persist in DATA_DIR/schedules.json and execution logs in
+ * DATA_DIR/schedule-executions.json, in the same shapes the remote scheduler
+ * returns. A timer in this process wakes at every minute boundary, submits the
+ * message of each due schedule to its agent through the agent queue (the
+ * server-side equivalent of callAIAgent) and writes one ExecutionLog per attempt, retrying up to
+ * `max_retries` times `retry_delay` seconds apart.
+ *
+ * Runs missed while the server was down are not replayed; a schedule that is
+ * overdue by more than MISSED_RUN_GRACE_MS just moves on to its next time.
+ * Retries waiting when the process stops are dropped.
+ */
+
+import crypto from 'crypto'
+import { dataPath, readJsonFile, updateJsonFile } from '@/lib/serverData'
+import { LYZR_API_KEY } from '@/lib/lyzrTask'
+import { runQueuedTask } from '@/lib/agentQueue'
+import { nextCronRuns } from '@/lib/cron'
+import { listWebhooks } from '@/lib/webhookStore'
+import { startMinuteTimer } from '@/lib/minuteTimer'
+import type { Schedule, ExecutionLog } from '@/lib/scheduler'
+import type { SchedulerBackend, SchedulerResult } from '@/lib/schedulerBackend'
+
+const SCHEDULES_FILE = dataPath('schedules.json')
+const EXECUTIONS_FILE = dataPath('schedule-executions.json')
+const MAX_STORED_EXECUTIONS = 5000
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000
+const LOCAL_USER_ID = 'local'
+/** All scheduled runs share one caller's concurrency cap in lib/agentQueue.ts */
+const SCHEDULER_QUEUE_KEY = 'server:schedule'
+const DEFAULT_PAGE_SIZE = 50
+
+/** Schedules with a run (including retry waits) in progress in this process */
+const runningSchedules = new Set<string>()
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function readSchedules(): Promise<Schedule[]> {
+  return readJsonFile<Schedule[]>(SCHEDULES_FILE, [])
+}
+
+function updateSchedules<T>(mutate: (schedules: Schedule[]) => T): Promise<T> {
+  return updateJsonFile<Schedule[], T>(SCHEDULES_FILE, [], mutate)
+}
+
+function readExecutions(): Promise<ExecutionLog[]> {
+  return readJsonFile<ExecutionLog[]>(EXECUTIONS_FILE, [])
+}
+
+function appendExecution(log: ExecutionLog): Promise<void> {
+  return updateJsonFile<ExecutionLog[], void>(EXECUTIONS_FILE, [], executions => {
+    executions.push(log)
+    if (executions.length > MAX_STORED_EXECUTIONS) executions.splice(0, executions.length - MAX_STORED_EXECUTIONS)
+  })
+}
+
+function nextRunTime(schedule: Schedule, from: number): string | null {
+  const [next] = nextCronRuns(schedule.cron_expression, { count: 1, timezone: schedule.timezone, from: new Date(from) })
+  return next ? next.toISOString() : null
+}
+
+function page<T>(items: T[], skip?: number, limit?: number): T[] {
+  const start = skip ?? 0
+  return items.slice(start, start + (limit ?? DEFAULT_PAGE_SIZE))
+}
+
+function notFound(): SchedulerResult {
+  return { success: false, status: 404, error: 'Schedule not found' }
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+async function runAttempt(schedule: Schedule, attempt: number, maxAttempts: number): Promise<ExecutionLog> {
+  const log: ExecutionLog = {
+    id: crypto.randomUUID(),
+    schedule_id: schedule.id,
+    agent_id: schedule.agent_id,
+    user_id: schedule.user_id,
+    session_id: '',
+    executed_at: new Date().toISOString(),
+    attempt,
+    max_attempts: maxAttempts,
+    success: false,
+    payload_message: schedule.message,
+    response_status: 0,
+    response_output: '',
+    error_message: null,
+  }
+
+  try {
+    if (!LYZR_API_KEY) throw new Error('LYZR_API_KEY not configured on server')
+    const { session_id, poll } = await runQueuedTask(
+      {
+        message: schedule.message,
+        agent_id: schedule.agent_id,
+        user_id: schedule.user_id,
+        run: { source: 'schedule', attempt, schedule_id: schedule.id },
+      },
+      SCHEDULER_QUEUE_KEY
+    )
+    log.session_id = session_id || ''
+    log.success = poll.state === 'completed'
+    log.response_status = poll.httpStatus
+    log.response_output = JSON.stringify(poll.body.response ?? poll.body)
+    log.error_message = log.success ? null : poll.body.error || `Agent task ${poll.state}`
+  } catch (error) {
+    log.error_message = error instanceof Error ? error.message : String(error)
+  }
+  return log
+}
+
+/** Run a schedule now with its retry policy; a run already in progress is not doubled */
+async function runSchedule(scheduleId: string): Promise<void> {
+  if (runningSchedules.has(scheduleId)) return
+  runningSchedules.add(scheduleId)
+  try {
+    const schedule = (await readSchedules()).find(s => s.id === scheduleId)
+    if (!schedule) return
+    const maxAttempts = Math.max(0, schedule.max_retries) + 1
+
+    let success = false
+    for (let attempt = 1; attempt <= maxAttempts && !success; attempt++) {
+      if (attempt > 1) await new Promise(resolve => setTimeout(resolve, Math.max(0, schedule.retry_delay) * 1000))
+      const log = await runAttempt(schedule, attempt, maxAttempts)
+      await appendExecution(log)
+      success = log.success
+      // Deleted mid-run: stop retrying
+      if (!success && !(await readSchedules()).some(s => s.id === scheduleId)) return
+    }
+
+    await updateSchedules(schedules => {
+      const stored = schedules.find(s => s.id === scheduleId)
+      if (!stored) return
+      stored.last_run_at = new Date().toISOString()
+      stored.last_run_success = success
+      stored.updated_at = stored.last_run_at
+    })
+  } finally {
+    runningSchedules.delete(scheduleId)
+  }
+}
+
+function runInBackground(scheduleId: string) {
+  runSchedule(scheduleId).catch(error => console.error(`Scheduled run of ${scheduleId} failed:`, error))
+}
+
+/** Fire every active schedule whose next_run_time has come and advance it */
+async function tick() {
+  const now = Date.now()
+  const due = await updateSchedules(schedules => {
+    const ids: string[] = []
+    for (const schedule of schedules) {
+      if (!schedule.is_active || !schedule.next_run_time) continue
+      const dueAt = new Date(schedule.next_run_time).getTime()
+      if (dueAt > now) continue
+      if (now - dueAt <= MISSED_RUN_GRACE_MS) ids.push(schedule.id)
+      schedule.next_run_time = nextRunTime(schedule, now)
+    }
+    return ids
+  })
+  due.forEach(runInBackground)
+}
+
+/** Start the minute timer; safe to call repeatedly */
+export function startLocalScheduler() {
+  startMinuteTimer('Local scheduler', tick)
+}
+
+// ---------------------------------------------------------------------------
+// Backend
+// ---------------------------------------------------------------------------
+
+export const localSchedulerBackend: SchedulerBackend = {
+  name: 'local',
+
+  // Schedules can be managed without a key; runs record the missing key as their error
+  unavailableReason() {
+    return null
+  },
+
+  async list(params) {
+    const schedules = (await readSchedules())
+      .filter(s => !params.agentId || s.agent_id === params.agentId)
+      .filter(s => !params.is_active || String(s.is_active) === params.is_active)
+      .reverse()
+    return { success: true, status: 200, data: { schedules: page(schedules, params.skip, params.limit), total: schedules.length } }
+  },
+
+  async get(scheduleId) {
+    const schedule = (await readSchedules()).find(s => s.id === scheduleId)
+    return schedule ? { success: true, status: 200, data: { ...schedule } } : notFound()
+  },
+
+  async byAgent(agentId) {
+    const schedules = (await readSchedules()).filter(s => s.agent_id === agentId).reverse()
+    const webhooks = (await listWebhooks()).filter(w => !w.agent_id || w.agent_id === agentId)
+    return { success: true, status: 200, data: { agent_id: agentId, schedules, webhooks } }
+  },
+
+  async logs(scheduleId, params) {
+    if (!(await readSchedules()).some(s => s.id === scheduleId)) return notFound()
+    const executions = (await readExecutions()).filter(e => e.schedule_id === scheduleId).reverse()
+    return { success: true, status: 200, data: { executions: page(executions, params.skip, params.limit), total: executions.length } }
+  },
+
+  async recent(params) {
+    const windowMs = params.hours ? params.hours * 3_600_000 : params.days ? params.days * 86_400_000 : null
+    const since = windowMs ? Date.now() - windowMs : null
+    const executions = (await readExecutions())
+      .filter(e => !params.agentId || e.agent_id === params.agentId)
+      .filter(e => !params.success || String(e.success) === params.success)
+      .filter(e => since === null || new Date(e.executed_at).getTime() >= since)
+      .reverse()
+    return { success: true, status: 200, data: { executions: page(executions, params.skip, params.limit), total: executions.length } }
+  },
+
+  async create(input) {
+    const now = new Date().toISOString()
+    const schedule: Schedule = {
+      id: crypto.randomUUID(),
+      user_id: LOCAL_USER_ID,
+      agent_id: input.agent_id,
+      message: input.message,
+      cron_expression: input.cron_expression,
+      timezone: input.timezone,
+      max_retries: input.max_retries,
+      retry_delay: input.retry_delay,
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+      next_run_time: null,
+      last_run_at: null,
+      last_run_success: null,
+    }
+    schedule.next_run_time = nextRunTime(schedule, Date.now())
+    await updateSchedules(schedules => {
+      schedules.push(schedule)
+    })
+    return { success: true, status: 200, data: { ...schedule } }
+  },
+
+  async pause(scheduleId) {
+    const schedule = await updateSchedules(schedules => {
+      const stored = schedules.find(s => s.id === scheduleId)
+      if (!stored || !stored.is_active) return stored ? 'inactive' : null
+      stored.is_active = false
+      stored.next_run_time = null
+      stored.updated_at = new Date().toISOString()
+      return { ...stored }
+    })
+    if (schedule === null) return notFound()
+    // Same wording as the remote service so pauseSchedule treats it as already done
+    if (schedule === 'inactive') return { success: false, status: 400, error: 'Schedule is already paused', details: 'Schedule is already paused' }
+    return { success: true, status: 200, data: schedule }
+  },
+
+  async resume(scheduleId) {
+    const schedule = await updateSchedules(schedules => {
+      const stored = schedules.find(s => s.id === scheduleId)
+      if (!stored || stored.is_active) return stored ? 'active' : null
+      stored.is_active = true
+      stored.next_run_time = nextRunTime(stored, Date.now())
+      stored.updated_at = new Date().toISOString()
+      return { ...stored }
+    })
+    if (schedule === null) return notFound()
+    if (schedule === 'active') return { success: false, status: 400, error: 'Schedule is already active', details: 'Schedule is already active' }
+    return { success: true, status: 200, data: schedule }
+  },
+
+  async trigger(scheduleId) {
+    if (!(await readSchedules()).some(s => s.id === scheduleId)) return notFound()
+    if (runningSchedules.has(scheduleId)) {
+      return { success: false, status: 409, error: 'Trigger failed: 409', details: 'A run of this schedule is already in progress' }
+    }
+    runInBackground(scheduleId)
+    return { success: true, status: 200, data: { message: 'Schedule triggered successfully' } }
+  },
+
+  async remove(scheduleId) {
+    const removed = await updateSchedules(schedules => {
+      const index = schedules.findIndex(s => s.id === scheduleId)
+      if (index === -1) return false
+      schedules.splice(index, 1)
+      return true
+    })
+    if (!removed) return notFound()
+    return { success: true, status: 200, data: { message: 'Schedule deleted successfully', scheduleId } }
+  },
+}
@@ -0,0 +1,470 @@
+/**
+ * Lyzr Task Helpers
+ * Server-side utility for API routes that submit and poll Lyzr agent tasks.
+ *
+ * NEVER import this from client components — it reads LYZR_API_KEY.
+ */
+
+import parseLLMJson from '@/lib/jsonParser'
+import { recordRunSubmitted, recordRunFinished } from '@/lib/runLog'
+import type { RunContext } from '@/lib/runLog'
+
+export const LYZR_TASK_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/task'
+export const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+// Types
+export interface ArtifactFile {
+  file_url: string
+  name: string
+  format_type: string
+}
+
+export interface ModuleOutputs {
+  artifact_files?: ArtifactFile[]
+  [key: string]: any
+}
+
+export interface NormalizedAgentResponse {
+  status: 'success' | 'error'
+  result: Record<string, any>
+  message?: string
+  metadata?: {
+    agent_name?: string
+    timestamp?: string
+    [key: string]: any
+  }
+}
+
+export type TaskState = 'processing' | 'completed' | 'failed' | 'cancelled'
+
+/** JSON body and HTTP status for a single poll of a Lyzr task */
+export interface TaskPollResult {
+  state: TaskState
+  httpStatus: number
+  body: Record<string, any>
+}
+
+// ---------------------------------------------------------------------------
+// Cancellation — in-memory, per server instance
+// ---------------------------------------------------------------------------
+
+const CANCELLED_TTL_MS = 10 * 60 * 1000 // 10 minutes
+const cancelledTasks = new Map<string, number>()
+
+/** Record that the client abandoned a task so pollers stop asking Lyzr about it */
+export function markTaskCancelled(task_id: string) {
+  const now = Date.now()
+  cancelledTasks.forEach((cancelledAt, id) => {
+    if (now - cancelledAt > CANCELLED_TTL_MS) cancelledTasks.delete(id)
+  })
+  cancelledTasks.set(task_id, now)
+}
+
+export function isTaskCancelled(task_id: string): boolean {
+  return cancelledTasks.has(task_id)
+}
+
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
+    const r = (Math.random() * 16) | 0
+    const v = c === 'x' ? r : (r & 0x3) | 0x8
+    return v.toString(16)
+  })
+}
+
+export function normalizeResponse(parsed: any): NormalizedAgentResponse {
+  if (!parsed) {
+    return {
+      status: 'error',
+      result: {},
+      message: 'Empty response from agent',
+    }
+  }
+
+  if (typeof parsed === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed },
+      message: parsed,
+    }
+  }
+
+  if (typeof parsed !== 'object') {
+    return {
+      status: 'success',
+      result: { value: parsed },
+      message: String(parsed),
+    }
+  }
+
+  if ('status' in parsed && 'result' in parsed) {
+    return {
+      status: parsed.status === 'error' ? 'error' : 'success',
+      result: parsed.result || {},
+      message: parsed.message,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('status' in parsed) {
+    const { status, message, metadata, ...rest } = parsed
+    return {
+      status: status === 'error' ? 'error' : 'success',
+      result: Object.keys(rest).length > 0 ? rest : {},
+      message,
+      metadata,
+    }
+  }
+
+  if ('result' in parsed) {
+    const r = parsed.result
+    const msg = parsed.message
+      ?? (typeof r === 'string' ? r : null)
+      ?? (r && typeof r === 'object'
+          ? (r.text ?? r.message ?? r.response ?? r.answer ?? r.summary ?? r.content)
+          : null)
+    return {
+      status: 'success',
+      result: typeof r === 'string' ? { text: r } : (r || {}),
+      message: typeof msg === 'string' ? msg : undefined,
+      metadata: parsed.metadata,
+    }
+  }
+
+  if ('message' in parsed && typeof parsed.message === 'string') {
+    return {
+      status: 'success',
+      result: { text: parsed.message },
+      message: parsed.message,
+    }
+  }
+
+  if ('response' in parsed) {
+    return normalizeResponse(parsed.response)
+  }
+
+  return {
+    status: 'success',
+    result: parsed,
+    message: undefined,
+    metadata: undefined,
+  }
+}
+
+/**
+ * Poll a task by ID once and translate the Lyzr task into our response shape.
+ * The first terminal result closes the task's entry in the run log.
+ */
+export async function fetchTaskStatus(task_id: string): Promise<TaskPollResult> {
+  const poll = await pollLyzrTask(task_id)
+  if (poll.state !== 'processing') {
+    recordRunFinished(task_id, { state: poll.state, httpStatus: poll.httpStatus, error: poll.body.error })
+  }
+  return poll
+}
+
+/** What a poll of a cancelled task answers */
+export function cancelledTaskResult(): TaskPollResult {
+  return {
+    state: 'cancelled',
+    httpStatus: 200,
+    body: {
+      success: false,
+      status: 'cancelled',
+      cancelled: true,
+      response: { status: 'error', result: {}, message: 'Agent call cancelled' },
+      error: 'Agent call cancelled',
+    },
+  }
+}
+
+async function pollLyzrTask(task_id: string): Promise<TaskPollResult> {
+  if (isTaskCancelled(task_id)) return cancelledTaskResult()
+
+  const pollRes = await fetch(`${LYZR_TASK_URL}/${task_id}`, {
+    headers: {
+      'accept': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+  })
+
+  if (!pollRes.ok) {
+    const pollText = await pollRes.text()
+    const msg = pollRes.status === 404
+      ? 'Task expired or not found'
+      : `Poll failed with status ${pollRes.status}`
+    return {
+      state: 'failed',
+      httpStatus: pollRes.status,
+      body: {
+        success: false,
+        status: 'failed',
+        error: msg,
+        raw_response: pollText,
+      },
+    }
+  }
+
+  const task = await pollRes.json()
+
+  // Still processing
+  if (task.status === 'processing') {
+    return { state: 'processing', httpStatus: 200, body: { status: 'processing' } }
+  }
+
+  // Task failed
+  if (task.status === 'failed') {
+    return {
+      state: 'failed',
+      httpStatus: 500,
+      body: {
+        success: false,
+        status: 'failed',
+        response: { status: 'error', result: {}, message: task.error || 'Agent task failed' },
+        error: task.error || 'Agent task failed',
+      },
+    }
+  }
+
+  // Task completed — envelope extraction + parseLLMJson + normalizeResponse
+  const rawText = JSON.stringify(task.response)
+  let moduleOutputs: ModuleOutputs | undefined
+  let agentResponseRaw: any = rawText
+
+  try {
+    const envelope = JSON.parse(rawText)
+    if (envelope && typeof envelope === 'object' && 'response' in envelope) {
+      moduleOutputs = envelope.module_outputs
+      agentResponseRaw = envelope.response
+    }
+  } catch {
+    // Not standard JSON envelope — parseLLMJson will handle it
+  }
+
+  const parsed = parseLLMJson(agentResponseRaw)
+
+  const toNormalize =
+    parsed && typeof parsed === 'object' && parsed.success === false && parsed.data === null
+      ? agentResponseRaw
+      : parsed
+
+  const normalized = normalizeResponse(toNormalize)
+
+  return {
+    state: 'completed',
+    httpStatus: 200,
+    body: {
+      success: true,
+      status: 'completed',
+      response: normalized,
+      module_outputs: moduleOutputs,
+      timestamp: new Date().toISOString(),
+      raw_response: rawText,
+    },
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Submit, upload and wait — shared by the proxy routes and server-side jobs
+// ---------------------------------------------------------------------------
+
+export const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
+
+const WAIT_POLL_INTERVAL_MS = 2000
+const WAIT_TIMEOUT_MS = 5 * 60 * 1000 // 5 minutes
+
+export interface TaskSubmitInput {
+  message: string
+  agent_id: string
+  user_id?: string
+  session_id?: string
+  assets?: string[]
+  /** How the run is labelled in the analytics run log; ad hoc when omitted */
+  run?: RunContext
+}
+
+export interface TaskSubmitResult {
+  success: boolean
+  httpStatus: number
+  task_id?: string
+  user_id: string
+  session_id: string
+  error?: string
+  raw_response?: string
+  /** From Lyzr's Retry-After header when it rate limited the submit (429) */
+  retryAfterMs?: number
+}
+
+export interface UploadedAsset {
+  asset_id: string
+  file_name: string
+  success: boolean
+  error?: string
+}
+
+export interface AssetUploadResult {
+  success: boolean
+  httpStatus: number
+  asset_ids: string[]
+  files: UploadedAsset[]
+  total_files: number
+  successful_uploads: number
+  failed_uploads: number
+  error?: string
+}
+
+/** The user/session ids a task will run under; missing ones are generated */
+export function resolveTaskIds(input: Pick<TaskSubmitInput, 'agent_id' | 'user_id' | 'session_id'>) {
+  return {
+    user_id: input.user_id || `user-${generateUUID()}`,
+    session_id: input.session_id || `${input.agent_id}-${generateUUID().substring(0, 12)}`,
+  }
+}
+
+/** Retry-After as seconds or an HTTP date, in ms */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Submit an async task to Lyzr. Missing user/session ids are generated so
+ * callers can reuse them for follow-ups.
+ */
+export async function submitLyzrTask(input: TaskSubmitInput): Promise<TaskSubmitResult> {
+  const { user_id, session_id } = resolveTaskIds(input)
+
+  const payload: Record<string, any> = {
+    message: input.message,
+    agent_id: input.agent_id,
+    user_id,
+    session_id,
+  }
+  if (input.assets && input.assets.length > 0) {
+    payload.assets = input.assets
+  }
+
+  const submitRes = await fetch(LYZR_TASK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: JSON.stringify(payload),
+  })
+
+  if (!submitRes.ok) {
+    const submitText = await submitRes.text()
+    let error = `Task submit failed with status ${submitRes.status}`
+    try {
+      const errorData = JSON.parse(submitText)
+      error = errorData?.detail || errorData?.error || errorData?.message || error
+    } catch {
+      try {
+        const errorData = parseLLMJson(submitText)
+        error = errorData?.error || errorData?.message || error
+      } catch {}
+    }
+    recordRunSubmitted({ agent_id: input.agent_id, success: false, httpStatus: submitRes.status, error }, input.run)
+    return {
+      success: false,
+      httpStatus: submitRes.status,
+      user_id,
+      session_id,
+      error,
+      raw_response: submitText,
+      retryAfterMs: submitRes.status === 429 ? parseRetryAfter(submitRes.headers.get('retry-after')) : undefined,
+    }
+  }
+
+  const { task_id } = await submitRes.json()
+  recordRunSubmitted({ agent_id: input.agent_id, task_id, success: true, httpStatus: 200 }, input.run)
+  return { success: true, httpStatus: 200, task_id, user_id, session_id }
+}
+
+/** Upload files to Lyzr as assets for a later task */
+export async function uploadLyzrAssets(files: File[]): Promise<AssetUploadResult> {
+  const uploadFormData = new FormData()
+  for (const file of files) {
+    uploadFormData.append('files', file, file.name)
+  }
+
+  const response = await fetch(LYZR_UPLOAD_URL, {
+    method: 'POST',
+    headers: {
+      'x-api-key': LYZR_API_KEY,
+    },
+    body: uploadFormData,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('Upload API error:', response.status, errorText)
+    return {
+      success: false,
+      httpStatus: response.status,
+      asset_ids: [],
+      files: [],
+      total_files: files.length,
+      successful_uploads: 0,
+      failed_uploads: files.length,
+      error: errorText,
+    }
+  }
+
+  const data = await response.json()
+  const uploaded: UploadedAsset[] = (data.results || []).map((r: any) => ({
+    asset_id: r.asset_id || '',
+    file_name: r.file_name || '',
+    success: r.success ?? true,
+    error: r.error,
+  }))
+  const asset_ids = uploaded.filter(f => f.success && f.asset_id).map(f => f.asset_id)
+
+  return {
+    success: true,
+    httpStatus: 200,
+    asset_ids,
+    files: uploaded,
+    total_files: data.total_files || files.length,
+    successful_uploads: data.successful_uploads || asset_ids.length,
+    failed_uploads: data.failed_uploads || 0,
+  }
+}
+
+/**
+ * Poll a task on the server until it reaches a terminal state or times out.
+ * Transient network errors are retried like the SSE route does.
+ */
+export async function waitForTask(
+  task_id: string,
+  options?: { timeoutMs?: number; intervalMs?: number; signal?: AbortSignal }
+): Promise<TaskPollResult> {
+  const timeoutMs = options?.timeoutMs ?? WAIT_TIMEOUT_MS
+  const intervalMs = options?.intervalMs ?? WAIT_POLL_INTERVAL_MS
+  const startTime = Date.now()
+
+  while (!options?.signal?.aborted) {
+    if (Date.now() - startTime > timeoutMs) {
+      const error = `Agent task timed out after ${Math.round(timeoutMs / 60000)} minutes`
+      return {
+        state: 'failed',
+        httpStatus: 504,
+        body: { success: false, status: 'failed', response: { status: 'error', result: {}, message: error }, error },
+      }
+    }
+    try {
+      const poll = await fetchTaskStatus(task_id)
+      if (poll.state !== 'processing') return poll
+    } catch (error) {
+      console.error('Agent task poll error:', error)
+    }
+    await new Promise(r => setTimeout(r, intervalMs))
+  }
+
+  markTaskCancelled(task_id)
+  return fetchTaskStatus(task_id)
+}
@@ -0,0 +1,86 @@
+'use client'
+
+/**
+ * Region Masks
+ *
+ * The painter draws the editable region as opaque pixels on a transparent
+ * canvas (shown as a tinted overlay). For the agent it is exported as a
+ * same-size black/white PNG — white marks the regions that may change — and
+ * uploaded as a second asset next to the image.
+ */
+
+import { createCanvas, canvasToBlob } from '@/lib/imagePreprocess'
+
+export type MaskTool = 'brush' | 'eraser' | 'rect'
+
+/** Overlay tint for painted pixels (the Lyzr accent) */
+export const MASK_OVERLAY_RGB: [number, number, number] = [116, 88, 232]
+
+export const MASK_BRUSH_SIZES = { min: 4, max: 160, default: 40 }
+
+function overlayPixels(data: Uint8ClampedArray, alphaAt: (i: number) => number) {
+  const [r, g, b] = MASK_OVERLAY_RGB
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = alphaAt(i)
+    data[i] = r
+    data[i + 1] = g
+    data[i + 2] = b
+    data[i + 3] = alpha
+  }
+}
+
+/** Flip painted and unpainted regions in place */
+export function invertMask(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const data = image.data
+  overlayPixels(data, i => 255 - data[i + 3])
+  ctx.putImageData(image, 0, 0)
+}
+
+export function isMaskEmpty(canvas: HTMLCanvasElement): boolean {
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return true
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 127) return false
+  }
+  return true
+}
+
+/** Export as a black/white PNG (white = editable), or null when nothing is painted */
+export async function exportMask(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  if (isMaskEmpty(canvas)) return null
+  const source = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+  const out = createCanvas(canvas.width, canvas.height)
+  const ctx = out.getContext('2d') as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D
+  const image = ctx.createImageData(canvas.width, canvas.height)
+  for (let i = 0; i < source.data.length; i += 4) {
+    const value = source.data[i + 3] > 127 ? 255 : 0
+    image.data[i] = value
+    image.data[i + 1] = value
+    image.data[i + 2] = value
+    image.data[i + 3] = 255
+  }
+  ctx.putImageData(image, 0, 0)
+  return canvasToBlob(out, 'image/png')
+}
+
+/** Draw a previously exported black/white mask back onto the painter canvas */
+export async function loadMask(canvas: HTMLCanvasElement, mask: Blob) {
+  const bitmap = await createImageBitmap(mask)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return
+  ctx.clearRect(0, 0, canvas.width, canvas.height)
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const data = image.data
+  overlayPixels(data, i => (data[i] > 127 ? 255 : 0))
+  ctx.putImageData(image, 0, 0)
+}
+
+export function maskFile(mask: Blob, imageName: string): File {
+  return new File([mask], `${imageName.replace(/\.[^.]+$/, '')}-mask.png`, { type: 'image/png' })
+}
@@ -0,0 +1,40 @@
+/**
+ * Minute Timer
+ * Server-side utility for background jobs that run on cron schedules.
+ *
+ * Calls `tick` just after every minute boundary. Dev-mode module reloads
+ * create fresh copies of the calling module, so each timer is keyed by name on
+ * globalThis and only the most recently started copy keeps ticking.
+ */
+
+type Tick = () => Promise<void>
+
+interface RunningTimer {
+  /** The tick function that started it; a reloaded module brings a new one */
+  owner: Tick
+  timer: ReturnType<typeof setTimeout>
+}
+
+const runtime = globalThis as typeof globalThis & { minuteTimers?: Map<string, RunningTimer> }
+const timers = (runtime.minuteTimers ??= new Map<string, RunningTimer>())
+
+function scheduleNext(name: string, tick: Tick) {
+  // Wake just after the next minute boundary
+  const delay = 60_000 - (Date.now() % 60_000) + 250
+  const timer = setTimeout(() => {
+    tick()
+      .catch(error => console.error(`${name} tick failed:`, error))
+      .finally(() => {
+        if (timers.get(name)?.owner === tick) scheduleNext(name, tick)
+      })
+  }, delay)
+  timers.set(name, { owner: tick, timer })
+}
+
+/** Start calling `tick` every minute; calling again with the same function is a no-op */
+export function startMinuteTimer(name: string, tick: Tick) {
+  const current = timers.get(name)
+  if (current?.owner === tick) return
+  if (current) clearTimeout(current.timer)
+  scheduleNext(name, tick)
+}
@@ -0,0 +1,227 @@
+'use client'
+
+/**
+ * Refinement Thread
+ *
+ * Follow-up instructions ("make the gradient subtler") are sent in the same
+ * agent session as the original transform, with the previous output attached
+ * as the asset. Every iteration is kept in a version tree: refining an older
+ * version starts a new branch instead of discarding the later ones.
+ */
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { transformImage, createCancelledError, isCancelledError, AGENT_ID } from '@/lib/styleTransform'
+import type { TransformationDetails, TransformStage } from '@/lib/styleTransform'
+import type { AIAgentResponse } from '@/lib/aiAgent'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import { buildRefinementPrompt, LYZR_PRESET } from '@/lib/brandPresets'
+import type { BrandPreset } from '@/lib/brandPresets'
+import { fetchImageBlob } from '@/lib/imageExport'
+import { generateUUID } from '@/lib/utils'
+
+// Types
+export interface RefinementVersion {
+  id: string
+  parentId: string | null
+  /** Empty for the original result */
+  instruction: string
+  imageUrl: string
+  details: TransformationDetails | null
+  issues: SchemaIssue[]
+  agentId: string
+  sessionId?: string
+  createdAt: string
+}
+
+export interface VersionTree {
+  versions: Record<string, RefinementVersion>
+  rootId: string
+  activeId: string
+}
+
+export interface ThreadRoot {
+  imageUrl: string
+  details: TransformationDetails | null
+  issues?: SchemaIssue[]
+  response?: AIAgentResponse | null
+  agentId?: string
+}
+
+// ---------------------------------------------------------------------------
+// Tree helpers
+// ---------------------------------------------------------------------------
+
+export function createVersionTree(root: ThreadRoot): VersionTree {
+  const version: RefinementVersion = {
+    id: generateUUID(),
+    parentId: null,
+    instruction: '',
+    imageUrl: root.imageUrl,
+    details: root.details,
+    issues: root.issues ?? [],
+    agentId: root.agentId || root.response?.agent_id || AGENT_ID,
+    sessionId: root.response?.session_id,
+    createdAt: new Date().toISOString(),
+  }
+  return { versions: { [version.id]: version }, rootId: version.id, activeId: version.id }
+}
+
+/** Add a version under its parent and make it active */
+export function addVersion(tree: VersionTree, version: RefinementVersion): VersionTree {
+  return { ...tree, versions: { ...tree.versions, [version.id]: version }, activeId: version.id }
+}
+
+export function childrenOf(tree: VersionTree, id: string): RefinementVersion[] {
+  return Object.values(tree.versions)
+    .filter(v => v.parentId === id)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/** Versions from the root down to `id` */
+export function lineageOf(tree: VersionTree, id: string): RefinementVersion[] {
+  const path: RefinementVersion[] = []
+  let current: RefinementVersion | undefined = tree.versions[id]
+  while (current) {
+    path.unshift(current)
+    current = current.parentId ? tree.versions[current.parentId] : undefined
+  }
+  return path
+}
+
+/** Depth-first listing for rendering the tree as an indented list */
+export function flattenTree(tree: VersionTree): { version: RefinementVersion; depth: number; number: number }[] {
+  const rows: { version: RefinementVersion; depth: number; number: number }[] = []
+  const numbers = new Map(
+    Object.values(tree.versions)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map((v, i) => [v.id, i + 1])
+  )
+  const visit = (version: RefinementVersion, depth: number) => {
+    rows.push({ version, depth, number: numbers.get(version.id) ?? 0 })
+    for (const child of childrenOf(tree, version.id)) visit(child, depth + 1)
+  }
+  const root = tree.versions[tree.rootId]
+  if (root) visit(root, 0)
+  return rows
+}
+
+// ---------------------------------------------------------------------------
+// Refinement
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-send `instruction` in the parent's session with the parent's output as the asset.
+ * Rejects with an AbortError (see isCancelledError) when `signal` aborts.
+ */
+export async function refineVersion(
+  parent: RefinementVersion,
+  instruction: string,
+  options?: { preset?: BrandPreset; signal?: AbortSignal; onStage?: (stage: TransformStage) => void }
+): Promise<RefinementVersion> {
+  const blob = await fetchImageBlob(parent.imageUrl)
+  if (options?.signal?.aborted) throw createCancelledError()
+  const extension = blob.type.split('/')[1] || 'png'
+  const file = new File([blob], `refine-${parent.id.slice(0, 8)}.${extension}`, { type: blob.type || 'image/png' })
+
+  const result = await transformImage(file, {
+    message: buildRefinementPrompt(options?.preset ?? LYZR_PRESET, instruction),
+    agentId: parent.agentId,
+    sessionId: parent.sessionId,
+    signal: options?.signal,
+    onStage: options?.onStage,
+  })
+
+  return {
+    id: generateUUID(),
+    parentId: parent.id,
+    instruction: instruction.trim(),
+    imageUrl: result.imageUrl,
+    details: result.details,
+    issues: result.issues,
+    agentId: parent.agentId,
+    sessionId: result.sessionId || parent.sessionId,
+    createdAt: new Date().toISOString(),
+  }
+}
+
+/** React hook holding the version tree of the current result */
+export function useRefinementThread() {
+  const [tree, setTree] = useState<VersionTree | null>(null)
+  const [isRefining, setIsRefining] = useState(false)
+  const [stage, setStage] = useState<TransformStage | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+    abortRef.current = null
+    setIsRefining(false)
+    setStage(null)
+  }, [])
+
+  const start = useCallback((root: ThreadRoot) => {
+    cancel()
+    setTree(createVersionTree(root))
+    setError(null)
+  }, [cancel])
+
+  const clear = useCallback(() => {
+    cancel()
+    setTree(null)
+    setError(null)
+  }, [cancel])
+
+  const select = useCallback((id: string) => {
+    setTree(prev => (prev && prev.versions[id] ? { ...prev, activeId: id } : prev))
+  }, [])
+
+  const refine = useCallback(async (instruction: string, preset?: BrandPreset) => {
+    const parent = tree?.versions[tree.activeId]
+    if (!parent || !instruction.trim()) return
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setIsRefining(true)
+    setError(null)
+
+    try {
+      const version = await refineVersion(parent, instruction, {
+        preset,
+        signal: controller.signal,
+        onStage: s => {
+          if (abortRef.current === controller) setStage(s)
+        },
+      })
+      if (abortRef.current !== controller) return
+      setTree(prev => (prev && prev.versions[parent.id] ? addVersion(prev, version) : prev))
+    } catch (err) {
+      if (isCancelledError(err) || abortRef.current !== controller) return
+      setError(err instanceof Error ? err.message : 'Refinement failed')
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setIsRefining(false)
+        setStage(null)
+      }
+    }
+  }, [tree])
+
+  const activeVersion = tree ? tree.versions[tree.activeId] ?? null : null
+
+  return {
+    tree,
+    activeVersion,
+    isRefining,
+    stage,
+    error,
+    start,
+    clear,
+    select,
+    refine,
+    cancel,
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Remote Scheduler Backend
+ * Server-side utility for the /api/scheduler route.
+ *
+ * Proxies to the Lyzr scheduler service with the server's LYZR_API_KEY.
+ */
+
+import type { SchedulerBackend, SchedulerResult } from '@/lib/schedulerBackend'
+
+const SCHEDULER_BASE_URL = 'https://scheduler.studio.lyzr.ai'
+const LYZR_API_KEY = process.env.LYZR_API_KEY || ''
+
+function getHeaders() {
+  return {
+    'Content-Type': 'application/json',
+    'accept': 'application/json',
+    'x-api-key': LYZR_API_KEY,
+  }
+}
+
+function buildQuery(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(key, String(value))
+  }
+  const qs = query.toString()
+  return qs ? `?${qs}` : ''
+}
+
+/** GET or POST upstream and hand back its JSON body */
+async function forward(url: string, init?: RequestInit): Promise<SchedulerResult> {
+  const response = await fetch(url, { headers: getHeaders(), ...init })
+  if (!response.ok) {
+    const errorText = await response.text()
+    return { success: false, status: response.status, error: `Scheduler API error: ${response.status}`, details: errorText }
+  }
+  return { success: true, status: 200, data: await response.json() }
+}
+
+export const remoteSchedulerBackend: SchedulerBackend = {
+  name: 'remote',
+
+  unavailableReason() {
+    return LYZR_API_KEY ? null : 'LYZR_API_KEY not configured on server'
+  },
+
+  // GET /schedules/?user_id=&agent_id=&is_active=&skip=&limit=
+  list(params) {
+    return forward(
+      `${SCHEDULER_BASE_URL}/schedules/${buildQuery({
+        user_id: LYZR_API_KEY,
+        agent_id: params.agentId,
+        is_active: params.is_active,
+        skip: params.skip,
+        limit: params.limit,
+      })}`
+    )
+  },
+
+  // GET /schedules/{schedule_id}
+  get(scheduleId) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`)
+  },
+
+  // GET /schedules/by-agent/{agent_id}
+  byAgent(agentId) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/by-agent/${agentId}`)
+  },
+
+  // GET /schedules/{schedule_id}/logs?skip=&limit=
+  logs(scheduleId, params) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}/logs${buildQuery(params)}`)
+  },
+
+  // GET /schedules/executions/recent?agent_id=&success=&hours=&days=&skip=&limit=
+  recent(params) {
+    return forward(
+      `${SCHEDULER_BASE_URL}/schedules/executions/recent${buildQuery({
+        agent_id: params.agentId,
+        success: params.success,
+        hours: params.hours,
+        days: params.days,
+        skip: params.skip,
+        limit: params.limit,
+      })}`
+    )
+  },
+
+  // POST /schedules/  → 201 with created schedule
+  create(input) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/`, {
+      method: 'POST',
+      body: JSON.stringify({ ...input, user_id: LYZR_API_KEY }),
+    })
+  },
+
+  // POST /schedules/{schedule_id}/pause  → 200 with updated schedule
+  pause(scheduleId) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}/pause`, { method: 'POST' })
+  },
+
+  // POST /schedules/{schedule_id}/resume  → 200 with updated schedule
+  resume(scheduleId) {
+    return forward(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}/resume`, { method: 'POST' })
+  },
+
+  // POST /schedules/{schedule_id}/trigger  → 202 Accepted with a string body
+  async trigger(scheduleId) {
+    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}/trigger`, {
+      method: 'POST',
+      headers: getHeaders(),
+    })
+    if (response.status === 202) {
+      return { success: true, status: 200, data: { message: 'Schedule triggered successfully' } }
+    }
+    const errorText = await response.text()
+    return { success: false, status: response.status, error: `Trigger failed: ${response.status}`, details: errorText }
+  },
+
+  // DELETE /schedules/{schedule_id}  → 204 No Content
+  async remove(scheduleId) {
+    const response = await fetch(`${SCHEDULER_BASE_URL}/schedules/${scheduleId}`, {
+      method: 'DELETE',
+      headers: getHeaders(),
+    })
+    if (response.status === 204 || response.ok) {
+      return { success: true, status: 200, data: { message: 'Schedule deleted successfully', scheduleId } }
+    }
+    const errorText = await response.text()
+    return { success: false, status: response.status, error: `Failed to delete schedule: ${response.status}`, details: errorText }
+  },
+}
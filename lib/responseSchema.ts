@@ -0,0 +1,242 @@
+/**
+ * Agent Response Schemas
+ *
+ * Loads the response schema declared for an agent in `response_schemas/`,
+ * turns its `json_schema` and `module_outputs` example into zod validators and
+ * checks normalized agent responses against them. Returns typed data plus
+ * structured issues ("expected string, got undefined at result.x") instead of
+ * guessing through fallback paths.
+ */
+
+import { z } from 'zod'
+import type { AIAgentResponse, ArtifactFile } from '@/lib/aiAgent'
+import styleTransformerSchema from '@/response_schemas/lyzr_style_transformer_agent.json'
+
+// Types
+export interface JsonSchema {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  enum?: unknown[]
+  description?: string
+  additionalProperties?: boolean | JsonSchema
+}
+
+export interface AgentResponseSchema {
+  agent_name: string
+  agent_id: string
+  has_module_outputs?: boolean
+  module_outputs?: Record<string, unknown>
+  response_format?: {
+    type: string
+    json_schema?: {
+      name: string
+      strict?: boolean
+      schema: JsonSchema
+    }
+  }
+}
+
+export interface SchemaIssue {
+  /** Dotted path into the response, e.g. `module_outputs.artifact_files[0].file_url` */
+  path: string
+  expected: string
+  received: string
+  message: string
+}
+
+export interface ParsedAgentResponse<T = Record<string, unknown>> {
+  valid: boolean
+  data: T | null
+  artifactFiles: ArtifactFile[]
+  issues: SchemaIssue[]
+}
+
+const SCHEMAS: AgentResponseSchema[] = [styleTransformerSchema as AgentResponseSchema]
+
+/** Response schema registered for an agent, if any */
+export function getResponseSchema(agentId: string): AgentResponseSchema | null {
+  return SCHEMAS.find(schema => schema.agent_id === agentId) ?? null
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schema / example → zod
+// ---------------------------------------------------------------------------
+
+/**
+ * Convert the subset of JSON Schema used by agent response formats into zod.
+ * Extra object keys are stripped rather than rejected so an agent adding a
+ * commentary field doesn't discard an otherwise valid result.
+ */
+export function jsonSchemaToZod(schema: JsonSchema): z.ZodTypeAny {
+  if (schema.enum && schema.enum.length > 0) {
+    const literals: z.ZodTypeAny[] = schema.enum.map(value => z.literal(value as z.Primitive))
+    return literals.length === 1 ? literals[0] : z.union(literals as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? 'object']
+  const variants = types.map((type): z.ZodTypeAny => {
+    switch (type) {
+      case 'string':
+        return z.string()
+      case 'number':
+        return z.number()
+      case 'integer':
+        return z.number().int()
+      case 'boolean':
+        return z.boolean()
+      case 'null':
+        return z.null()
+      case 'array':
+        return z.array(schema.items ? jsonSchemaToZod(schema.items) : z.unknown())
+      case 'object':
+      default: {
+        const required = new Set(schema.required ?? [])
+        const shape: Record<string, z.ZodTypeAny> = {}
+        for (const [key, child] of Object.entries(schema.properties ?? {})) {
+          const validator = jsonSchemaToZod(child)
+          shape[key] = required.has(key) ? validator : validator.optional()
+        }
+        return z.object(shape)
+      }
+    }
+  })
+  return variants.length === 1 ? variants[0] : z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]])
+}
+
+/**
+ * Build a validator from an example value. Used for `module_outputs`, which
+ * the schema files describe by example rather than by JSON Schema.
+ * Arrays taken from examples must be non-empty.
+ */
+export function zodFromExample(example: unknown, key?: string): z.ZodTypeAny {
+  if (Array.isArray(example)) {
+    const item = example.length > 0 ? zodFromExample(example[0]) : z.unknown()
+    return z.array(item).min(1)
+  }
+  if (example && typeof example === 'object') {
+    const shape: Record<string, z.ZodTypeAny> = {}
+    for (const [childKey, value] of Object.entries(example)) {
+      shape[childKey] = zodFromExample(value, childKey)
+    }
+    return z.object(shape).passthrough()
+  }
+  if (typeof example === 'string') {
+    return key?.endsWith('url') ? z.string().url() : z.string()
+  }
+  if (typeof example === 'number') return z.number()
+  if (typeof example === 'boolean') return z.boolean()
+  return z.unknown()
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part),
+    ''
+  )
+}
+
+function valueAt(root: unknown, path: (string | number)[]): unknown {
+  let current: any = root
+  for (const part of path) {
+    if (current === null || current === undefined) return undefined
+    current = current[part]
+  }
+  return current
+}
+
+/** Short human description of a value for error messages */
+export function describeValue(value: unknown): string {
+  if (value === undefined) return 'nothing'
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return value.length === 0 ? 'an empty array' : `an array of ${value.length}`
+  if (typeof value === 'string') {
+    const preview = value.length > 40 ? `${value.slice(0, 40)}…` : value
+    return value ? `string "${preview}"` : 'an empty string'
+  }
+  if (typeof value === 'object') {
+    const keys = Object.keys(value as object)
+    return keys.length > 0 ? `an object with ${keys.slice(0, 4).join(', ')}${keys.length > 4 ? ', …' : ''}` : 'an empty object'
+  }
+  return `${typeof value} ${String(value)}`
+}
+
+function toIssue(issue: z.ZodIssue, root: unknown): SchemaIssue {
+  const path = formatPath(issue.path)
+  const received = describeValue(valueAt(root, issue.path))
+  let expected: string
+  switch (issue.code) {
+    case 'invalid_type':
+      expected = issue.expected
+      break
+    case 'too_small':
+      expected = issue.type === 'array' ? `at least ${issue.minimum} item(s)` : `minimum ${issue.minimum}`
+      break
+    case 'invalid_string':
+      expected = `a valid ${issue.validation}`
+      break
+    case 'invalid_literal':
+      expected = JSON.stringify(issue.expected)
+      break
+    default:
+      expected = issue.message
+  }
+  return {
+    path,
+    expected,
+    received,
+    message: `${path || 'response'}: expected ${expected}, got ${received}`,
+  }
+}
+
+/**
+ * Validate a normalized agent response against the agent's declared schema.
+ * `data` is set only when `result` matches; artifact files are validated independently.
+ */
+export function parseAgentResponse<T = Record<string, unknown>>(
+  response: AIAgentResponse,
+  agentId: string
+): ParsedAgentResponse<T> {
+  const schema = getResponseSchema(agentId)
+  const root = { result: response.response?.result, module_outputs: response.module_outputs }
+  const issues: SchemaIssue[] = []
+
+  if (!schema) {
+    return {
+      valid: false,
+      data: null,
+      artifactFiles: [],
+      issues: [{ path: '', expected: 'a registered response schema', received: agentId, message: `No response schema registered for agent ${agentId}` }],
+    }
+  }
+
+  let data: T | null = null
+  const jsonSchema = schema.response_format?.json_schema?.schema
+  if (jsonSchema) {
+    const parsed = z.object({ result: jsonSchemaToZod(jsonSchema) }).safeParse(root)
+    if (parsed.success) {
+      data = parsed.data.result as T
+    } else {
+      issues.push(...parsed.error.issues.map(issue => toIssue(issue, root)))
+    }
+  } else {
+    data = (root.result ?? null) as T | null
+  }
+
+  let artifactFiles: ArtifactFile[] = []
+  if (schema.has_module_outputs && schema.module_outputs) {
+    const parsed = z.object({ module_outputs: zodFromExample(schema.module_outputs) }).safeParse(root)
+    if (parsed.success) {
+      artifactFiles = (parsed.data.module_outputs.artifact_files ?? []) as ArtifactFile[]
+    } else {
+      issues.push(...parsed.error.issues.map(issue => toIssue(issue, root)))
+    }
+  }
+
+  return { valid: issues.length === 0, data, artifactFiles, issues }
+}
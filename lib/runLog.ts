@@ -0,0 +1,90 @@
+/**
+ * Agent Run Log
+ * Server-side utility that records every agent task this server submits, for
+ * the analytics dashboard.
+ *
+ * submitLyzrTask adds a run when the task is submitted (or fails to submit)
+ * and fetchTaskStatus closes it on the first terminal poll, so latency is
+ * measured from submit to the moment the server first saw the result — within
+ * one poll interval of the real completion. Runs live in DATA_DIR/runs.json
+ * (newest MAX_STORED_RUNS kept). Recording is best-effort: a failed write is
+ * logged and never fails the agent call.
+ */
+
+import crypto from 'crypto'
+import { dataPath, readJsonFile, updateJsonFile } from '@/lib/serverData'
+import type { AgentRun, RunSource } from '@/lib/analytics'
+
+const RUNS_FILE = dataPath('runs.json')
+const MAX_STORED_RUNS = 5000
+const MAX_ERROR_LENGTH = 300
+
+// Types
+/** What submitLyzrTask's caller knows about the run */
+export interface RunContext {
+  source: RunSource
+  /** 1 for the first try; retries of the same work count up */
+  attempt?: number
+  schedule_id?: string
+}
+
+function updateRuns<T>(mutate: (runs: AgentRun[]) => T): Promise<T> {
+  return updateJsonFile<AgentRun[], T>(RUNS_FILE, [], runs => {
+    const result = mutate(runs)
+    if (runs.length > MAX_STORED_RUNS) runs.splice(0, runs.length - MAX_STORED_RUNS)
+    return result
+  })
+}
+
+function trimError(error: string | undefined | null): string | null {
+  if (!error) return null
+  const flat = error.replace(/\s+/g, ' ').trim()
+  return flat.length > MAX_ERROR_LENGTH ? `${flat.slice(0, MAX_ERROR_LENGTH)}…` : flat
+}
+
+/** Oldest first */
+export function readRuns(): Promise<AgentRun[]> {
+  return readJsonFile<AgentRun[]>(RUNS_FILE, [])
+}
+
+/** Record a submitted task; a submit that failed is recorded as a failed run right away */
+export function recordRunSubmitted(
+  submission: { agent_id: string; task_id?: string; success: boolean; httpStatus: number; error?: string },
+  context: RunContext = { source: 'adhoc' }
+) {
+  const now = new Date().toISOString()
+  const run: AgentRun = {
+    id: submission.task_id || `submit_${crypto.randomBytes(8).toString('hex')}`,
+    task_id: submission.task_id ?? null,
+    agent_id: submission.agent_id,
+    source: context.source,
+    schedule_id: context.schedule_id ?? null,
+    attempt: context.attempt ?? 1,
+    status: submission.success && submission.task_id ? 'processing' : 'failed',
+    submitted_at: now,
+    completed_at: submission.success && submission.task_id ? null : now,
+    latency_ms: null,
+    http_status: submission.success ? null : submission.httpStatus,
+    error: submission.success ? null : trimError(submission.error || 'Task submit failed'),
+  }
+  updateRuns(runs => {
+    runs.push(run)
+  }).catch(error => console.error('Could not record agent run:', error))
+}
+
+/** Close the run of `task_id` on its first terminal poll; later polls are ignored */
+export function recordRunFinished(
+  task_id: string,
+  outcome: { state: 'completed' | 'failed' | 'cancelled'; httpStatus: number; error?: string }
+) {
+  updateRuns(runs => {
+    const run = runs.find(r => r.task_id === task_id)
+    if (!run || run.status !== 'processing') return
+    const now = new Date()
+    run.status = outcome.state
+    run.completed_at = now.toISOString()
+    run.latency_ms = now.getTime() - new Date(run.submitted_at).getTime()
+    run.http_status = outcome.httpStatus
+    run.error = outcome.state === 'completed' ? null : trimError(outcome.error || `Agent task ${outcome.state}`)
+  }).catch(error => console.error('Could not record agent run result:', error))
+}
@@ -0,0 +1,175 @@
+/**
+ * S3-Compatible Client
+ * Server-side utility for the ingestion job that polls a bucket for new images.
+ *
+ * Just the two calls ingestion needs — ListObjectsV2 and GetObject — signed
+ * with AWS Signature Version 4, so it works against AWS S3 and against MinIO
+ * or other S3-compatible stores without pulling in the AWS SDK.
+ *
+ * Configured from the environment:
+ *   INGEST_S3_ENDPOINT           e.g. http://localhost:9000 for a local MinIO
+ *   INGEST_S3_REGION             defaults to us-east-1 (MinIO's default)
+ *   INGEST_S3_ACCESS_KEY_ID      access key
+ *   INGEST_S3_SECRET_ACCESS_KEY  secret key
+ *   INGEST_S3_PATH_STYLE         `false` for virtual-hosted buckets
+ *                                (bucket.host); path style is the default
+ */
+
+import crypto from 'crypto'
+
+const REQUEST_TIMEOUT_MS = 30_000
+const EMPTY_PAYLOAD_SHA256 = crypto.createHash('sha256').update('').digest('hex')
+
+// Types
+export interface S3Config {
+  endpoint: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  pathStyle: boolean
+}
+
+export interface S3Object {
+  key: string
+  etag: string
+  size: number
+  last_modified: string
+}
+
+/** The configured store, or null when INGEST_S3_* is incomplete */
+export function getS3Config(): S3Config | null {
+  const endpoint = process.env.INGEST_S3_ENDPOINT?.trim()
+  const accessKeyId = process.env.INGEST_S3_ACCESS_KEY_ID?.trim()
+  const secretAccessKey = process.env.INGEST_S3_SECRET_ACCESS_KEY?.trim()
+  if (!endpoint || !accessKeyId || !secretAccessKey) return null
+  return {
+    endpoint: endpoint.replace(/\/+$/, ''),
+    region: process.env.INGEST_S3_REGION?.trim() || 'us-east-1',
+    accessKeyId,
+    secretAccessKey,
+    pathStyle: process.env.INGEST_S3_PATH_STYLE !== 'false',
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Signature Version 4
+// ---------------------------------------------------------------------------
+
+/** RFC 3986 encoding as SigV4 expects (encodeURIComponent leaves !'()* alone) */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+function sha256Hex(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+/** Build the URL and signed headers for a GET on `bucket`/`key` */
+function signedGet(config: S3Config, bucket: string, key: string, query: Record<string, string>, now = new Date()) {
+  const base = new URL(config.endpoint)
+  const host = config.pathStyle ? base.host : `${bucket}.${base.host}`
+  const basePath = base.pathname.replace(/\/+$/, '')
+  const objectPath = key ? `/${key.split('/').map(uriEncode).join('/')}` : '/'
+  const canonicalUri = `${basePath}${config.pathStyle ? `/${uriEncode(bucket)}${key ? objectPath : '/'}` : objectPath}`
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map(name => `${uriEncode(name)}=${uriEncode(query[name])}`)
+    .join('&')
+
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const dateStamp = amzDate.slice(0, 8)
+  const headers: Record<string, string> = {
+    host,
+    'x-amz-content-sha256': EMPTY_PAYLOAD_SHA256,
+    'x-amz-date': amzDate,
+  }
+  const signedHeaders = Object.keys(headers).sort().join(';')
+  const canonicalHeaders = Object.keys(headers)
+    .sort()
+    .map(name => `${name}:${headers[name]}\n`)
+    .join('')
+  const canonicalRequest = ['GET', canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, EMPTY_PAYLOAD_SHA256].join('\n')
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request')
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  const { host: _host, ...sentHeaders } = headers
+  return {
+    url: `${base.protocol}//${host}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`,
+    headers: {
+      ...sentHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+  }
+}
+
+async function s3Get(config: S3Config, bucket: string, key: string, query: Record<string, string> = {}): Promise<Response> {
+  const { url, headers } = signedGet(config, bucket, key, query)
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) })
+  if (!response.ok) {
+    const body = await response.text()
+    const code = xmlText(body, 'Code')
+    const message = xmlText(body, 'Message') || body.slice(0, 200) || response.statusText
+    throw new Error(`S3 ${response.status}${code ? ` ${code}` : ''}: ${message}`)
+  }
+  return response
+}
+
+// ---------------------------------------------------------------------------
+// XML
+// ---------------------------------------------------------------------------
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+}
+
+/** Text of the first `<tag>` in `xml`, decoded */
+function xmlText(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`))
+  return match ? decodeXml(match[1]) : null
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+/** Every object under `prefix`, following continuation tokens */
+export async function listObjects(config: S3Config, bucket: string, prefix = ''): Promise<S3Object[]> {
+  const objects: S3Object[] = []
+  let continuationToken: string | null = null
+  do {
+    const query: Record<string, string> = { 'list-type': '2' }
+    if (prefix) query.prefix = prefix
+    if (continuationToken) query['continuation-token'] = continuationToken
+    const xml = await (await s3Get(config, bucket, '', query)).text()
+
+    for (const [, entry] of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+      objects.push({
+        key: xmlText(entry, 'Key') ?? '',
+        etag: (xmlText(entry, 'ETag') ?? '').replace(/"/g, ''),
+        size: Number(xmlText(entry, 'Size') ?? 0),
+        last_modified: xmlText(entry, 'LastModified') ?? '',
+      })
+    }
+    continuationToken = xmlText(xml, 'IsTruncated') === 'true' ? xmlText(xml, 'NextContinuationToken') : null
+  } while (continuationToken)
+  return objects
+}
+
+export async function getObject(config: S3Config, bucket: string, key: string): Promise<Uint8Array> {
+  const response = await s3Get(config, bucket, key)
+  return new Uint8Array(await response.arrayBuffer())
+}
@@ -7,8 +7,9 @@
  * All API calls are proxied through the server so the API key never reaches the browser.
  */
 
-import { useState } from 'react'
+import { useState, useCallback } from 'react'
 import fetchWrapper from '@/lib/fetchWrapper'
+import { parseCron, describeCron, validateCron, formatCronError, isValidTimezone } from '@/lib/cron'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -47,6 +48,9 @@ export interface ExecutionLog {
   error_message: string | null
 }
 
+/** Transform job events a webhook can subscribe to */
+export type WebhookEvent = 'job.completed' | 'job.failed'
+
 export interface Webhook {
   id: string
   agent_id: string
@@ -58,6 +62,8 @@ export interface Webhook {
   last_triggered_at: string | null
   last_trigger_success: boolean | null
   trigger_count: number
+  /** Events delivered to this webhook; only set on webhooks managed by this app */
+  events?: WebhookEvent[]
 }
 
 interface ApiResult<T = Record<string, unknown>> {
@@ -229,6 +235,11 @@ export async function createSchedule(params: {
   max_retries?: number
   retry_delay?: number
 }): Promise<{ success: boolean; schedule?: Schedule; error?: string }> {
+  const cronError = validateCron(params.cron_expression)
+  if (cronError) return { success: false, error: formatCronError(cronError) }
+  if (params.timezone && !isValidTimezone(params.timezone)) {
+    return { success: false, error: `Unknown timezone "${params.timezone}"` }
+  }
   try {
     const res = await fetchWrapper('/api/scheduler', {
       method: 'POST',
@@ -378,35 +389,11 @@ export async function deleteSchedule(scheduleId: string): Promise<ApiResult> {
 // Cron helpers
 // ---------------------------------------------------------------------------
 
-/** Convert a 5-part cron expression to human-readable text. */
+/** Convert a cron expression to human-readable text; invalid expressions are returned as is. */
 export function cronToHuman(cron: string): string {
   if (!cron || typeof cron !== 'string') return cron ?? 'No schedule'
-  const parts = cron.split(' ')
-  if (parts.length !== 5) return cron
-
-  const [minute, hour, dayOfMonth, month, dayOfWeek] = parts
-
-  if (dayOfMonth === '*' && month === '*') {
-    if (dayOfWeek === '*') {
-      if (hour === '*') {
-        if (minute.startsWith('*/')) return `Every ${minute.slice(2)} minutes`
-        return `Every hour at :${minute.padStart(2, '0')}`
-      }
-      if (hour.startsWith('*/')) return `Every ${hour.slice(2)} hours`
-      return `Every day at ${hour}:${minute.padStart(2, '0')}`
-    }
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
-    if (dayOfWeek === '1-5') return `Weekdays at ${hour}:${minute.padStart(2, '0')}`
-    if (dayOfWeek === '0,6') return `Weekends at ${hour}:${minute.padStart(2, '0')}`
-    const dayName = days[parseInt(dayOfWeek)] || dayOfWeek
-    return `Every ${dayName} at ${hour}:${minute.padStart(2, '0')}`
-  }
-
-  if (dayOfMonth !== '*' && month === '*') {
-    return `Day ${dayOfMonth} of every month at ${hour}:${minute.padStart(2, '0')}`
-  }
-
-  return cron
+  const parsed = parseCron(cron)
+  return parsed.success && parsed.cron ? describeCron(parsed.cron) : cron
 }
 
 // ---------------------------------------------------------------------------
@@ -420,7 +407,7 @@ export function useScheduler() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const fetchSchedules = async (params?: { agentId?: string; is_active?: boolean }) => {
+  const fetchSchedules = useCallback(async (params?: { agentId?: string; is_active?: boolean }) => {
     setLoading(true)
     setError(null)
     const result = await listSchedules(params)
@@ -432,9 +419,23 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const toggleSchedule = async (schedule: Schedule) => {
+  const create = useCallback(async (params: Parameters<typeof createSchedule>[0]) => {
+    setLoading(true)
+    setError(null)
+    const result = await createSchedule(params)
+    if (result.success && result.schedule) {
+      setSchedules(prev => [result.schedule!, ...prev])
+      setTotal(prev => prev + 1)
+    } else {
+      setError(result.error || 'Failed to create schedule')
+    }
+    setLoading(false)
+    return result
+  }, [])
+
+  const toggleSchedule = useCallback(async (schedule: Schedule) => {
     setLoading(true)
     setError(null)
     const result = schedule.is_active
@@ -450,9 +451,9 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const trigger = async (scheduleId: string) => {
+  const trigger = useCallback(async (scheduleId: string) => {
     setLoading(true)
     setError(null)
     const result = await triggerScheduleNow(scheduleId)
@@ -461,9 +462,9 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
-  const remove = async (scheduleId: string) => {
+  const remove = useCallback(async (scheduleId: string) => {
     setLoading(true)
     setError(null)
     const result = await deleteSchedule(scheduleId)
@@ -475,7 +476,7 @@ export function useScheduler() {
     }
     setLoading(false)
     return result
-  }
+  }, [])
 
   return {
     schedules,
@@ -483,6 +484,7 @@ export function useScheduler() {
     loading,
     error,
     fetchSchedules,
+    create,
     toggleSchedule,
     trigger,
     remove,
@@ -0,0 +1,74 @@
+/**
+ * Scheduler Backends
+ * Server-side utility for the /api/scheduler route.
+ *
+ * SCHEDULER_BACKEND selects where schedules live:
+ *   - `remote` (default): proxied to the Lyzr scheduler service
+ *   - `local`: persisted in DATA_DIR and fired by this server process, for
+ *     offline development or when the remote service is unavailable
+ *
+ * Both answer with the same payloads, so lib/scheduler.ts works unchanged.
+ */
+
+import { remoteSchedulerBackend } from '@/lib/remoteScheduler'
+import { localSchedulerBackend, startLocalScheduler } from '@/lib/localScheduler'
+
+// Types
+/** Payload for the route: spread into `{ success: true, ...data }` or returned as an error */
+export interface SchedulerResult {
+  success: boolean
+  status: number
+  data?: Record<string, unknown>
+  error?: string
+  details?: unknown
+}
+
+export interface ScheduleListParams {
+  agentId?: string
+  is_active?: string
+  skip?: number
+  limit?: number
+}
+
+export interface RecentExecutionParams {
+  agentId?: string
+  success?: string
+  hours?: number
+  days?: number
+  skip?: number
+  limit?: number
+}
+
+export interface CreateScheduleInput {
+  agent_id: string
+  cron_expression: string
+  message: string
+  timezone: string
+  max_retries: number
+  retry_delay: number
+}
+
+export interface SchedulerBackend {
+  name: 'remote' | 'local'
+  /** Why the backend can't serve requests (e.g. a missing API key), or null */
+  unavailableReason(): string | null
+  list(params: ScheduleListParams): Promise<SchedulerResult>
+  get(scheduleId: string): Promise<SchedulerResult>
+  byAgent(agentId: string): Promise<SchedulerResult>
+  logs(scheduleId: string, params: { skip?: number; limit?: number }): Promise<SchedulerResult>
+  recent(params: RecentExecutionParams): Promise<SchedulerResult>
+  create(input: CreateScheduleInput): Promise<SchedulerResult>
+  pause(scheduleId: string): Promise<SchedulerResult>
+  resume(scheduleId: string): Promise<SchedulerResult>
+  trigger(scheduleId: string): Promise<SchedulerResult>
+  remove(scheduleId: string): Promise<SchedulerResult>
+}
+
+export function getSchedulerBackend(): SchedulerBackend {
+  if (process.env.SCHEDULER_BACKEND === 'local') {
+    // Normally already running from instrumentation.ts; a no-op then
+    startLocalScheduler()
+    return localSchedulerBackend
+  }
+  return remoteSchedulerBackend
+}
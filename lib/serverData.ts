@@ -0,0 +1,53 @@
+/**
+ * Server Data Directory
+ * Server-side utility for API routes that persist files on local disk.
+ *
+ * Everything lives under DATA_DIR (default `.data/` in the project root).
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data')
+
+/** Absolute path inside the data directory */
+export function dataPath(...segments: string[]): string {
+  return path.join(DATA_DIR, ...segments)
+}
+
+/** Write a file atomically (temp file + rename), creating parent directories */
+export async function writeFileAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const tmp = `${filePath}.${process.pid}.${Date.now()}.tmp`
+  await fs.writeFile(tmp, data)
+  await fs.rename(tmp, filePath)
+}
+
+/** Parse a JSON file, or return `fallback` when it doesn't exist yet */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback
+    throw error
+  }
+}
+
+// Read-modify-write cycles per file are serialized so concurrent requests can't lose updates
+const updateChains = new Map<string, Promise<unknown>>()
+
+/**
+ * Read a JSON file, let `mutate` change the value in place and write it back
+ * atomically. Resolves with whatever `mutate` returns.
+ */
+export function updateJsonFile<T, R>(filePath: string, fallback: T, mutate: (value: T) => R): Promise<R> {
+  const previous = updateChains.get(filePath) ?? Promise.resolve()
+  const next = previous.then(async () => {
+    const value = await readJsonFile<T>(filePath, fallback)
+    const result = mutate(value)
+    await writeFileAtomic(filePath, JSON.stringify(value, null, 2))
+    return result
+  })
+  updateChains.set(filePath, next.catch(() => {}))
+  return next
+}
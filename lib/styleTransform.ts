@@ -0,0 +1,252 @@
+'use client'
+
+/**
+ * Style Transform Pipeline
+ *
+ * Shared upload → agent → validate pipeline used by the single-image view
+ * and the batch queue, run as the Input → Agent → Output workflow graph.
+ * Throws on failure so callers can surface the message.
+ */
+
+import { streamAIAgent, uploadFiles } from '@/lib/aiAgent'
+import type { AIAgentResponse, SubmittedTask } from '@/lib/aiAgent'
+import { buildPresetPrompt, LYZR_PRESET } from '@/lib/brandPresets'
+import type { BrandPreset } from '@/lib/brandPresets'
+import { parseAgentResponse, getResponseSchema } from '@/lib/responseSchema'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import { runWorkflow } from '@/lib/workflowEngine'
+import type { NodeHandler, NodeRunState, WorkflowGraph } from '@/lib/workflowEngine'
+import workflowState from '@/workflow_state.json'
+
+/** Default agent; the picker can select others from the registry (see lib/agents) */
+export const AGENT_ID = '699c802522d60b5dbc439726'
+
+export const ACCEPTED_FORMATS = ['image/png', 'image/jpeg', 'image/webp']
+export const FORMAT_LABELS = ['PNG', 'JPG', 'WEBP']
+
+// Types
+export interface TransformationDetails {
+  transformation_description: string
+  style_elements_applied: string
+  color_palette_used: string
+}
+
+export interface TransformResult {
+  imageUrl: string
+  details: TransformationDetails | null
+  assetId: string
+  response: AIAgentResponse
+  /** Non-fatal schema mismatches (e.g. missing description fields) */
+  issues: SchemaIssue[]
+  /** Agent session the result was produced in; follow-ups reuse it */
+  sessionId?: string
+}
+
+export type TransformStage = 'uploading' | 'transforming'
+
+/** A transform's agent task as accepted by Lyzr — enough to resume it after a reload */
+export interface SubmittedTransformTask extends SubmittedTask {
+  agent_id: string
+  asset_ids: string[]
+  message: string
+}
+
+/** Thrown by transformImage when its signal aborts */
+export function createCancelledError(): Error {
+  const error = new Error('Transform cancelled')
+  error.name = 'AbortError'
+  return error
+}
+
+export function isCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+/** Thrown by transformImage when the agent response doesn't match its schema */
+export function createSchemaError(issues: SchemaIssue[]): Error & { issues: SchemaIssue[] } {
+  const summary = issues[0]?.message ?? 'response did not match the schema'
+  const error = Object.assign(new Error(`The agent returned no usable image (${summary})`), { issues })
+  error.name = 'SchemaValidationError'
+  return error
+}
+
+/** Validation issues attached to a schema error, or an empty list */
+export function getSchemaIssues(error: unknown): SchemaIssue[] {
+  if (error instanceof Error && error.name === 'SchemaValidationError') {
+    return (error as Error & { issues?: SchemaIssue[] }).issues ?? []
+  }
+  return []
+}
+
+/**
+ * Route a remote artifact URL through the same-origin /api/artifact cache.
+ * data: and blob: URLs (and already-proxied paths) are returned unchanged.
+ */
+export function proxiedArtifactUrl(url: string): string {
+  return /^https?:\/\//.test(url) ? `/api/artifact?url=${encodeURIComponent(url)}` : url
+}
+
+/**
+ * Build the agent message for a transform from a brand preset (Lyzr by default)
+ */
+export function buildTransformMessage(styleNote?: string, preset: BrandPreset = LYZR_PRESET): string {
+  return buildPresetPrompt(preset, styleNote)
+}
+
+/** Appended to the message when a region mask is uploaded as the second asset */
+export const MASK_INSTRUCTION =
+  'The second attached image is a black and white mask of the same size as the first. ' +
+  'Only alter the regions that are white in the mask; keep the black regions exactly as they are.'
+
+// ---------------------------------------------------------------------------
+// Workflow node handlers
+// ---------------------------------------------------------------------------
+
+export interface TransformParams {
+  file: File
+  message: string
+  agentId: string
+  sessionId?: string
+  /** Black/white region mask uploaded after the image (see lib/mask) */
+  mask?: File
+  onTaskSubmitted?: (task: SubmittedTransformTask) => void
+}
+
+export interface InputNodeOutput {
+  file: File
+  assetIds: string[]
+}
+
+export interface OutputNodeOutput {
+  imageUrl: string
+  details: TransformationDetails | null
+  issues: SchemaIssue[]
+  response: AIAgentResponse
+}
+
+/** The Input → Agent → Output graph declared in workflow_state.json */
+export const TRANSFORM_WORKFLOW: WorkflowGraph = workflowState.workflow
+
+const STAGE_BY_NODE_TYPE: Record<string, TransformStage> = {
+  Input: 'uploading',
+  Agent: 'transforming',
+}
+
+export const TRANSFORM_NODE_HANDLERS: Record<string, NodeHandler<TransformParams>> = {
+  /** Upload the user's image (and its mask, if any) and pass the asset ids downstream */
+  Input: async ({ params, signal }): Promise<InputNodeOutput> => {
+    const uploadResult = await uploadFiles(params.mask ? [params.file, params.mask] : params.file, { signal })
+    if (uploadResult.cancelled || signal?.aborted) throw createCancelledError()
+    if (!uploadResult.success || !Array.isArray(uploadResult.asset_ids) || uploadResult.asset_ids.length === 0) {
+      throw new Error(uploadResult.error || 'Failed to upload image')
+    }
+    return { file: params.file, assetIds: uploadResult.asset_ids }
+  },
+
+  /**
+   * Call the agent with every asset uploaded upstream (callAIAgent over SSE).
+   * `config.message` / `config.agent_id` override the run-wide params per node.
+   */
+  Agent: async ({ node, params, inputs, signal }): Promise<AIAgentResponse> => {
+    const assets = Object.values(inputs).flatMap(output => (output as Partial<InputNodeOutput>)?.assetIds ?? [])
+    const agentId = (node.config?.agent_id as string) || params.agentId
+    const message = (node.config?.message as string) || params.message
+    const result = await streamAIAgent(message, agentId, {
+      assets,
+      session_id: params.sessionId,
+      signal,
+      onSubmitted: task => params.onTaskSubmitted?.({ ...task, agent_id: agentId, asset_ids: assets, message }),
+    })
+    if (result.cancelled) throw createCancelledError()
+    if (!result.success) {
+      throw new Error(result.error || result.response?.message || 'Transformation failed')
+    }
+    return result
+  },
+
+  /** Validate the agent response against its schema and extract the image */
+  Output: async ({ input, params }): Promise<OutputNodeOutput> => extractTransformOutput(input as AIAgentResponse, params.agentId),
+}
+
+/** Validate an agent response against its schema and extract the image; throws a schema error without one */
+export function extractTransformOutput(response: AIAgentResponse, agentId: string): OutputNodeOutput {
+  // Image agents without their own schema file share the transformer's output contract
+  const schemaAgentId = getResponseSchema(agentId) ? agentId : AGENT_ID
+  const parsed = parseAgentResponse<TransformationDetails>(response, schemaAgentId)
+  const imageUrl = parsed.artifactFiles[0]?.file_url
+  if (!imageUrl) {
+    console.error('Agent response did not match schema:', parsed.issues, response)
+    throw createSchemaError(parsed.issues)
+  }
+  return { imageUrl, details: parsed.data, issues: parsed.issues, response }
+}
+
+/**
+ * Upload an image, run it through the style transformer workflow and extract the result.
+ * Rejects with an AbortError (see isCancelledError) when `signal` aborts.
+ */
+export async function transformImage(
+  file: File,
+  options?: {
+    styleNote?: string
+    preset?: BrandPreset
+    /** Send this message instead of the preset prompt (e.g. a refinement) */
+    message?: string
+    agentId?: string
+    /** Continue an existing agent session instead of starting a new one */
+    sessionId?: string
+    /** Restrict the edit to the white regions of this mask */
+    mask?: File
+    /** Called when the agent accepted the task, e.g. to persist it (see lib/jobStore) */
+    onTaskSubmitted?: (task: SubmittedTransformTask) => void
+    workflow?: WorkflowGraph
+    signal?: AbortSignal
+    onStage?: (stage: TransformStage) => void
+    onNodeStatus?: (nodeId: string, state: NodeRunState) => void
+  }
+): Promise<TransformResult> {
+  const signal = options?.signal
+  if (signal?.aborted) throw createCancelledError()
+
+  const graph = options?.workflow ?? TRANSFORM_WORKFLOW
+  const nodeTypes = new Map(graph.nodes.map(node => [node.id, node.type]))
+  const message = options?.message || buildTransformMessage(options?.styleNote, options?.preset)
+  const params: TransformParams = {
+    file,
+    message: options?.mask ? `${message} ${MASK_INSTRUCTION}` : message,
+    agentId: options?.agentId || AGENT_ID,
+    sessionId: options?.sessionId,
+    mask: options?.mask,
+    onTaskSubmitted: options?.onTaskSubmitted,
+  }
+
+  const run = await runWorkflow(graph, params, {
+    handlers: TRANSFORM_NODE_HANDLERS,
+    signal,
+    onNodeStatus: (nodeId, state) => {
+      const stage = STAGE_BY_NODE_TYPE[nodeTypes.get(nodeId) ?? '']
+      if (stage && state.status === 'running') options?.onStage?.(stage)
+      options?.onNodeStatus?.(nodeId, state)
+    },
+  })
+
+  if (run.status === 'cancelled') throw createCancelledError()
+  if (run.status === 'failed') {
+    throw run.error instanceof Error ? run.error : new Error('Transformation failed')
+  }
+
+  const outputNode = graph.nodes.find(node => node.type === 'Output')
+  const inputNode = graph.nodes.find(node => node.type === 'Input')
+  const output = outputNode ? (run.outputs[outputNode.id] as OutputNodeOutput) : undefined
+  if (!output) throw new Error('Workflow finished without an Output node result')
+  const input = inputNode ? (run.outputs[inputNode.id] as InputNodeOutput) : undefined
+
+  return {
+    imageUrl: output.imageUrl,
+    details: output.details,
+    assetId: input?.assetIds[0] ?? '',
+    response: output.response,
+    issues: output.issues,
+    sessionId: output.response.session_id,
+  }
+}
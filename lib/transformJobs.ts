@@ -0,0 +1,251 @@
+/**
+ * Transform Jobs
+ * Server-side utility for API routes that run style transforms without a browser.
+ *
+ * A job uploads the image to Lyzr, submits the task through the agent queue
+ * (lib/agentQueue.ts) under its owner's key, waits for it on the server and validates the response against the agent's schema — the same
+ * steps the page runs as its Input → Agent → Output workflow. Jobs are
+ * persisted as DATA_DIR/jobs/<id>.json so status survives restarts; a job
+ * whose process died mid-wait is resumed on the next status lookup. Finished
+ * jobs fire the `job.completed` / `job.failed` webhooks.
+ */
+
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import { dataPath, writeFileAtomic } from '@/lib/serverData'
+import { uploadLyzrAssets, waitForTask } from '@/lib/lyzrTask'
+import type { TaskPollResult } from '@/lib/lyzrTask'
+import { runQueuedTask } from '@/lib/agentQueue'
+import { parseAgentResponse, getResponseSchema } from '@/lib/responseSchema'
+import type { SchemaIssue } from '@/lib/responseSchema'
+import { listImageAgents } from '@/lib/agentRegistry'
+import { dispatchWebhookEvent } from '@/lib/webhookStore'
+import type { AIAgentResponse } from '@/lib/aiAgent'
+
+// Types
+export type TransformJobStatus = 'queued' | 'processing' | 'completed' | 'failed'
+
+export interface TransformJobInput {
+  /** `ingest`: picked up by a watch-folder source (see lib/ingestionStore) */
+  source: 'upload' | 'url' | 'ingest'
+  file_name: string
+  image_url?: string
+  style_note: string
+  preset_name: string
+  agent_id: string
+}
+
+export interface TransformJobResult {
+  image_url: string
+  details: Record<string, unknown> | null
+  issues: SchemaIssue[]
+}
+
+export interface TransformJob {
+  id: string
+  /** API key that created the job; only that key can read it */
+  key_id: string
+  status: TransformJobStatus
+  input: TransformJobInput
+  task_id?: string
+  session_id?: string
+  result?: TransformJobResult
+  error?: string
+  details?: string
+  created_at: string
+  updated_at: string
+  completed_at?: string
+}
+
+/** The job as returned to API clients */
+export type PublicTransformJob = Omit<TransformJob, 'key_id'>
+
+export interface CreateTransformJobInput {
+  keyId: string
+  file: File
+  message: string
+  job: TransformJobInput
+  /** Retry number of the same image, for the run log */
+  attempt?: number
+}
+
+const JOB_ID_PATTERN = /^job_[0-9a-f]{16}$/
+
+/** Jobs being worked on by this process */
+const activeJobs = new Set<string>()
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function jobPath(id: string): string {
+  return dataPath('jobs', `${id}.json`)
+}
+
+async function saveJob(job: TransformJob): Promise<TransformJob> {
+  job.updated_at = new Date().toISOString()
+  await writeFileAtomic(jobPath(job.id), JSON.stringify(job, null, 2))
+  return job
+}
+
+async function readJob(id: string): Promise<TransformJob | null> {
+  if (!JOB_ID_PATTERN.test(id)) return null
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+export function toPublicJob(job: TransformJob): PublicTransformJob {
+  const { key_id: _keyId, ...rest } = job
+  return rest
+}
+
+// ---------------------------------------------------------------------------
+// Processing
+// ---------------------------------------------------------------------------
+
+/** Save a job that reached a terminal state and notify subscribed webhooks */
+async function settleJob(job: TransformJob): Promise<TransformJob> {
+  await saveJob(job)
+  dispatchWebhookEvent(job.status === 'completed' ? 'job.completed' : 'job.failed', { job: toPublicJob(job) }, {
+    agentId: job.input.agent_id,
+  }).catch(error => console.error(`Could not queue webhooks for job ${job.id}:`, error))
+  return job
+}
+
+async function failJob(job: TransformJob, error: string, details?: string): Promise<TransformJob> {
+  job.status = 'failed'
+  job.error = error
+  job.details = details
+  job.completed_at = new Date().toISOString()
+  return settleJob(job)
+}
+
+/** Wait for a task submitted before a restart and validate its response */
+async function finishJob(job: TransformJob): Promise<TransformJob> {
+  return completeJob(job, await waitForTask(job.task_id!))
+}
+
+/** Validate the response of the job's finished task */
+async function completeJob(job: TransformJob, poll: TaskPollResult): Promise<TransformJob> {
+  if (poll.state !== 'completed') {
+    return failJob(job, poll.body.error || `Agent task ${poll.state}`)
+  }
+
+  const response: AIAgentResponse = {
+    success: true,
+    response: poll.body.response,
+    module_outputs: poll.body.module_outputs,
+    agent_id: job.input.agent_id,
+    session_id: job.session_id,
+  }
+  // Image agents without their own schema file share the default agent's output contract
+  const schemaAgentId = getResponseSchema(job.input.agent_id) ? job.input.agent_id : listImageAgents()[0]?.agent_id
+  const parsed = parseAgentResponse<Record<string, unknown>>(response, schemaAgentId)
+  const imageUrl = parsed.artifactFiles[0]?.file_url
+  if (!imageUrl) {
+    return failJob(job, 'The agent returned no usable image', parsed.issues.map(i => i.message).join('; '))
+  }
+
+  job.status = 'completed'
+  job.result = { image_url: imageUrl, details: parsed.data, issues: parsed.issues }
+  job.completed_at = new Date().toISOString()
+  return settleJob(job)
+}
+
+async function processJob(job: TransformJob, { file, message, attempt }: CreateTransformJobInput): Promise<TransformJob> {
+  job.status = 'processing'
+  await saveJob(job)
+
+  const upload = await uploadLyzrAssets([file])
+  if (!upload.success || upload.asset_ids.length === 0) {
+    return failJob(job, 'Failed to upload image', upload.error)
+  }
+
+  const { task_id, poll } = await runQueuedTask(
+    {
+      message,
+      agent_id: job.input.agent_id,
+      assets: upload.asset_ids,
+      run: { source: job.input.source === 'ingest' ? 'ingest' : 'api', attempt },
+    },
+    // One queue caller per API key or ingestion source
+    `server:${job.key_id}`,
+    {
+      onSubmitted: async submitted => {
+        job.task_id = submitted.task_id
+        job.session_id = submitted.session_id
+        await saveJob(job)
+      },
+    }
+  )
+  if (!task_id) {
+    return failJob(job, poll.body.error || 'Task submit failed')
+  }
+
+  return completeJob(job, poll)
+}
+
+/** Run `work` for a job; any throw marks the job failed */
+function runJob(job: TransformJob, work: () => Promise<TransformJob>): Promise<TransformJob> {
+  activeJobs.add(job.id)
+  return work()
+    .catch(error => {
+      console.error(`Transform job ${job.id} failed:`, error)
+      return failJob(job, 'Transform job failed', error instanceof Error ? error.message : String(error))
+    })
+    .finally(() => activeJobs.delete(job.id))
+}
+
+function runInBackground(job: TransformJob, work: () => Promise<TransformJob>) {
+  runJob(job, work).catch(error => console.error(`Could not record failure of job ${job.id}:`, error))
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+async function queueJob(input: CreateTransformJobInput): Promise<TransformJob> {
+  const now = new Date().toISOString()
+  const job: TransformJob = {
+    id: `job_${crypto.randomBytes(8).toString('hex')}`,
+    key_id: input.keyId,
+    status: 'queued',
+    input: input.job,
+    created_at: now,
+    updated_at: now,
+  }
+  return saveJob(job)
+}
+
+/** Persist a queued job and start processing it without waiting */
+export async function createTransformJob(input: CreateTransformJobInput): Promise<TransformJob> {
+  const job = await queueJob(input)
+  runInBackground(job, () => processJob(job, input))
+  return job
+}
+
+/** Persist a job and resolve once it has completed or failed */
+export async function runTransformJob(input: CreateTransformJobInput): Promise<TransformJob> {
+  const job = await queueJob(input)
+  return runJob(job, () => processJob(job, input))
+}
+
+/**
+ * Load a job. Unfinished jobs that no process is working on (after a restart)
+ * are resumed if their task was submitted, otherwise failed.
+ */
+export async function getTransformJob(id: string): Promise<TransformJob | null> {
+  const job = await readJob(id)
+  if (!job || job.status === 'completed' || job.status === 'failed' || activeJobs.has(job.id)) {
+    return job
+  }
+  if (job.task_id) {
+    runInBackground(job, () => finishJob(job))
+    return job
+  }
+  return failJob(job, 'The server restarted before the job was submitted; please retry')
+}
@@ -0,0 +1,149 @@
+'use client'
+
+/**
+ * Multi-variant Generation
+ *
+ * Uploads the image once, then fans out to N parallel agent calls on the same
+ * asset — each optionally with its own style direction — as an
+ * Input → (Agent → Output) × N workflow graph. Reviewers star or reject
+ * variants and pick a winner, which becomes the canonical result.
+ */
+
+import {
+  AGENT_ID,
+  MASK_INSTRUCTION,
+  TRANSFORM_NODE_HANDLERS,
+  buildTransformMessage,
+  createCancelledError,
+} from '@/lib/styleTransform'
+import type {
+  InputNodeOutput,
+  OutputNodeOutput,
+  SubmittedTransformTask,
+  TransformParams,
+  TransformStage,
+} from '@/lib/styleTransform'
+import type { BrandPreset } from '@/lib/brandPresets'
+import { runWorkflow } from '@/lib/workflowEngine'
+import type { WorkflowGraph } from '@/lib/workflowEngine'
+
+export const MAX_VARIANTS = 4
+
+// Types
+export type VariantStatus = 'pending' | 'running' | 'completed' | 'failed'
+export type VariantRating = 'starred' | 'rejected' | null
+
+export interface Variant {
+  id: string
+  index: number
+  direction: string
+  status: VariantStatus
+  rating: VariantRating
+  imageUrl?: string
+  details?: OutputNodeOutput['details']
+  issues?: OutputNodeOutput['issues']
+  response?: OutputNodeOutput['response']
+  error?: string
+}
+
+/**
+ * Build the fan-out graph: one upload feeding an Agent → Output pair per message
+ */
+export function buildVariantWorkflow(messages: string[]): WorkflowGraph {
+  const graph: WorkflowGraph = {
+    nodes: [{ id: 'input_node', type: 'Input', label: 'User Image Upload', nodeCategory: 'input' }],
+    edges: [],
+  }
+  messages.forEach((message, i) => {
+    graph.nodes.push(
+      { id: `agent_${i}`, type: 'Agent', label: `Variant ${i + 1}`, nodeCategory: 'agent', config: { message } },
+      { id: `output_${i}`, type: 'Output', label: `Variant ${i + 1} Output`, nodeCategory: 'end' }
+    )
+    graph.edges.push({ source: 'input_node', target: `agent_${i}` }, { source: `agent_${i}`, target: `output_${i}` })
+  })
+  return graph
+}
+
+/**
+ * Generate `count` variants of one image. Variants settle independently;
+ * `onUpdate` receives the full list after every change. Rejects only when
+ * cancelled, the upload fails, or every variant failed.
+ */
+export async function generateVariants(
+  file: File,
+  options: {
+    count: number
+    directions?: string[]
+    styleNote?: string
+    preset?: BrandPreset
+    agentId?: string
+    /** Restrict every variant to the white regions of this mask */
+    mask?: File
+    signal?: AbortSignal
+    /** Called once per variant when the agent accepted its task (see lib/jobStore) */
+    onTaskSubmitted?: (task: SubmittedTransformTask) => void
+    onStage?: (stage: TransformStage) => void
+    onUpdate?: (variants: Variant[]) => void
+  }
+): Promise<{ variants: Variant[]; assetId: string }> {
+  const count = Math.max(1, Math.min(MAX_VARIANTS, options.count))
+  let variants: Variant[] = Array.from({ length: count }, (_, i) => ({
+    id: `variant_${i}`,
+    index: i,
+    direction: options.directions?.[i]?.trim() || options.styleNote?.trim() || '',
+    status: 'pending' as VariantStatus,
+    rating: null,
+  }))
+  const graph = buildVariantWorkflow(variants.map(v => {
+    const message = buildTransformMessage(v.direction, options.preset)
+    return options.mask ? `${message} ${MASK_INSTRUCTION}` : message
+  }))
+
+  const update = (index: number, patch: Partial<Variant>) => {
+    variants = variants.map(v => (v.index === index ? { ...v, ...patch } : v))
+    options.onUpdate?.(variants)
+  }
+  options.onUpdate?.(variants)
+
+  const params: TransformParams = {
+    file,
+    message: '',
+    agentId: options.agentId || AGENT_ID,
+    mask: options.mask,
+    onTaskSubmitted: options.onTaskSubmitted,
+  }
+
+  const run = await runWorkflow(graph, params, {
+    handlers: TRANSFORM_NODE_HANDLERS,
+    signal: options.signal,
+    onNodeStatus: (nodeId, state) => {
+      if (nodeId === 'input_node') {
+        if (state.status === 'running') options.onStage?.('uploading')
+        if (state.status === 'completed') options.onStage?.('transforming')
+        return
+      }
+      const [kind, index] = nodeId.split('_')
+      const i = Number(index)
+      if (kind === 'agent' && state.status === 'running') update(i, { status: 'running' })
+      if (state.status === 'failed') update(i, { status: 'failed', error: state.error })
+      if (kind === 'output' && state.status === 'completed') {
+        const output = state.output as OutputNodeOutput
+        update(i, {
+          status: 'completed',
+          imageUrl: output.imageUrl,
+          details: output.details,
+          issues: output.issues,
+          response: output.response,
+        })
+      }
+    },
+  })
+
+  if (run.status === 'cancelled') throw createCancelledError()
+  if (run.nodes['input_node']?.status === 'failed' || variants.every(v => v.status === 'failed')) {
+    throw run.error instanceof Error ? run.error : new Error('All variants failed')
+  }
+
+  const input = run.outputs['input_node'] as InputNodeOutput | undefined
+  return { variants, assetId: input?.assetIds[0] ?? '' }
+}
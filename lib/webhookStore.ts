@@ -0,0 +1,490 @@
+/**
+ * Outbound Webhooks
+ * Server-side utility for API routes that register webhooks and for the
+ * transform jobs that fire them.
+ *
+ * Webhooks live in DATA_DIR/webhooks.json together with their signing secret;
+ * the secret is returned once, when the webhook is created. Each event becomes
+ * a delivery in DATA_DIR/webhook-deliveries.json (newest MAX_STORED_DELIVERIES
+ * kept) that is POSTed with an HMAC-SHA256 signature and retried with
+ * exponential backoff until it succeeds or runs out of attempts. Deliveries
+ * still pending when the process stops are resumed on the next request.
+ *
+ * Receivers must resolve to public addresses: loopback, private and
+ * link-local targets are refused when a webhook is saved and again before
+ * every attempt, since DNS can change in between. Each attempt connects to
+ * the address that was checked, so a second lookup can't swap it. Set
+ * WEBHOOK_ALLOW_PRIVATE_TARGETS=true to test against a local receiver.
+ * Receiver response bodies are never stored or returned.
+ */
+
+import crypto from 'crypto'
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+import { z } from 'zod'
+import { dataPath, readJsonFile, updateJsonFile } from '@/lib/serverData'
+import type { Webhook, WebhookEvent } from '@/lib/scheduler'
+import type { WebhookDelivery, WebhookDeliveryAttempt, WebhookDeliveryEvent } from '@/lib/webhooks'
+
+const WEBHOOKS_FILE = dataPath('webhooks.json')
+const DELIVERIES_FILE = dataPath('webhook-deliveries.json')
+const MAX_STORED_DELIVERIES = 500
+
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5)
+/** Delay before retry n is RETRY_BASE_MS * 2^(n-1) */
+const RETRY_BASE_MS = Math.max(100, Number(process.env.WEBHOOK_RETRY_BASE_MS) || 1000)
+const ATTEMPT_TIMEOUT_MS = 10_000
+const ALLOW_PRIVATE_TARGETS = process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true'
+const USER_AGENT = 'lyzr-style-transfer-webhooks/1.0'
+
+// Types
+interface StoredWebhook extends Webhook {
+  secret: string
+  events: WebhookEvent[]
+}
+
+export interface WebhookInput {
+  webhook_url: string
+  description?: string
+  /** Only fire for jobs run by this agent; empty for every agent */
+  agent_id?: string
+  events: WebhookEvent[]
+}
+
+/** Request body of POST /api/webhooks; PATCH accepts any subset plus is_active */
+export const webhookInputSchema = z.object({
+  webhook_url: z
+    .string()
+    .trim()
+    .url()
+    .refine(url => /^https?:\/\//i.test(url), 'Webhook URL must use http or https'),
+  description: z.string().max(200).optional(),
+  agent_id: z.string().max(100).optional(),
+  events: z.array(z.enum(['job.completed', 'job.failed'])).min(1, 'Subscribe to at least one event'),
+})
+
+/** Deliveries with a timer or request in flight in this process */
+const scheduledDeliveries = new Set<string>()
+let pendingResumed = false
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function readWebhooks(): Promise<StoredWebhook[]> {
+  return readJsonFile<StoredWebhook[]>(WEBHOOKS_FILE, [])
+}
+
+function updateWebhooks<T>(mutate: (webhooks: StoredWebhook[]) => T): Promise<T> {
+  return updateJsonFile<StoredWebhook[], T>(WEBHOOKS_FILE, [], mutate)
+}
+
+function readDeliveries(): Promise<WebhookDelivery[]> {
+  return readJsonFile<WebhookDelivery[]>(DELIVERIES_FILE, [])
+}
+
+function updateDeliveries<T>(mutate: (deliveries: WebhookDelivery[]) => T): Promise<T> {
+  return updateJsonFile<WebhookDelivery[], T>(DELIVERIES_FILE, [], deliveries => {
+    const result = mutate(deliveries)
+    // Oldest first in the file; drop the oldest finished entries past the cap
+    while (deliveries.length > MAX_STORED_DELIVERIES) {
+      const index = deliveries.findIndex(d => d.status !== 'pending')
+      deliveries.splice(index === -1 ? 0 : index, 1)
+    }
+    return result
+  })
+}
+
+function toPublicWebhook(webhook: StoredWebhook): Webhook {
+  const { secret: _secret, ...rest } = webhook
+  return rest
+}
+
+/** Deliveries logged before response bodies were dropped still carry an excerpt */
+function toPublicDelivery(delivery: WebhookDelivery): WebhookDelivery {
+  return {
+    ...delivery,
+    attempts: delivery.attempts.map(attempt => {
+      const { response_excerpt: _excerpt, ...rest } = attempt as WebhookDeliveryAttempt & { response_excerpt?: unknown }
+      return rest
+    }),
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Target checks
+// ---------------------------------------------------------------------------
+
+/** Loopback, private, link-local, CGNAT, benchmarking, IETF, unspecified, multicast and reserved IPv4 */
+function isNonPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  )
+}
+
+function isNonPublicAddress(address: string): boolean {
+  if (net.isIPv4(address)) return isNonPublicIPv4(address)
+  const ip = address.toLowerCase()
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isNonPublicIPv4(mapped[1])
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    ip.startsWith('::ffff:') ||
+    /^fe[89ab]/.test(ip) ||
+    /^f[cd]/.test(ip) ||
+    ip.startsWith('ff')
+  )
+}
+
+export interface WebhookTargetCheck {
+  blocked: boolean
+  error: string | null
+  /** The checked address to connect to; null when WEBHOOK_ALLOW_PRIVATE_TARGETS skips the check */
+  address: string | null
+}
+
+/**
+ * Resolve a receiver URL and refuse it when any of its addresses is not public.
+ * `blocked` is false when the host merely failed to resolve, which is worth retrying.
+ */
+export async function checkWebhookTarget(url: string): Promise<WebhookTargetCheck> {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '')
+  } catch {
+    return { blocked: true, error: 'Webhook URL is invalid', address: null }
+  }
+  if (ALLOW_PRIVATE_TARGETS) return { blocked: false, error: null, address: null }
+  let addresses: string[]
+  try {
+    addresses = net.isIP(hostname)
+      ? [hostname]
+      : (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address)
+  } catch {
+    return { blocked: false, error: `Could not resolve ${hostname}`, address: null }
+  }
+  if (addresses.length === 0 || addresses.some(isNonPublicAddress)) {
+    return { blocked: true, error: `${hostname} resolves to a loopback, private or link-local address`, address: null }
+  }
+  return { blocked: false, error: null, address: addresses[0] }
+}
+
+class WebhookTimeoutError extends Error {
+  constructor() {
+    super(`No response within ${ATTEMPT_TIMEOUT_MS / 1000}s`)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * POST `body` to `url`, connecting to `address` when given instead of resolving
+ * the host again. The Host header and TLS server name still come from the URL.
+ * Redirects are not followed; the response body is drained and dropped.
+ */
+function postToReceiver(url: string, address: string | null, headers: Record<string, string>, body: string): Promise<number> {
+  const target = new URL(url)
+  const client = target.protocol === 'https:' ? https : http
+  const lookup: net.LookupFunction | undefined = address
+    ? (_hostname, options, callback) => {
+        const family = net.isIPv6(address) ? 6 : 4
+        // Happy-eyeballs connects ask for every address at once
+        if (options.all) callback(null, [{ address, family }])
+        else callback(null, address, family)
+      }
+    : undefined
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup,
+      timeout: ATTEMPT_TIMEOUT_MS,
+    })
+    req.on('response', res => {
+      res.resume()
+      res.on('end', () => resolve(res.statusCode ?? 0))
+      res.on('error', reject)
+    })
+    req.on('timeout', () => req.destroy(new WebhookTimeoutError()))
+    req.on('error', reject)
+    req.end(body)
+  })
+}
+
+
+// ---------------------------------------------------------------------------
+// Webhook management
+// ---------------------------------------------------------------------------
+
+export async function listWebhooks(): Promise<Webhook[]> {
+  return (await readWebhooks()).map(toPublicWebhook).reverse()
+}
+
+/** Register a webhook. The plaintext `secret` is only ever available in this result. */
+export async function createWebhook(input: WebhookInput): Promise<{ webhook: Webhook; secret: string }> {
+  const secret = `whsec_${crypto.randomBytes(24).toString('base64url')}`
+  const webhook: StoredWebhook = {
+    id: `wh_${crypto.randomBytes(6).toString('hex')}`,
+    agent_id: input.agent_id?.trim() || '',
+    user_id: '',
+    description: input.description?.trim() || '',
+    webhook_url: input.webhook_url,
+    is_active: true,
+    created_at: new Date().toISOString(),
+    last_triggered_at: null,
+    last_trigger_success: null,
+    trigger_count: 0,
+    events: input.events,
+    secret,
+  }
+  await updateWebhooks(webhooks => {
+    webhooks.push(webhook)
+  })
+  return { webhook: toPublicWebhook(webhook), secret }
+}
+
+export async function updateWebhook(
+  id: string,
+  changes: Partial<Pick<WebhookInput, 'webhook_url' | 'description' | 'agent_id' | 'events'>> & { is_active?: boolean }
+): Promise<Webhook | null> {
+  return updateWebhooks(webhooks => {
+    const webhook = webhooks.find(w => w.id === id)
+    if (!webhook) return null
+    if (changes.webhook_url !== undefined) webhook.webhook_url = changes.webhook_url
+    if (changes.description !== undefined) webhook.description = changes.description.trim()
+    if (changes.agent_id !== undefined) webhook.agent_id = changes.agent_id.trim()
+    if (changes.events !== undefined) webhook.events = changes.events
+    if (changes.is_active !== undefined) webhook.is_active = changes.is_active
+    return toPublicWebhook(webhook)
+  })
+}
+
+/** Remove a webhook; its pending deliveries fail on their next attempt */
+export async function deleteWebhook(id: string): Promise<boolean> {
+  return updateWebhooks(webhooks => {
+    const index = webhooks.findIndex(w => w.id === id)
+    if (index === -1) return false
+    webhooks.splice(index, 1)
+    return true
+  })
+}
+
+export async function listDeliveries(options?: { webhookId?: string; limit?: number }): Promise<WebhookDelivery[]> {
+  resumePendingDeliveries()
+  const deliveries = (await readDeliveries()).filter(d => !options?.webhookId || d.webhook_id === options.webhookId)
+  return deliveries.reverse().slice(0, options?.limit ?? 100).map(toPublicDelivery)
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+/** Hex HMAC-SHA256 over `<timestamp>.<body>`; sent as `X-Webhook-Signature: sha256=<hex>` */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/** Network errors, timeouts, 408, 429 and 5xx are worth another attempt; other 4xx are not */
+function isRetryable(statusCode: number | null): boolean {
+  return statusCode === null || statusCode === 408 || statusCode === 429 || statusCode >= 500
+}
+
+async function postDelivery(
+  webhook: StoredWebhook,
+  delivery: WebhookDelivery,
+  attempt: number,
+  address: string | null
+): Promise<WebhookDeliveryAttempt> {
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const startedAt = Date.now()
+  const result: WebhookDeliveryAttempt = {
+    attempt,
+    at: new Date(startedAt).toISOString(),
+    status_code: null,
+    duration_ms: 0,
+    error: null,
+  }
+
+  try {
+    // The body is dropped, not kept; it may echo internal content
+    const statusCode = await postToReceiver(webhook.webhook_url, address, {
+      'Content-Type': 'application/json',
+      'User-Agent': USER_AGENT,
+      'X-Webhook-Id': webhook.id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': delivery.id,
+      'X-Webhook-Timestamp': timestamp,
+      'X-Webhook-Signature': `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+    }, body)
+    result.status_code = statusCode
+    if (statusCode < 200 || statusCode >= 300) result.error = `Receiver answered HTTP ${statusCode}`
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+  }
+  result.duration_ms = Date.now() - startedAt
+  return result
+}
+
+/**
+ * Make the next attempt of a delivery and record it. Returns the updated
+ * delivery and the delay before the next attempt, or null when it is final.
+ */
+async function attemptDelivery(deliveryId: string): Promise<{ delivery: WebhookDelivery | null; retryInMs: number | null }> {
+  const delivery = (await readDeliveries()).find(d => d.id === deliveryId)
+  if (!delivery || delivery.status !== 'pending') return { delivery: delivery ?? null, retryInMs: null }
+
+  const webhook = (await readWebhooks()).find(w => w.id === delivery.webhook_id)
+  const attemptNumber = delivery.attempts.length + 1
+  const target = webhook ? await checkWebhookTarget(webhook.webhook_url) : null
+  const attempt: WebhookDeliveryAttempt =
+    webhook && !target.error
+      ? await postDelivery(webhook, delivery, attemptNumber, target.address)
+      : {
+          attempt: attemptNumber,
+          at: new Date().toISOString(),
+          status_code: null,
+          duration_ms: 0,
+          error: target?.error || 'Webhook was deleted',
+        }
+
+  const succeeded = attempt.status_code !== null && attempt.status_code >= 200 && attempt.status_code < 300
+  const retry =
+    !succeeded &&
+    !!webhook &&
+    !target.blocked &&
+    attemptNumber < delivery.max_attempts &&
+    isRetryable(attempt.status_code)
+  const retryInMs = retry ? RETRY_BASE_MS * 2 ** (attemptNumber - 1) : null
+
+  const updated = await updateDeliveries(deliveries => {
+    const stored = deliveries.find(d => d.id === deliveryId)
+    if (!stored) return null
+    stored.attempts.push(attempt)
+    if (retryInMs !== null) {
+      stored.next_retry_at = new Date(Date.now() + retryInMs).toISOString()
+    } else {
+      stored.status = succeeded ? 'succeeded' : 'failed'
+      stored.next_retry_at = null
+      stored.completed_at = new Date().toISOString()
+    }
+    return { ...stored }
+  })
+
+  if (webhook && retryInMs === null) {
+    await updateWebhooks(webhooks => {
+      const stored = webhooks.find(w => w.id === webhook.id)
+      if (!stored) return
+      stored.trigger_count++
+      stored.last_triggered_at = attempt.at
+      stored.last_trigger_success = succeeded
+    })
+  }
+
+  return { delivery: updated, retryInMs: updated ? retryInMs : null }
+}
+
+function scheduleAttempt(deliveryId: string, delayMs: number) {
+  scheduledDeliveries.add(deliveryId)
+  setTimeout(() => {
+    attemptDelivery(deliveryId)
+      .then(({ retryInMs }) => {
+        if (retryInMs !== null) scheduleAttempt(deliveryId, retryInMs)
+        else scheduledDeliveries.delete(deliveryId)
+      })
+      .catch(error => {
+        console.error(`Webhook delivery ${deliveryId} failed:`, error)
+        scheduledDeliveries.delete(deliveryId)
+      })
+  }, delayMs)
+}
+
+/** Pick up deliveries a previous process left pending; runs once per process */
+function resumePendingDeliveries() {
+  if (pendingResumed) return
+  pendingResumed = true
+  readDeliveries()
+    .then(deliveries => {
+      for (const delivery of deliveries) {
+        if (delivery.status !== 'pending' || scheduledDeliveries.has(delivery.id)) continue
+        const dueIn = delivery.next_retry_at ? new Date(delivery.next_retry_at).getTime() - Date.now() : 0
+        scheduleAttempt(delivery.id, Math.max(0, dueIn))
+      }
+    })
+    .catch(error => console.error('Could not resume webhook deliveries:', error))
+}
+
+async function createDelivery(
+  webhook: StoredWebhook,
+  event: WebhookDeliveryEvent,
+  data: Record<string, unknown>,
+  maxAttempts: number
+): Promise<WebhookDelivery> {
+  const id = `dlv_${crypto.randomBytes(8).toString('hex')}`
+  const createdAt = new Date().toISOString()
+  const delivery: WebhookDelivery = {
+    id,
+    webhook_id: webhook.id,
+    webhook_url: webhook.webhook_url,
+    event,
+    payload: { id, event, created_at: createdAt, data },
+    status: 'pending',
+    attempts: [],
+    max_attempts: maxAttempts,
+    created_at: createdAt,
+    next_retry_at: createdAt,
+    completed_at: null,
+  }
+  await updateDeliveries(deliveries => {
+    deliveries.push(delivery)
+  })
+  return delivery
+}
+
+/**
+ * Queue `event` for every active webhook subscribed to it and start delivering
+ * in the background. Webhooks with an agent_id only receive that agent's jobs.
+ */
+export async function dispatchWebhookEvent(
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+  options?: { agentId?: string }
+): Promise<WebhookDelivery[]> {
+  resumePendingDeliveries()
+  const targets = (await readWebhooks()).filter(
+    w => w.is_active && w.events.includes(event) && (!w.agent_id || !options?.agentId || w.agent_id === options.agentId)
+  )
+  const deliveries: WebhookDelivery[] = []
+  for (const webhook of targets) {
+    const delivery = await createDelivery(webhook, event, data, MAX_ATTEMPTS)
+    scheduleAttempt(delivery.id, 0)
+    deliveries.push(delivery)
+  }
+  return deliveries
+}
+
+/** Send one `ping` (no retries) and return the recorded delivery */
+export async function sendTestWebhook(id: string): Promise<WebhookDelivery | null> {
+  const webhook = (await readWebhooks()).find(w => w.id === id)
+  if (!webhook) return null
+  const delivery = await createDelivery(
+    webhook,
+    'ping',
+    { message: 'Test delivery from the style transfer app', webhook_id: webhook.id },
+    1
+  )
+  return (await attemptDelivery(delivery.id)).delivery
+}
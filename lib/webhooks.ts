@@ -0,0 +1,239 @@
+'use client'
+
+/**
+ * Webhooks Client Utility
+ *
+ * Client-side wrapper for the outbound webhooks served by /api/webhooks.
+ * When a transform job from /api/v1/transform completes or fails, every active
+ * webhook subscribed to that event receives a signed JSON POST; failed
+ * deliveries are retried with exponential backoff and logged.
+ *
+ * Receivers verify a delivery by computing
+ * `HMAC-SHA256(secret, "<X-Webhook-Timestamp>.<raw body>")` and comparing the
+ * hex digest with the `X-Webhook-Signature: sha256=<hex>` header.
+ *
+ * Every route requires the admin token (see lib/adminToken.ts).
+ */
+
+import { useState, useCallback } from 'react'
+import { adminFetch } from '@/lib/adminToken'
+import type { Webhook, WebhookEvent } from '@/lib/scheduler'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** `ping` is only sent by the Test button */
+export type WebhookDeliveryEvent = WebhookEvent | 'ping'
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
+export interface WebhookPayload {
+  /** Same as the delivery id; stable across retries so receivers can deduplicate */
+  id: string
+  event: WebhookDeliveryEvent
+  created_at: string
+  data: Record<string, unknown>
+}
+
+export interface WebhookDeliveryAttempt {
+  attempt: number
+  at: string
+  /** HTTP status of the receiver's answer; null when the request never got one */
+  status_code: number | null
+  duration_ms: number
+  error: string | null
+}
+
+export interface WebhookDelivery {
+  id: string
+  webhook_id: string
+  webhook_url: string
+  event: WebhookDeliveryEvent
+  payload: WebhookPayload
+  status: WebhookDeliveryStatus
+  attempts: WebhookDeliveryAttempt[]
+  max_attempts: number
+  created_at: string
+  next_retry_at: string | null
+  completed_at: string | null
+}
+
+export const WEBHOOK_EVENT_OPTIONS: { value: WebhookEvent; label: string }[] = [
+  { value: 'job.completed', label: 'Job completed' },
+  { value: 'job.failed', label: 'Job failed' },
+]
+
+// ---------------------------------------------------------------------------
+// API calls
+// ---------------------------------------------------------------------------
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Network error'
+}
+
+/** `status` is 401 when the admin token is missing or wrong */
+export async function listWebhooks(): Promise<{ success: boolean; webhooks: Webhook[]; status?: number; error?: string }> {
+  try {
+    const res = await adminFetch('/api/webhooks')
+    const data = await res.json()
+    if (!data.success) return { success: false, webhooks: [], status: res.status, error: data.error }
+    return { success: true, webhooks: data.webhooks || [], status: res.status }
+  } catch (error) {
+    return { success: false, webhooks: [], error: errorMessage(error) }
+  }
+}
+
+/** Register a webhook. The signing `secret` is only returned here. */
+export async function createWebhook(params: {
+  webhook_url: string
+  description?: string
+  agent_id?: string
+  events: WebhookEvent[]
+}): Promise<{ success: boolean; webhook?: Webhook; secret?: string; error?: string; details?: string }> {
+  try {
+    const res = await adminFetch('/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    })
+    const data = await res.json()
+    if (!data.success) {
+      const details = Array.isArray(data.details)
+        ? data.details.map((d: { message: string }) => d.message).join('; ')
+        : data.details
+      return { success: false, error: data.error, details }
+    }
+    return { success: true, webhook: data.webhook, secret: data.secret }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function updateWebhook(
+  webhookId: string,
+  changes: Partial<Pick<Webhook, 'webhook_url' | 'description' | 'agent_id' | 'is_active' | 'events'>>
+): Promise<{ success: boolean; webhook?: Webhook; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/webhooks/${encodeURIComponent(webhookId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes),
+    })
+    const data = await res.json()
+    if (!data.success) return { success: false, error: data.error }
+    return { success: true, webhook: data.webhook }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+export async function deleteWebhook(webhookId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/webhooks/${encodeURIComponent(webhookId)}`, { method: 'DELETE' })
+    const data = await res.json()
+    return data.success ? { success: true } : { success: false, error: data.error }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Send a single `ping` delivery and wait for the receiver's answer */
+export async function testWebhook(webhookId: string): Promise<{ success: boolean; delivery?: WebhookDelivery; error?: string }> {
+  try {
+    const res = await adminFetch(`/api/webhooks/${encodeURIComponent(webhookId)}/test`, { method: 'POST' })
+    const data = await res.json()
+    if (!data.success) return { success: false, delivery: data.delivery, error: data.error }
+    return { success: true, delivery: data.delivery }
+  } catch (error) {
+    return { success: false, error: errorMessage(error) }
+  }
+}
+
+/** Most recent deliveries first, optionally for one webhook */
+export async function listDeliveries(params?: {
+  webhookId?: string
+  limit?: number
+}): Promise<{ success: boolean; deliveries: WebhookDelivery[]; error?: string }> {
+  try {
+    const query = new URLSearchParams()
+    if (params?.webhookId) query.set('webhook_id', params.webhookId)
+    if (params?.limit) query.set('limit', String(params.limit))
+    const res = await adminFetch(`/api/webhooks/deliveries?${query.toString()}`)
+    const data = await res.json()
+    if (!data.success) return { success: false, deliveries: [], error: data.error }
+    return { success: true, deliveries: data.deliveries || [] }
+  } catch (error) {
+    return { success: false, deliveries: [], error: errorMessage(error) }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// React hook
+// ---------------------------------------------------------------------------
+
+export function useWebhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [needsToken, setNeedsToken] = useState(false)
+
+  const loadWebhooks = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    const result = await listWebhooks()
+    setLoading(false)
+    setNeedsToken(result.status === 401)
+    if (result.success) setWebhooks(result.webhooks)
+    else setError(result.error || 'Failed to load webhooks')
+    return result
+  }, [])
+
+  const loadDeliveries = useCallback(async (webhookId?: string) => {
+    const result = await listDeliveries({ webhookId, limit: 100 })
+    if (result.success) setDeliveries(result.deliveries)
+    else setError(result.error || 'Failed to load deliveries')
+    return result
+  }, [])
+
+  const create = useCallback(async (params: Parameters<typeof createWebhook>[0]) => {
+    const result = await createWebhook(params)
+    if (result.success && result.webhook) setWebhooks(prev => [result.webhook!, ...prev])
+    return result
+  }, [])
+
+  const update = useCallback(async (webhookId: string, changes: Parameters<typeof updateWebhook>[1]) => {
+    const result = await updateWebhook(webhookId, changes)
+    if (result.success && result.webhook) {
+      setWebhooks(prev => prev.map(w => (w.id === webhookId ? result.webhook! : w)))
+    }
+    return result
+  }, [])
+
+  const remove = useCallback(async (webhookId: string) => {
+    const result = await deleteWebhook(webhookId)
+    if (result.success) setWebhooks(prev => prev.filter(w => w.id !== webhookId))
+    return result
+  }, [])
+
+  const test = useCallback(async (webhookId: string) => {
+    const result = await testWebhook(webhookId)
+    if (result.delivery) setDeliveries(prev => [result.delivery!, ...prev.filter(d => d.id !== result.delivery!.id)])
+    return result
+  }, [])
+
+  return {
+    webhooks,
+    deliveries,
+    loading,
+    error,
+    needsToken,
+    loadWebhooks,
+    loadDeliveries,
+    create,
+    update,
+    remove,
+    test,
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Workflow Engine
+ *
+ * Executes the node/edge graph from `workflow_state.json`. Each node type maps
+ * to an async handler; a node runs once all of its upstream nodes completed and
+ * receives their outputs. Independent nodes in the same level run in parallel.
+ * A failed node skips everything downstream of it; the run as a whole is
+ * failed if any node failed.
+ *
+ * Handlers are looked up in the per-run `handlers` map first, then in the
+ * global registry, so new node types (e.g. "Upscale", "Caption") can be added
+ * with registerNodeHandler without touching the callers.
+ *
+ * @example
+ * ```ts
+ * registerNodeHandler('Caption', async ({ input }) => captionImage(input))
+ * const run = await runWorkflow(graph, params, { handlers, onNodeStatus })
+ * if (run.status === 'completed') console.log(run.outputs['output_node'])
+ * ```
+ */
+
+// Types
+export interface WorkflowNode {
+  id: string
+  type: string
+  label: string
+  nodeCategory?: string
+  config?: Record<string, unknown>
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+}
+
+export type NodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled'
+
+export interface NodeRunState {
+  status: NodeStatus
+  output?: unknown
+  error?: string
+  startedAt?: number
+  finishedAt?: number
+}
+
+export interface NodeContext<P = any> {
+  node: WorkflowNode
+  params: P
+  /** Output of the first upstream node (the common single-input case) */
+  input: unknown
+  /** Outputs of every upstream node keyed by node id */
+  inputs: Record<string, unknown>
+  signal?: AbortSignal
+}
+
+export type NodeHandler<P = any> = (context: NodeContext<P>) => Promise<unknown>
+
+export interface WorkflowRun {
+  status: 'completed' | 'failed' | 'cancelled'
+  nodes: Record<string, NodeRunState>
+  outputs: Record<string, unknown>
+  /** The error thrown by the failing node, rethrowable by callers */
+  error?: unknown
+  failedNodeId?: string
+}
+
+export interface RunWorkflowOptions<P = any> {
+  handlers?: Record<string, NodeHandler<P>>
+  signal?: AbortSignal
+  onNodeStatus?: (nodeId: string, state: NodeRunState) => void
+}
+
+// ---------------------------------------------------------------------------
+// Handler registry
+// ---------------------------------------------------------------------------
+
+const registry = new Map<string, NodeHandler>()
+
+export function registerNodeHandler<P = any>(type: string, handler: NodeHandler<P>) {
+  registry.set(type, handler as NodeHandler)
+}
+
+export function getNodeHandler(type: string): NodeHandler | undefined {
+  return registry.get(type)
+}
+
+// ---------------------------------------------------------------------------
+// Graph helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Group nodes into dependency levels (Kahn's algorithm). Nodes in one level
+ * only depend on earlier levels. Returns an error for dangling edges or cycles.
+ */
+export function topologicalLevels(graph: WorkflowGraph): { levels: WorkflowNode[][]; error?: string } {
+  const byId = new Map(graph.nodes.map(node => [node.id, node]))
+  const indegree = new Map(graph.nodes.map(node => [node.id, 0]))
+
+  for (const edge of graph.edges) {
+    if (!byId.has(edge.source) || !byId.has(edge.target)) {
+      return { levels: [], error: `Edge ${edge.source} → ${edge.target} references an unknown node` }
+    }
+    indegree.set(edge.target, (indegree.get(edge.target) ?? 0) + 1)
+  }
+
+  const levels: WorkflowNode[][] = []
+  let current = graph.nodes.filter(node => indegree.get(node.id) === 0)
+  let visited = 0
+  while (current.length > 0) {
+    levels.push(current)
+    visited += current.length
+    const next: WorkflowNode[] = []
+    for (const node of current) {
+      for (const edge of graph.edges) {
+        if (edge.source !== node.id) continue
+        const remaining = (indegree.get(edge.target) ?? 0) - 1
+        indegree.set(edge.target, remaining)
+        if (remaining === 0) next.push(byId.get(edge.target)!)
+      }
+    }
+    current = next
+  }
+
+  if (visited !== graph.nodes.length) {
+    return { levels: [], error: 'Workflow graph contains a cycle' }
+  }
+  return { levels }
+}
+
+export function upstreamOf(graph: WorkflowGraph, nodeId: string): string[] {
+  return graph.edges.filter(edge => edge.target === nodeId).map(edge => edge.source)
+}
+
+// ---------------------------------------------------------------------------
+// Execution
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a workflow graph. Never throws — the result carries the final status,
+ * per-node state and the error of the node that failed.
+ */
+export async function runWorkflow<P = any>(
+  graph: WorkflowGraph,
+  params: P,
+  options?: RunWorkflowOptions<P>
+): Promise<WorkflowRun> {
+  const nodes: Record<string, NodeRunState> = {}
+  const outputs: Record<string, unknown> = {}
+  const signal = options?.signal
+
+  const setState = (nodeId: string, state: NodeRunState) => {
+    nodes[nodeId] = state
+    options?.onNodeStatus?.(nodeId, state)
+  }
+
+  for (const node of graph.nodes) {
+    setState(node.id, { status: 'pending' })
+  }
+
+  const { levels, error: graphError } = topologicalLevels(graph)
+  if (graphError) {
+    return { status: 'failed', nodes, outputs, error: new Error(graphError) }
+  }
+
+  let failure: { nodeId: string; error: unknown } | null = null
+
+  for (const level of levels) {
+    await Promise.all(level.map(async node => {
+      const upstream = upstreamOf(graph, node.id)
+      // Only nodes downstream of a failure are skipped; independent branches keep running
+      if (signal?.aborted || upstream.some(id => nodes[id].status !== 'completed')) {
+        setState(node.id, { status: signal?.aborted ? 'cancelled' : 'skipped' })
+        return
+      }
+
+      const handler = options?.handlers?.[node.type] ?? getNodeHandler(node.type)
+      if (!handler) {
+        const error = new Error(`No handler registered for node type "${node.type}"`)
+        failure = failure ?? { nodeId: node.id, error }
+        setState(node.id, { status: 'failed', error: error.message })
+        return
+      }
+
+      const inputs: Record<string, unknown> = {}
+      for (const id of upstream) inputs[id] = outputs[id]
+
+      const startedAt = Date.now()
+      setState(node.id, { status: 'running', startedAt })
+      try {
+        const output = await handler({ node, params, input: upstream.length > 0 ? outputs[upstream[0]] : undefined, inputs, signal })
+        outputs[node.id] = output
+        setState(node.id, { status: 'completed', output, startedAt, finishedAt: Date.now() })
+      } catch (error) {
+        const cancelled = signal?.aborted
+        if (!cancelled) failure = failure ?? { nodeId: node.id, error }
+        setState(node.id, {
+          status: cancelled ? 'cancelled' : 'failed',
+          error: error instanceof Error ? error.message : String(error),
+          startedAt,
+          finishedAt: Date.now(),
+        })
+      }
+    }))
+  }
+
+  if (signal?.aborted) return { status: 'cancelled', nodes, outputs }
+  if (failure) return { status: 'failed', nodes, outputs, error: failure.error, failedNodeId: failure.nodeId }
+  return { status: 'completed', nodes, outputs }
+}
@@ -0,0 +1,102 @@
+/**
+ * Minimal ZIP Writer
+ *
+ * Builds an uncompressed ("stored") ZIP archive in memory. Image formats are
+ * already compressed, so deflate would add code without saving space.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+  modified?: Date
+}
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** MS-DOS date/time fields used by the ZIP headers */
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Create a stored ZIP archive from the given entries
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+    const stamp = dosDateTime(entry.modified ?? new Date())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // UTF-8 names
+    local.setUint16(8, 0, true) // stored
+    local.setUint16(10, stamp.time, true)
+    local.setUint16(12, stamp.date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true) // version made by
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, stamp.time, true)
+    header.setUint16(14, stamp.date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, size, true)
+    header.setUint32(24, size, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true)
+    central.push(new Uint8Array(header.buffer), name)
+
+    offset += 30 + name.length + size
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' })
+}
@@ -20,6 +20,9 @@ const nextConfig = {
 
   // Enable experimental features for faster dev
   experimental: {
+    // Run instrumentation.ts on server start (scheduler and ingestion timers)
+    instrumentationHook: true,
+
     // Optimize package imports for faster builds
     optimizePackageImports: [
       'lucide-react',
@@ -0,0 +1,167 @@
+import { after, before, beforeEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+// The queue reads its limits once at load, so they are set before the dynamic import below
+const dataDir = mkdtempSync(path.join(os.tmpdir(), 'agent-queue-test-'))
+process.env.DATA_DIR = dataDir
+process.env.AGENT_QUEUE_MAX_PER_AGENT = '2'
+process.env.AGENT_QUEUE_MAX_PER_USER = '2'
+process.env.AGENT_QUEUE_BURST = '4'
+/** One token every 10 seconds */
+process.env.AGENT_QUEUE_RATE_PER_MINUTE = '6'
+process.env.AGENT_QUEUE_UPSTREAM_RETRIES = '2'
+
+type AgentQueue = typeof import('@/lib/agentQueue')
+type RunLog = typeof import('@/lib/runLog')
+
+let queue: AgentQueue
+let runLog: RunLog
+/** Bodies of the upstream submits, in order */
+let submits: { agent_id: string }[] = []
+let taskCount = 0
+/** Status codes for the next submits; 200 once empty */
+let submitStatuses: number[] = []
+/** What a poll of each Lyzr task answers; `processing` by default */
+const taskStatus = new Map<string, string>()
+const tickets: string[] = []
+
+async function stubFetch(input: string | URL | Request, init?: RequestInit): Promise<Response> {
+  if (init?.method === 'POST') {
+    submits.push(JSON.parse(String(init.body)))
+    const status = submitStatuses.shift() ?? 200
+    const body = status === 200 ? { task_id: `task_${++taskCount}` } : { detail: 'Too many requests' }
+    return new Response(JSON.stringify(body), { status })
+  }
+  const task_id = String(input).split('/').pop()!
+  return new Response(JSON.stringify({ status: taskStatus.get(task_id) ?? 'processing', error: 'Agent task failed' }))
+}
+
+/** Let the stubbed submits and the queue's follow-up pumps settle */
+async function flush() {
+  for (let i = 0; i < 20; i++) await new Promise(resolve => setImmediate(resolve))
+}
+
+function enqueue(agent_id: string, user_key: string): string {
+  const result = queue.enqueueAgentTask({ message: 'hi', agent_id }, user_key)
+  assert.ok(result.success, result.error)
+  tickets.push(result.task_id!)
+  return result.task_id!
+}
+
+async function poll(ticket: string) {
+  const result = await queue.fetchQueuedTaskStatus(ticket)
+  await flush()
+  return result
+}
+
+describe('agentQueue', () => {
+  before(async () => {
+    mock.timers.enable({ apis: ['setTimeout', 'Date'], now: Date.parse('2026-01-01T00:00:00Z') })
+    mock.method(globalThis, 'fetch', stubFetch)
+    queue = await import('@/lib/agentQueue')
+    runLog = await import('@/lib/runLog')
+  })
+
+  after(async () => {
+    tickets.splice(0).forEach(ticket => queue.cancelQueuedTask(ticket))
+    mock.timers.reset()
+    mock.restoreAll()
+    // Let the run log writes finish before their directory goes
+    await new Promise(resolve => setTimeout(resolve, 200))
+    rmSync(dataDir, { recursive: true, force: true })
+  })
+
+  beforeEach(async () => {
+    // Free every slot and let the bucket fill up again
+    tickets.splice(0).forEach(ticket => queue.cancelQueuedTask(ticket))
+    mock.timers.tick(60_000)
+    await flush()
+    submits = []
+    submitStatuses = []
+  })
+
+  it('runs at most the per-agent cap of tasks at once', async () => {
+    const [first, , third] = [enqueue('agent-a', 'u1'), enqueue('agent-a', 'u2'), enqueue('agent-a', 'u3')]
+    await flush()
+    assert.equal(submits.length, 2)
+    assert.equal((await poll(third)).body.queue_position, 1)
+
+    taskStatus.set(`task_${taskCount - 1}`, 'failed')
+    assert.equal((await poll(first)).state, 'failed')
+    assert.equal(submits.length, 3)
+  })
+
+  it('runs at most the per-user cap of tasks at once', async () => {
+    enqueue('agent-a', 'u1')
+    enqueue('agent-b', 'u1')
+    const third = enqueue('agent-c', 'u1')
+    enqueue('agent-d', 'u2')
+    await flush()
+    assert.deepEqual(submits.map(s => s.agent_id), ['agent-a', 'agent-b', 'agent-d'])
+    assert.equal((await poll(third)).body.queued, true)
+  })
+
+  it('sends a burst, then one task per refilled token', async () => {
+    for (let i = 0; i < 6; i++) enqueue(`agent-${i}`, `u${i}`)
+    await flush()
+    assert.equal(submits.length, 4)
+
+    mock.timers.tick(9_000)
+    await flush()
+    assert.equal(submits.length, 4)
+    mock.timers.tick(1_000)
+    await flush()
+    assert.equal(submits.length, 5)
+    mock.timers.tick(10_000)
+    await flush()
+    assert.equal(submits.length, 6)
+  })
+
+  it('retries an upstream 429 as the next attempt of the same run', async () => {
+    submitStatuses = [429]
+    const ticket = enqueue('agent-retry', 'u1')
+    await flush()
+    const waiting = await poll(ticket)
+    assert.equal(waiting.body.queued, true)
+    assert.equal(waiting.body.attempts, 1)
+
+    // The 429 emptied the bucket, so the retry waits for the next token
+    mock.timers.tick(10_000)
+    await flush()
+    assert.equal(submits.length, 2)
+    assert.equal((await poll(ticket)).state, 'processing')
+
+    let runs: Awaited<ReturnType<RunLog['readRuns']>> = []
+    for (let i = 0; i < 50 && runs.length < 2; i++) {
+      runs = (await runLog.readRuns()).filter(run => run.agent_id === 'agent-retry')
+      await flush()
+    }
+    assert.deepEqual(runs.map(run => [run.attempt, run.http_status]), [[1, 429], [2, null]])
+  })
+
+  it('fails the ticket with the upstream 429 once the retries are used up', async () => {
+    submitStatuses = [429, 429, 429]
+    const ticket = enqueue('agent-a', 'u1')
+    for (let i = 0; i < 3; i++) {
+      await flush()
+      mock.timers.tick(60_000)
+    }
+    await flush()
+    assert.equal(submits.length, 3)
+    const result = await poll(ticket)
+    assert.equal(result.state, 'failed')
+    assert.equal(result.httpStatus, 429)
+  })
+
+  it('rejects submits once the caller has too many tasks waiting', async () => {
+    // 2 run and 20 wait (the default per-user waiting cap)
+    for (let i = 0; i < 22; i++) enqueue(`agent-${i}`, 'u1')
+    const result = queue.enqueueAgentTask({ message: 'hi', agent_id: 'agent-x' }, 'u1')
+    assert.equal(result.success, false)
+    assert.equal(result.status, 429)
+    assert.ok((result.retry_after ?? 0) >= 1)
+  })
+})
@@ -0,0 +1,40 @@
+import { before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+
+// The allow-list is read once at load, so it is set before the dynamic import below
+process.env.ARTIFACT_ALLOWED_HOSTS = [
+  'lyzr-artifacts.s3.us-east-1.amazonaws.com',
+  'storage.googleapis.com/lyzr-results',
+  '*.amazonaws.com',
+  's3.amazonaws.com',
+].join(',')
+
+let isAllowedArtifactUrl: typeof import('@/lib/artifactCache').isAllowedArtifactUrl
+
+function allowed(url: string) {
+  return isAllowedArtifactUrl(new URL(url))
+}
+
+describe('artifact allow-list', () => {
+  before(async () => {
+    ;({ isAllowedArtifactUrl } = await import('@/lib/artifactCache'))
+  })
+
+  it('allows artifact URLs on the configured bucket', () => {
+    assert.equal(allowed('https://lyzr-artifacts.s3.us-east-1.amazonaws.com/outputs/6f1c/styled.png?X-Amz-Signature=abc'), true)
+    assert.equal(allowed('https://storage.googleapis.com/lyzr-results/outputs/6f1c/styled.png'), true)
+  })
+
+  it('allows Lyzr and sample image hosts by default', () => {
+    assert.equal(allowed('https://studio.lyzr.ai/artifacts/styled.png'), true)
+    assert.equal(allowed('https://images.unsplash.com/photo-1?w=800'), true)
+  })
+
+  it('refuses other buckets on shared cloud hosts', () => {
+    assert.equal(allowed('https://someone-else.s3.amazonaws.com/x.png'), false)
+    assert.equal(allowed('https://s3.amazonaws.com/someone-else/x.png'), false)
+    assert.equal(allowed('https://storage.googleapis.com/someone-else/x.png'), false)
+    assert.equal(allowed('https://storage.googleapis.com/lyzr-results-evil/x.png'), false)
+    assert.equal(allowed('https://lyzr.ai.example.com/x.png'), false)
+  })
+})
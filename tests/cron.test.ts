@@ -0,0 +1,113 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { describeCron, nextCronRuns, parseCron, validateCron } from '@/lib/cron'
+
+function runs(expression: string, from: string, options?: { count?: number; timezone?: string }) {
+  return nextCronRuns(expression, { ...options, from: new Date(from) }).map(date => date.toISOString())
+}
+
+describe('parseCron', () => {
+  it('points errors at the offending field', () => {
+    const error = validateCron('0 25 * * *')
+    assert.equal(error?.field, 'hour')
+    assert.equal(error?.position, 2)
+    assert.equal(error?.length, 2)
+  })
+
+  it('folds 7 to Sunday and expands macros', () => {
+    assert.deepEqual(parseCron('0 0 * * 7').cron?.daysOfWeek, [0])
+    assert.equal(parseCron('@weekly').cron?.expression, '0 0 * * 0')
+  })
+
+  it('rejects day-of-month/month combinations that never occur', () => {
+    const error = validateCron('0 0 30 2 *')
+    assert.equal(error?.field, 'dayOfMonth')
+    assert.equal(error?.position, 4)
+    assert.notEqual(validateCron('0 0 31 4,6,9,11 *'), null)
+  })
+
+  it('accepts combinations that only occur in leap years or through day-of-week', () => {
+    assert.equal(validateCron('0 0 29 2 *'), null)
+    // 30 February never comes, but every Monday in February does
+    assert.equal(validateCron('0 0 30 2 1'), null)
+  })
+})
+
+describe('describeCron', () => {
+  const text = (expression: string) => describeCron(parseCron(expression).cron!)
+
+  it('describes an hour range at a fixed minute as hourly runs', () => {
+    assert.equal(text('0 9-17 * * *'), 'Every hour from 9:00 to 17:00')
+    assert.equal(text('30 9-17 * * 1-5'), 'Every hour from 9:30 to 17:30, on weekdays')
+  })
+
+  it('keeps the minute range wording when minutes vary', () => {
+    assert.equal(text('*/15 9-17 * * *'), 'Every 15 minutes between 9:00 and 17:59')
+  })
+
+  it('joins day fields with "and" when one starts with *', () => {
+    assert.equal(text('0 0 */2 * 1'), 'At 0:00, every 2 days of the month and on Monday')
+    assert.equal(text('0 0 1 * 1'), 'At 0:00, on day 1 of the month or on Monday')
+  })
+})
+
+describe('nextCronRuns', () => {
+  it('matches either day field when both are restricted', () => {
+    // The 1st of the month (a Sunday) or any Monday
+    assert.deepEqual(runs('0 9 1 * 1', '2026-03-01T00:00:00Z', { count: 4 }), [
+      '2026-03-01T09:00:00.000Z',
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-09T09:00:00.000Z',
+      '2026-03-16T09:00:00.000Z',
+    ])
+  })
+
+  it('treats a day field starting with * as unrestricted, like Vixie cron', () => {
+    const cron = parseCron('0 0 */2 * 1').cron!
+    assert.equal(cron.domRestricted, false)
+    // Both fields must match: Mondays that fall on an odd day, never other odd days
+    const mondays = runs(cron.expression, '2026-03-01T00:00:00Z', { count: 4 })
+    assert.deepEqual(mondays, [
+      '2026-03-09T00:00:00.000Z',
+      '2026-03-23T00:00:00.000Z',
+      '2026-04-13T00:00:00.000Z',
+      '2026-04-27T00:00:00.000Z',
+    ])
+    assert.ok(mondays.every(run => new Date(run).getUTCDay() === 1))
+  })
+
+  it('matches only the restricted day field when the other is * or ?', () => {
+    assert.deepEqual(runs('0 9 1 * *', '2026-03-01T00:00:00Z', { count: 2 }), [
+      '2026-03-01T09:00:00.000Z',
+      '2026-04-01T09:00:00.000Z',
+    ])
+    assert.deepEqual(runs('0 9 ? * MON', '2026-03-01T00:00:00Z', { count: 2 }), [
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-09T09:00:00.000Z',
+    ])
+  })
+
+  it('skips wall-clock times that a DST spring-forward removes', () => {
+    // 2:30 doesn't exist in New York on 8 March 2026
+    assert.deepEqual(runs('30 2 * * *', '2026-03-07T12:00:00Z', { count: 2, timezone: 'America/New_York' }), [
+      '2026-03-09T06:30:00.000Z',
+      '2026-03-10T06:30:00.000Z',
+    ])
+  })
+
+  it('fires once for wall-clock times that a DST fall-back repeats', () => {
+    // 1:30 happens twice in New York on 1 November 2026
+    assert.deepEqual(runs('30 1 * * *', '2026-10-31T12:00:00Z', { count: 2, timezone: 'America/New_York' }), [
+      '2026-11-01T05:30:00.000Z',
+      '2026-11-02T06:30:00.000Z',
+    ])
+    assert.deepEqual(runs('0 * * * *', '2026-11-01T04:30:00Z', { count: 2, timezone: 'America/New_York' }), [
+      '2026-11-01T05:00:00.000Z',
+      '2026-11-01T07:00:00.000Z',
+    ])
+  })
+
+  it('returns nothing for an invalid timezone', () => {
+    assert.deepEqual(runs('0 9 * * *', '2026-03-01T00:00:00Z', { timezone: 'Mars/Olympus' }), [])
+  })
+})
@@ -0,0 +1,21 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { checkWebhookTarget } from '@/lib/webhookStore'
+
+describe('checkWebhookTarget', () => {
+  it('refuses loopback, private, link-local and reserved addresses', async () => {
+    for (const host of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '192.0.0.8', '198.18.0.1', '198.19.255.255', '[::1]', '[fd00::1]', '[::ffff:127.0.0.1]']) {
+      const check = await checkWebhookTarget(`http://${host}/hook`)
+      assert.equal(check.blocked, true, host)
+      assert.equal(check.address, null, host)
+    }
+  })
+
+  it('returns the checked address of a public receiver to connect to', async () => {
+    for (const host of ['8.8.8.8', '1.1.1.1', '198.20.0.1', '[2606:4700::1111]']) {
+      const check = await checkWebhookTarget(`https://${host}/hook`)
+      assert.equal(check.blocked, false, host)
+      assert.equal(check.address, host.replace(/^\[|\]$/g, ''), host)
+    }
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { runWorkflow, topologicalLevels } from '@/lib/workflowEngine'
+import type { WorkflowGraph } from '@/lib/workflowEngine'
+
+function graph(ids: string[], edges: [string, string][]): WorkflowGraph {
+  return {
+    nodes: ids.map(id => ({ id, type: 'Step', label: id })),
+    edges: edges.map(([source, target]) => ({ source, target })),
+  }
+}
+
+function levelIds(g: WorkflowGraph) {
+  return topologicalLevels(g).levels.map(level => level.map(node => node.id))
+}
+
+describe('topologicalLevels', () => {
+  it('groups independent nodes into the same level', () => {
+    const diamond = graph(['a', 'b', 'c', 'd'], [['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd']])
+    assert.deepEqual(levelIds(diamond), [['a'], ['b', 'c'], ['d']])
+  })
+
+  it('places a node after the deepest of its upstream nodes', () => {
+    const g = graph(['a', 'b', 'c'], [['a', 'b'], ['b', 'c'], ['a', 'c']])
+    assert.deepEqual(levelIds(g), [['a'], ['b'], ['c']])
+  })
+
+  it('reports cycles', () => {
+    const result = topologicalLevels(graph(['a', 'b', 'c'], [['a', 'b'], ['b', 'c'], ['c', 'b']]))
+    assert.deepEqual(result.levels, [])
+    assert.equal(result.error, 'Workflow graph contains a cycle')
+  })
+
+  it('reports edges to unknown nodes', () => {
+    const result = topologicalLevels(graph(['a'], [['a', 'missing']]))
+    assert.match(result.error ?? '', /unknown node/)
+  })
+})
+
+describe('runWorkflow', () => {
+  it('fails a cyclic graph without running any node', async () => {
+    let calls = 0
+    const run = await runWorkflow(graph(['a', 'b'], [['a', 'b'], ['b', 'a']]), {}, {
+      handlers: { Step: async () => calls++ },
+    })
+    assert.equal(run.status, 'failed')
+    assert.equal(calls, 0)
+  })
+
+  it('skips nodes downstream of a failure and keeps independent branches running', async () => {
+    const g = graph(['a', 'b', 'c', 'd'], [['a', 'b'], ['b', 'c']])
+    const run = await runWorkflow(g, {}, {
+      handlers: {
+        Step: async ({ node }) => {
+          if (node.id === 'b') throw new Error('boom')
+          return node.id
+        },
+      },
+    })
+    assert.equal(run.status, 'failed')
+    assert.equal(run.failedNodeId, 'b')
+    assert.deepEqual(
+      Object.fromEntries(Object.entries(run.nodes).map(([id, state]) => [id, state.status])),
+      { a: 'completed', b: 'failed', c: 'skipped', d: 'completed' }
+    )
+  })
+})